@@ -0,0 +1,53 @@
+import { useEffect, ReactNode } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { useAuth } from './AuthProvider';
+import { useI18n } from './LocaleProvider';
+import { PageAuth } from '../types/auth';
+
+interface AuthGuardProps {
+  auth?: PageAuth;
+  children: ReactNode;
+}
+
+// Redirect anonymous users to the login page and block pages the role may not open
+export default function AuthGuard({ auth = {}, children }: AuthGuardProps) {
+  const router = useRouter();
+  const { user, ready, can } = useAuth();
+  const { t } = useI18n();
+  const mustLogin = !auth.public && ready && !user;
+
+  useEffect(() => {
+    if (mustLogin) {
+      router.replace({ pathname: '/login', query: { next: router.asPath } });
+    }
+  }, [mustLogin, router]);
+
+  if (auth.public) {
+    return <>{children}</>;
+  }
+
+  if (!ready || !user) {
+    return (
+      <div className="min-h-screen bg-gray-100 flex items-center justify-center text-gray-500">
+        <div className="animate-spin inline-block w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full"></div>
+      </div>
+    );
+  }
+
+  if (auth.permission && !can(auth.permission)) {
+    return (
+      <main className="min-h-screen bg-gray-100 py-8">
+        <div className="max-w-xl mx-auto px-4">
+          <div className="bg-white rounded-lg shadow-md p-8 text-center">
+            <p className="text-lg font-semibold text-gray-700 mb-2">{t('authGuard.denied')}</p>
+            <p className="text-gray-500 mb-4">{t('authGuard.deniedHint')}</p>
+            <Link href="/" className="btn-primary inline-block">{t('common.backToList')}</Link>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  return <>{children}</>;
+}
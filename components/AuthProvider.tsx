@@ -0,0 +1,90 @@
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
+import { useRouter } from 'next/router';
+import { setAuthToken, setUnauthorizedHandler } from '../lib/api';
+import { identityProvider, loadSession, saveSession, clearSession, hasPermission } from '../lib/auth';
+import { clearOfflineCache, clearQueuedMutations, setQueueOwner } from '../lib/offlineDb';
+import { Permission, Session, User } from '../types/auth';
+
+interface AuthContextValue {
+  user: User | null;
+  // false until the stored session has been read on the client
+  ready: boolean;
+  login: (username: string, password: string) => Promise<void>;
+  // Explicit logout: also discards the user's offline queue, so callers confirm first
+  logout: () => void;
+  can: (permission: Permission) => boolean;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const router = useRouter();
+  const [session, setSession] = useState<Session | null>(null);
+  const [ready, setReady] = useState(false);
+
+  const applySession = useCallback((newSession: Session | null) => {
+    setAuthToken(newSession?.token ?? null);
+    setQueueOwner(newSession?.user.id ?? null);
+    setSession(newSession);
+  }, []);
+
+  // Session expiry and 401s wipe the offline cache (a shared front-desk PC must not show it to the next user)
+  // but keep the queue; it is tagged with the user id and replayed once that user logs in again
+  const endSession = useCallback(() => {
+    clearSession();
+    clearOfflineCache().catch(() => undefined);
+    applySession(null);
+  }, [applySession]);
+
+  const logout = useCallback(() => {
+    clearQueuedMutations().catch(() => undefined);
+    endSession();
+  }, [endSession]);
+
+  // Restore the session saved by a previous visit
+  useEffect(() => {
+    applySession(loadSession());
+    setReady(true);
+  }, [applySession]);
+
+  // End the session when it expires
+  useEffect(() => {
+    if (!session) return;
+    // setTimeout overflows past ~24.8 days, so cap the delay
+    const delay = Math.min(new Date(session.expiresAt).getTime() - Date.now(), 2 ** 31 - 1);
+    const timer = setTimeout(endSession, delay);
+    return () => clearTimeout(timer);
+  }, [session, endSession]);
+
+  // A 401 from the backend means the token is no longer accepted
+  useEffect(() => {
+    setUnauthorizedHandler(() => {
+      endSession();
+      router.replace({ pathname: '/login', query: { next: router.asPath } });
+    });
+    return () => setUnauthorizedHandler(null);
+  }, [router, endSession]);
+
+  const login = useCallback(async (username: string, password: string) => {
+    const newSession = await identityProvider.login(username, password);
+    saveSession(newSession);
+    applySession(newSession);
+  }, [applySession]);
+
+  const user = session?.user ?? null;
+  const can = useCallback((permission: Permission) => hasPermission(user, permission), [user]);
+
+  return (
+    <AuthContext.Provider value={{ user, ready, login, logout, can }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used inside AuthProvider');
+  }
+  return context;
+}
@@ -0,0 +1,83 @@
+import { ChartDatum } from '../lib/patientStats';
+import { useI18n } from './LocaleProvider';
+
+interface BarChartProps {
+  data: ChartDatum[];
+  // 'vertical' for time series (many narrow columns), 'horizontal' for categories
+  orientation?: 'vertical' | 'horizontal';
+  barClassName?: string;
+  onSelect?: (datum: ChartDatum) => void;
+}
+
+// Dependency-free bar chart; segments with a filter are clickable
+export default function BarChart({ data, orientation = 'horizontal', barClassName = 'bg-blue-500', onSelect }: BarChartProps) {
+  const { t } = useI18n();
+  const max = Math.max(1, ...data.map(datum => datum.value));
+  const total = data.reduce((sum, datum) => sum + datum.value, 0);
+  const isClickable = (datum: ChartDatum) => Boolean(onSelect && datum.filter && datum.value > 0);
+
+  if (data.length === 0) {
+    return <p className="text-sm text-gray-500">{t('chart.noData')}</p>;
+  }
+
+  if (orientation === 'vertical') {
+    return (
+      <div className="overflow-x-auto">
+        <div className="flex items-end gap-1 h-48 min-w-full" style={{ width: `${Math.max(data.length * 28, 100)}px` }}>
+          {data.map(datum => (
+            <button
+              key={datum.key}
+              type="button"
+              onClick={() => onSelect?.(datum)}
+              disabled={!isClickable(datum)}
+              title={`${datum.label}: ${datum.value}`}
+              className="flex-1 h-full flex flex-col justify-end items-center group disabled:cursor-default"
+            >
+              <span className="text-xs text-gray-600 mb-1">{datum.value > 0 ? datum.value : ''}</span>
+              <span
+                className={`w-full rounded-t ${barClassName} group-enabled:group-hover:opacity-75`}
+                style={{ height: `${(datum.value / max) * 100}%` }}
+              />
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-1 mt-1 min-w-full" style={{ width: `${Math.max(data.length * 28, 100)}px` }}>
+          {data.map(datum => (
+            <span key={datum.key} className="flex-1 text-[10px] text-gray-500 text-center truncate" title={datum.label}>
+              {datum.label}
+            </span>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <ul className="space-y-2">
+      {data.map(datum => (
+        <li key={datum.key}>
+          <button
+            type="button"
+            onClick={() => onSelect?.(datum)}
+            disabled={!isClickable(datum)}
+            className="w-full text-left group disabled:cursor-default"
+          >
+            <div className="flex justify-between text-sm mb-1">
+              <span className="text-gray-700 group-enabled:group-hover:text-blue-700">{datum.label}</span>
+              <span className="text-gray-600">
+                {datum.value}
+                <span className="text-gray-400"> ({total > 0 ? Math.round((datum.value / total) * 100) : 0}%)</span>
+              </span>
+            </div>
+            <div className="h-4 bg-gray-100 rounded">
+              <div
+                className={`h-4 rounded ${barClassName} group-enabled:group-hover:opacity-75`}
+                style={{ width: `${(datum.value / max) * 100}%` }}
+              />
+            </div>
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
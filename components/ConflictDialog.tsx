@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { Patient, PatientFormData } from '../types/patient';
+import { FieldConflict } from '../lib/editConflict';
+import { formatPatientValue } from '../lib/patientSchema';
+import { formatDateTime } from '../lib/format';
+import useRegionData from '../hooks/useRegionData';
+import { useI18n } from './LocaleProvider';
+
+type Choice = 'mine' | 'theirs';
+
+interface ConflictDialogProps {
+  conflicts: FieldConflict[];
+  // My edits merged with the fields only the other user changed
+  mine: PatientFormData;
+  latest: Patient;
+  saving?: boolean;
+  // Save the merged values on top of the latest server version
+  onResolve: (merged: PatientFormData) => void;
+  // Drop my changes and use the server version as is
+  onKeepTheirs: () => void;
+  onCancel: () => void;
+}
+
+export default function ConflictDialog({ conflicts, mine, latest, saving = false, onResolve, onKeepTheirs, onCancel }: ConflictDialogProps) {
+  const { t } = useI18n();
+  const [choices, setChoices] = useState<Record<string, Choice>>(() =>
+    Object.fromEntries(conflicts.map(conflict => [conflict.field, 'mine' as Choice]))
+  );
+  // Region fields are shown by name, which needs the region data of both versions
+  useRegionData([mine.provinsi_kode, latest.provinsi_kode]);
+
+  const setAll = (choice: Choice) =>
+    setChoices(Object.fromEntries(conflicts.map(conflict => [conflict.field, choice])));
+
+  const handleResolve = () => {
+    const merged = { ...mine };
+    conflicts.forEach(({ field, theirs }) => {
+      if (choices[field] === 'theirs') {
+        merged[field] = theirs;
+      }
+    });
+    onResolve(merged);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-40 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-full overflow-y-auto">
+        <div className="p-6 border-b">
+          <h2 className="text-xl font-semibold text-gray-800">{t('conflict.title')}</h2>
+          <p className="text-gray-600 text-sm mt-1">
+            {t('conflict.description', { time: formatDateTime(latest.updated_at) })}
+          </p>
+        </div>
+
+        <div className="p-6">
+          {conflicts.length === 0 ? (
+            <p className="text-gray-600">{t('conflict.noConflicts')}</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-gray-100">
+                <tr>
+                  <th className="px-3 py-2 text-left font-semibold text-gray-600">{t('conflict.field')}</th>
+                  <th className="px-3 py-2 text-left font-semibold text-gray-600">{t('conflict.mine')}</th>
+                  <th className="px-3 py-2 text-left font-semibold text-gray-600">{t('conflict.theirs')}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {conflicts.map(({ field, mine: myValue, theirs }) => (
+                  <tr key={field}>
+                    <td className="px-3 py-2 font-medium text-gray-700">{t(`field.${field}`)}</td>
+                    {(['mine', 'theirs'] as Choice[]).map((choice) => (
+                      <td key={choice} className="px-3 py-2">
+                        <label className="flex items-start gap-2 cursor-pointer">
+                          <input
+                            type="radio"
+                            name={`conflict-${field}`}
+                            checked={choices[field] === choice}
+                            onChange={() => setChoices(prev => ({ ...prev, [field]: choice }))}
+                            className="mt-1"
+                          />
+                          <span className="break-words">{formatPatientValue(field, choice === 'mine' ? myValue : theirs, t) || '-'}</span>
+                        </label>
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="p-6 border-t flex flex-col md:flex-row gap-2 md:justify-between">
+          <div className="flex gap-2">
+            <button type="button" onClick={() => setAll('mine')} className="btn-secondary text-sm" disabled={saving}>
+              {t('conflict.allMine')}
+            </button>
+            <button type="button" onClick={() => setAll('theirs')} className="btn-secondary text-sm" disabled={saving}>
+              {t('conflict.allTheirs')}
+            </button>
+          </div>
+          <div className="flex gap-2">
+            <button type="button" onClick={onCancel} className="btn-secondary" disabled={saving}>
+              {t('common.cancel')}
+            </button>
+            <button type="button" onClick={onKeepTheirs} className="btn-secondary" disabled={saving}>
+              {t('conflict.discardMine')}
+            </button>
+            <button type="button" onClick={handleResolve} className="btn-primary" disabled={saving}>
+              {saving ? t('common.saving') : t('conflict.saveMerged')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { PatientFormData } from '../types/patient';
+import { DuplicateMatch, DUPLICATE_REASON_LABELS } from '../lib/duplicates';
+import { formatDate } from '../lib/format';
+import { formatPhone } from '../lib/phone';
+import { useI18n } from './LocaleProvider';
+
+interface DuplicateWarningDialogProps {
+  data: PatientFormData;
+  matches: DuplicateMatch[];
+  saving?: boolean;
+  // Register the new patient even though it looks like an existing one
+  onCreateAnyway: () => void;
+  onCancel: () => void;
+}
+
+export default function DuplicateWarningDialog({ data, matches, saving = false, onCreateAnyway, onCancel }: DuplicateWarningDialogProps) {
+  const { t } = useI18n();
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-40 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-full overflow-y-auto">
+        <div className="p-6 border-b">
+          <h2 className="text-xl font-semibold text-gray-800">{t('duplicate.title')}</h2>
+          <p className="text-gray-600 text-sm mt-1">
+            {t('duplicate.found', { count: matches.length })} <strong>{data.nama}</strong>{' '}
+            {t('duplicate.details', { nik: data.nik, date: formatDate(data.tanggal_lahir) })}
+          </p>
+        </div>
+
+        <div className="p-6 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-100">
+              <tr>
+                <th className="px-3 py-2 text-left font-semibold text-gray-600">{t('home.col.nama')}</th>
+                <th className="px-3 py-2 text-left font-semibold text-gray-600">{t('home.col.nik')}</th>
+                <th className="px-3 py-2 text-left font-semibold text-gray-600">{t('home.col.tanggalLahir')}</th>
+                <th className="px-3 py-2 text-left font-semibold text-gray-600">{t('home.col.noTelepon')}</th>
+                <th className="px-3 py-2 text-left font-semibold text-gray-600">{t('duplicate.reason')}</th>
+                <th className="px-3 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {matches.map(({ patient, reasons }) => (
+                <tr key={patient.id}>
+                  <td className="px-3 py-2 font-medium text-gray-800">{patient.nama}</td>
+                  <td className="px-3 py-2 text-gray-700">{patient.nik}</td>
+                  <td className="px-3 py-2 text-gray-700">{formatDate(patient.tanggal_lahir)}</td>
+                  <td className="px-3 py-2 text-gray-700">{formatPhone(patient.no_telepon)}</td>
+                  <td className="px-3 py-2">
+                    {reasons.map(reason => (
+                      <span key={reason} className="block text-xs text-yellow-800">{t(DUPLICATE_REASON_LABELS[reason])}</span>
+                    ))}
+                  </td>
+                  <td className="px-3 py-2 text-right whitespace-nowrap">
+                    {patient.pendingSync === 'create' ? (
+                      <span className="text-xs text-gray-500">{t('common.pendingSync')}</span>
+                    ) : (
+                      <a
+                        href={`/patients/${patient.id}`}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="text-blue-600 hover:text-blue-800 font-medium"
+                      >
+                        {t('duplicate.view')}
+                      </a>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="p-6 border-t flex flex-col md:flex-row gap-2 md:justify-end">
+          <button type="button" onClick={onCancel} className="btn-secondary" disabled={saving}>
+            {t('duplicate.back')}
+          </button>
+          <button type="button" onClick={onCreateAnyway} className="btn-primary" disabled={saving}>
+            {saving ? t('common.saving') : t('duplicate.createAnyway')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+interface HighlightProps {
+  text: string;
+  keyword: string;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Wrap every case-insensitive occurrence of `keyword` in `text` with <mark>
+export default function Highlight({ text, keyword }: HighlightProps) {
+  if (!keyword) {
+    return <>{text}</>;
+  }
+
+  const parts = text.split(new RegExp(`(${escapeRegExp(keyword)})`, 'gi'));
+
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.toLowerCase() === keyword.toLowerCase() ? (
+          <mark key={index} className="bg-yellow-200 rounded px-0.5">{part}</mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+}
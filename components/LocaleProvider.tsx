@@ -0,0 +1,58 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, ReactNode } from 'react';
+import {
+  Locale,
+  Translate,
+  DEFAULT_LOCALE,
+  createTranslator,
+  setActiveLocale,
+  loadLocalePreference,
+  saveLocalePreference,
+} from '../lib/i18n';
+import { useAuth } from './AuthProvider';
+
+interface LocaleContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: Translate;
+}
+
+const LocaleContext = createContext<LocaleContextValue | null>(null);
+
+export function LocaleProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [locale, setLocaleState] = useState<Locale>(DEFAULT_LOCALE);
+
+  // The module-level locale is used by formatting and validation outside React, so set it before rendering
+  const applyLocale = useCallback((newLocale: Locale) => {
+    setActiveLocale(newLocale);
+    setLocaleState(newLocale);
+    document.documentElement.lang = newLocale;
+  }, []);
+
+  // Switch to the signed-in user's saved choice, or the last one used on this device
+  useEffect(() => {
+    applyLocale(loadLocalePreference(userId) ?? loadLocalePreference() ?? DEFAULT_LOCALE);
+  }, [userId, applyLocale]);
+
+  const setLocale = useCallback((newLocale: Locale) => {
+    saveLocalePreference(newLocale, userId);
+    applyLocale(newLocale);
+  }, [userId, applyLocale]);
+
+  const t = useMemo(() => createTranslator(locale), [locale]);
+
+  return (
+    <LocaleContext.Provider value={{ locale, setLocale, t }}>
+      {children}
+    </LocaleContext.Provider>
+  );
+}
+
+export function useI18n() {
+  const context = useContext(LocaleContext);
+  if (!context) {
+    throw new Error('useI18n must be used inside LocaleProvider');
+  }
+  return context;
+}
@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import useOfflineSync from '../hooks/useOfflineSync';
+import { MutationType } from '../lib/offlineDb';
+import { formatDateTime } from '../lib/format';
+import { MessageKey } from '../lib/i18n';
+import { useI18n } from './LocaleProvider';
+
+const MUTATION_LABEL_KEYS: Record<MutationType, MessageKey> = {
+  create: 'offline.mutation.create',
+  update: 'offline.mutation.update',
+  delete: 'offline.mutation.delete',
+};
+
+export default function OfflineStatus() {
+  const { t } = useI18n();
+  const [lastSyncMessage, setLastSyncMessage] = useState('');
+  const { online, syncing, pending, rejected, sync, retry, discard } = useOfflineSync((result) => {
+    setLastSyncMessage(
+      t('offline.synced', { count: result.synced }) +
+      (result.rejected > 0 ? t('offline.syncedRejected', { count: result.rejected }) : '')
+    );
+  });
+
+  if (online && pending.length === 0 && rejected.length === 0 && !lastSyncMessage) {
+    return null;
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 pt-4 space-y-2">
+      {!online && (
+        <div className="bg-yellow-100 border border-yellow-400 text-yellow-800 px-4 py-3 rounded-lg">
+          {t('offline.banner')}
+        </div>
+      )}
+
+      {pending.length > 0 && (
+        <div className="bg-blue-50 border border-blue-300 text-blue-800 px-4 py-3 rounded-lg flex flex-col md:flex-row gap-2 justify-between md:items-center">
+          <span>
+            <span className="inline-block bg-blue-600 text-white rounded-full px-2 py-0.5 text-xs font-semibold mr-2">
+              {pending.length}
+            </span>
+            {t('offline.pending')}
+          </span>
+          {online && (
+            <button onClick={sync} disabled={syncing} className="text-blue-700 hover:text-blue-900 font-medium text-sm">
+              {syncing ? t('offline.syncing') : t('offline.syncNow')}
+            </button>
+          )}
+        </div>
+      )}
+
+      {lastSyncMessage && pending.length === 0 && (
+        <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded-lg flex justify-between">
+          <span>✅ {lastSyncMessage}</span>
+          <button onClick={() => setLastSyncMessage('')} className="text-sm font-medium">{t('common.close')}</button>
+        </div>
+      )}
+
+      {rejected.length > 0 && (
+        <div className="bg-red-50 border border-red-300 text-red-800 px-4 py-3 rounded-lg">
+          <p className="font-semibold mb-2">{t('offline.rejectedTitle', { count: rejected.length })}</p>
+          <ul className="divide-y divide-red-200">
+            {rejected.map((mutation) => (
+              <li key={mutation.id} className="py-2 flex flex-col md:flex-row gap-2 justify-between md:items-center text-sm">
+                <div>
+                  <span className="font-medium">{t(MUTATION_LABEL_KEYS[mutation.type])} — {mutation.label}</span>
+                  {mutation.type !== 'delete' && mutation.data.nik && <span className="text-red-600"> (NIK {mutation.data.nik})</span>}
+                  <span className="block text-red-600">{mutation.error}</span>
+                  <span className="block text-xs text-red-500">{t('offline.queuedAt', { time: formatDateTime(mutation.queuedAt) })}</span>
+                </div>
+                <div className="flex gap-3">
+                  <button onClick={() => retry(mutation)} className="text-blue-700 hover:text-blue-900 font-medium">
+                    {t('common.retry')}
+                  </button>
+                  <button onClick={() => discard(mutation.id!)} className="text-red-700 hover:text-red-900 font-medium">
+                    {t('common.discard')}
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
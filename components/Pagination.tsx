@@ -0,0 +1,81 @@
+import { PAGE_SIZE_OPTIONS } from '../lib/patientQuery';
+import { formatNumber } from '../lib/format';
+import { useI18n } from './LocaleProvider';
+
+interface PaginationProps {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+  onPageChange: (page: number) => void;
+  onLimitChange: (limit: number) => void;
+}
+
+// Build a short window of page numbers around the current page
+const getPageNumbers = (page: number, totalPages: number): number[] => {
+  const start = Math.max(1, Math.min(page - 2, totalPages - 4));
+  const end = Math.min(totalPages, start + 4);
+  const pages: number[] = [];
+  for (let i = start; i <= end; i++) {
+    pages.push(i);
+  }
+  return pages;
+};
+
+export default function Pagination({ page, limit, total, totalPages, onPageChange, onLimitChange }: PaginationProps) {
+  const { t } = useI18n();
+  const from = total === 0 ? 0 : (page - 1) * limit + 1;
+  const to = Math.min(page * limit, total);
+
+  return (
+    <div className="p-4 border-t flex flex-col md:flex-row gap-4 justify-between items-center text-sm text-gray-600">
+      <div className="flex items-center gap-2">
+        <span>{t('pagination.show')}</span>
+        <select
+          value={limit}
+          onChange={(e) => onLimitChange(parseInt(e.target.value, 10))}
+          className="px-2 py-1 border border-gray-300 rounded-lg outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {PAGE_SIZE_OPTIONS.map((size) => (
+            <option key={size} value={size}>{size}</option>
+          ))}
+        </select>
+        <span>{t('pagination.perPage')}</span>
+      </div>
+
+      <p>
+        {t('pagination.summary', { from: formatNumber(from), to: formatNumber(to), total: formatNumber(total) })}
+      </p>
+
+      <div className="flex items-center gap-1">
+        <button
+          onClick={() => onPageChange(page - 1)}
+          disabled={page <= 1}
+          className="px-3 py-1 rounded-lg border border-gray-300 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {t('pagination.previous')}
+        </button>
+        {getPageNumbers(page, totalPages).map((pageNumber) => (
+          <button
+            key={pageNumber}
+            onClick={() => onPageChange(pageNumber)}
+            className={`px-3 py-1 rounded-lg border ${
+              pageNumber === page
+                ? 'bg-blue-600 border-blue-600 text-white'
+                : 'border-gray-300 hover:bg-gray-100'
+            }`}
+          >
+            {pageNumber}
+          </button>
+        ))}
+        <button
+          onClick={() => onPageChange(page + 1)}
+          disabled={page >= totalPages}
+          className="px-3 py-1 rounded-lg border border-gray-300 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {t('pagination.next')}
+        </button>
+      </div>
+    </div>
+  );
+}
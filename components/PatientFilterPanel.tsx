@@ -0,0 +1,247 @@
+import { useState, useEffect } from 'react';
+import { GENDER_OPTIONS, BLOOD_TYPE_OPTIONS, genderLabel } from '../lib/patientSchema';
+import { getRegions } from '../lib/regions';
+import {
+  FilterValues,
+  FilterPreset,
+  emptyFilters,
+  loadFilterPresets,
+  saveFilterPreset,
+  deleteFilterPreset,
+} from '../lib/filterPresets';
+import { useAuth } from './AuthProvider';
+import { useI18n } from './LocaleProvider';
+
+interface PatientFilterPanelProps {
+  // Filters currently applied (from the URL)
+  filters: FilterValues;
+  onApply: (filters: FilterValues) => void;
+}
+
+const PROVINCES = getRegions('provinsi').sort((a, b) => a.name.localeCompare(b.name, 'id'));
+
+const parseAgeInput = (value: string): number | null => (value === '' ? null : Math.max(0, parseInt(value, 10) || 0));
+
+// Edits a draft of the filters; nothing is fetched until "Terapkan" or a preset is picked
+export default function PatientFilterPanel({ filters, onApply }: PatientFilterPanelProps) {
+  const { user } = useAuth();
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<FilterValues>(filters);
+  const [presets, setPresets] = useState<FilterPreset[]>([]);
+  const [presetName, setPresetName] = useState('');
+  const [selectedPreset, setSelectedPreset] = useState('');
+  const [error, setError] = useState('');
+
+  // Follow the applied filters when they change elsewhere (chips, back button, bookmarks)
+  const appliedKey = JSON.stringify(filters);
+  useEffect(() => {
+    setDraft(JSON.parse(appliedKey));
+  }, [appliedKey]);
+
+  useEffect(() => {
+    if (user) {
+      setPresets(loadFilterPresets(user.id));
+    }
+  }, [user]);
+
+  const bloodTypes = draft.golongan_darah ? draft.golongan_darah.split(',') : [];
+
+  const toggleBloodType = (bloodType: string) => {
+    const next = bloodTypes.includes(bloodType)
+      ? bloodTypes.filter(value => value !== bloodType)
+      : BLOOD_TYPE_OPTIONS.filter(value => value === bloodType || bloodTypes.includes(value));
+    setDraft(prev => ({ ...prev, golongan_darah: next.join(',') }));
+  };
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (draft.umur_min !== null && draft.umur_max !== null && draft.umur_min > draft.umur_max) {
+      setError(t('filters.ageRangeInvalid'));
+      return;
+    }
+    if (draft.created_from && draft.created_to && draft.created_from > draft.created_to) {
+      setError(t('filters.dateRangeInvalid'));
+      return;
+    }
+    setError('');
+    onApply(draft);
+  };
+
+  const handleReset = () => {
+    setError('');
+    setSelectedPreset('');
+    onApply(emptyFilters());
+  };
+
+  const handleSelectPreset = (name: string) => {
+    setSelectedPreset(name);
+    const preset = presets.find(item => item.name === name);
+    if (preset) {
+      setError('');
+      onApply(preset.filters);
+    }
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!user || !name) return;
+    if (presets.some(preset => preset.name === name) && !window.confirm(t('filters.confirmOverwrite', { name }))) return;
+    setPresets(saveFilterPreset(user.id, { name, filters }));
+    setSelectedPreset(name);
+    setPresetName('');
+  };
+
+  const handleDeletePreset = () => {
+    if (!user || !selectedPreset || !window.confirm(t('filters.confirmDelete', { name: selectedPreset }))) return;
+    setPresets(deleteFilterPreset(user.id, selectedPreset));
+    setSelectedPreset('');
+  };
+
+  return (
+    <form onSubmit={handleApply} className="bg-white rounded-lg shadow-md p-4 mb-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-6 gap-4">
+        <div>
+          <span className="block text-gray-700 text-sm font-medium mb-1">{t('field.golongan_darah')}</span>
+          <div className="flex flex-wrap gap-3 pt-2">
+            {BLOOD_TYPE_OPTIONS.map(bloodType => (
+              <label key={bloodType} className="inline-flex items-center gap-1 text-sm">
+                <input
+                  type="checkbox"
+                  checked={bloodTypes.includes(bloodType)}
+                  onChange={() => toggleBloodType(bloodType)}
+                />
+                {bloodType}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-gray-700 text-sm font-medium mb-1">{t('field.jenis_kelamin')}</label>
+          <select
+            value={draft.jenis_kelamin}
+            onChange={(e) => setDraft(prev => ({ ...prev, jenis_kelamin: e.target.value }))}
+            className="input-field"
+          >
+            <option value="">{t('common.all')}</option>
+            {GENDER_OPTIONS.map(gender => (
+              <option key={gender} value={gender}>{genderLabel(gender, t)}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <span className="block text-gray-700 text-sm font-medium mb-1">{t('filters.ageYears')}</span>
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              min={0}
+              value={draft.umur_min ?? ''}
+              onChange={(e) => setDraft(prev => ({ ...prev, umur_min: parseAgeInput(e.target.value) }))}
+              className="input-field"
+              placeholder={t('filters.min')}
+              aria-label={t('filters.ageMinLabel')}
+            />
+            <span className="text-gray-500">–</span>
+            <input
+              type="number"
+              min={0}
+              value={draft.umur_max ?? ''}
+              onChange={(e) => setDraft(prev => ({ ...prev, umur_max: parseAgeInput(e.target.value) }))}
+              className="input-field"
+              placeholder={t('filters.max')}
+              aria-label={t('filters.ageMaxLabel')}
+            />
+          </div>
+        </div>
+
+        <div>
+          <span className="block text-gray-700 text-sm font-medium mb-1">{t('filters.registeredDate')}</span>
+          <div className="flex flex-col gap-1">
+            <input
+              type="date"
+              value={draft.created_from}
+              onChange={(e) => setDraft(prev => ({ ...prev, created_from: e.target.value }))}
+              className="input-field"
+              aria-label={t('filters.registeredFrom')}
+            />
+            <input
+              type="date"
+              value={draft.created_to}
+              onChange={(e) => setDraft(prev => ({ ...prev, created_to: e.target.value }))}
+              className="input-field"
+              aria-label={t('filters.registeredTo')}
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-gray-700 text-sm font-medium mb-1">{t('field.email')}</label>
+          <select
+            value={draft.email}
+            onChange={(e) => setDraft(prev => ({ ...prev, email: e.target.value as FilterValues['email'] }))}
+            className="input-field"
+          >
+            <option value="">{t('common.all')}</option>
+            <option value="ada">{t('filters.hasEmail')}</option>
+            <option value="kosong">{t('filters.missingEmail')}</option>
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-gray-700 text-sm font-medium mb-1">{t('field.provinsi_kode')}</label>
+          <select
+            value={draft.provinsi_kode}
+            onChange={(e) => setDraft(prev => ({ ...prev, provinsi_kode: e.target.value }))}
+            className="input-field"
+          >
+            <option value="">{t('common.all')}</option>
+            {PROVINCES.map(province => (
+              <option key={province.code} value={province.code}>{province.name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && <p className="error-message">{error}</p>}
+
+      <div className="flex flex-col lg:flex-row gap-4 justify-between mt-4">
+        <div className="flex gap-2">
+          <button type="submit" className="btn-primary">{t('common.apply')}</button>
+          <button type="button" onClick={handleReset} className="btn-secondary">{t('common.reset')}</button>
+        </div>
+
+        {/* Named presets of the applied filters */}
+        <div className="flex flex-col md:flex-row gap-2">
+          <select
+            value={selectedPreset}
+            onChange={(e) => handleSelectPreset(e.target.value)}
+            className="input-field md:w-48"
+            aria-label={t('filters.presetAria')}
+          >
+            <option value="">{t('filters.presetPlaceholder')}</option>
+            {presets.map(preset => (
+              <option key={preset.name} value={preset.name}>{preset.name}</option>
+            ))}
+          </select>
+          {selectedPreset && (
+            <button type="button" onClick={handleDeletePreset} className="text-red-600 hover:text-red-800 text-sm font-medium">
+              {t('filters.deletePreset')}
+            </button>
+          )}
+          <input
+            type="text"
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            className="input-field md:w-48"
+            placeholder={t('filters.newPresetPlaceholder')}
+            maxLength={40}
+          />
+          <button type="button" onClick={handleSavePreset} disabled={!presetName.trim()} className="btn-secondary disabled:opacity-50">
+            {t('filters.savePreset')}
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,274 @@
+import { useEffect, useMemo, useRef, useState, ReactNode } from 'react';
+import { PatientFormData, FormErrors } from '../types/patient';
+import { initialFormData, validatePatientForm, normalizePatientFormData } from '../lib/patientForm';
+import { PATIENT_FIELD_NAMES, PatientFieldName, REGION_FIELDS, getPatientField } from '../lib/patientSchema';
+import { parseNik, getNikMismatches } from '../lib/nik';
+import { REGION_LEVELS, getRegions, findRegion, loadRegionData, regionCodesFromNik } from '../lib/regions';
+import { ApiRequestError } from '../lib/api';
+import useRegionData from '../hooks/useRegionData';
+import { useI18n } from './LocaleProvider';
+
+interface PatientFormProps {
+  initialData?: PatientFormData;
+  isEditing?: boolean;
+  // Resolve when saved; reject to keep the form open with the entered data
+  onSubmit: (data: PatientFormData) => Promise<void>;
+  onCancel: () => void;
+}
+
+export default function PatientForm({ initialData = initialFormData, isEditing = false, onSubmit, onCancel }: PatientFormProps) {
+  const { t } = useI18n();
+  const [formData, setFormData] = useState<PatientFormData>(initialData);
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [submitting, setSubmitting] = useState(false);
+  const [regionFromNik, setRegionFromNik] = useState(false);
+  // Latest values for effects that react to the NIK only
+  const formDataRef = useRef(formData);
+  formDataRef.current = formData;
+  const regionsReady = useRegionData([formData.provinsi_kode]);
+
+  // Handle form submit
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const newErrors = validatePatientForm(formData, t);
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) {
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      await onSubmit(normalizePatientFormData(formData));
+    } catch (error) {
+      // The parent shows the banner; field errors from the server go next to their inputs
+      if (error instanceof ApiRequestError && error.hasFieldErrors) {
+        setErrors(prev => ({ ...prev, ...error.errors }));
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Structural NIK check, used for non-blocking warnings and auto-fill
+  const parsedNik = useMemo(() => {
+    const result = parseNik(formData.nik);
+    return result.valid ? result.data : null;
+  }, [formData.nik]);
+  const nikWarnings = parsedNik ? getNikMismatches(parsedNik, formData) : [];
+  const canAutoFillFromNik = parsedNik !== null && (
+    formData.tanggal_lahir !== parsedNik.birthDate || formData.jenis_kelamin !== parsedNik.gender
+  );
+
+  // Fill date of birth and gender from the data encoded in the NIK
+  const handleAutoFillFromNik = () => {
+    if (!parsedNik) return;
+    setFormData(prev => ({
+      ...prev,
+      tanggal_lahir: parsedNik.birthDate,
+      jenis_kelamin: parsedNik.gender,
+    }));
+    setErrors(prev => ({ ...prev, tanggal_lahir: '', jenis_kelamin: '' }));
+  };
+
+  // Pre-select the region encoded in a valid NIK, but only while the address is still empty;
+  // runs when the NIK changes, not when the address does
+  useEffect(() => {
+    if (!parsedNik) return;
+    let cancelled = false;
+    loadRegionData([parsedNik.provinceCode])
+      .then(() => {
+        const { provinsi_kode, alamat } = formDataRef.current;
+        if (cancelled || provinsi_kode || alamat) return;
+        const codes = regionCodesFromNik(parsedNik);
+        if (!codes.provinsi) return;
+        setFormData(prev => ({
+          ...prev,
+          provinsi_kode: codes.provinsi ?? '',
+          kabupaten_kode: codes.kabupaten ?? '',
+          kecamatan_kode: codes.kecamatan ?? '',
+        }));
+        setRegionFromNik(true);
+      })
+      // Without region data the address is simply left for the user to pick
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [parsedNik]);
+
+  // Field-specific hints rendered under the generated input
+  const fieldExtras: Partial<Record<PatientFieldName, ReactNode>> = {
+    nik: (
+      <>
+        {parsedNik && (
+          <p className="text-gray-500 text-sm mt-1">
+            {t('patientForm.province', { name: parsedNik.provinceName })}
+          </p>
+        )}
+        {nikWarnings.map((warning) => (
+          <p key={warning} className="text-yellow-700 text-sm mt-1">⚠️ {warning}</p>
+        ))}
+        {canAutoFillFromNik && (
+          <button
+            type="button"
+            onClick={handleAutoFillFromNik}
+            className="text-blue-600 hover:text-blue-800 text-sm font-medium mt-1"
+          >
+            {t('patientForm.autoFillFromNik')}
+          </button>
+        )}
+      </>
+    ),
+    provinsi_kode: regionFromNik && (
+      <p className="text-gray-500 text-sm mt-1">{t('patientForm.regionFromNik')}</p>
+    ),
+  };
+
+  // Handle input change
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    const region = getPatientField(name as PatientFieldName).region;
+    setFormData(prev => {
+      const next = { ...prev, [name]: value };
+      if (region) {
+        // A different region invalidates every level below it; a village brings its postal code
+        REGION_LEVELS.slice(REGION_LEVELS.indexOf(region) + 1).forEach((level) => {
+          next[REGION_FIELDS[level]] = '';
+        });
+        const postalCode = region === 'kelurahan' ? findRegion(value)?.postalCode : undefined;
+        if (postalCode) {
+          next.kode_pos = postalCode;
+        }
+      }
+      return next;
+    });
+    if (region) {
+      setRegionFromNik(false);
+    }
+    if (errors[name]) {
+      setErrors(prev => ({ ...prev, [name]: '' }));
+    }
+  };
+
+  // Options for a region select: the children of the region chosen one level up
+  const regionOptions = (name: PatientFieldName) => {
+    const level = getPatientField(name).region;
+    if (!level) return { options: [], parentMissing: false };
+    const parentLevel = REGION_LEVELS[REGION_LEVELS.indexOf(level) - 1];
+    const parentCode = parentLevel ? formData[REGION_FIELDS[parentLevel]] : '';
+    if (parentLevel && !parentCode) return { options: [], parentMissing: true };
+    return { options: getRegions(level, parentCode), parentMissing: false };
+  };
+
+  const renderField = (name: PatientFieldName) => {
+    const field = getPatientField(name);
+    const inputProps = {
+      id: `patient-${name}`,
+      name,
+      value: formData[name],
+      onChange: handleInputChange,
+      className: `input-field ${errors[name] ? 'input-error' : ''}`,
+    };
+    const required = field.required || Boolean(field.requiredWhen?.(formData));
+
+    let control: ReactNode;
+    if (field.input === 'composed') {
+      // Read-only: the value is built from other fields, or the stored value when they are empty
+      const composed = field.compute?.(formData) ?? '';
+      control = (
+        <>
+          <p id={inputProps.id} className={`${inputProps.className} bg-gray-50 min-h-[2.5rem]`}>
+            {composed || formData[name] || '-'}
+          </p>
+          <p className="text-gray-500 text-sm mt-1">
+            {!composed && formData[name] ? t('patientForm.legacyAddress') : t('patientForm.composedAddress')}
+          </p>
+        </>
+      );
+    } else if (field.input === 'region') {
+      const { options, parentMissing } = regionOptions(name);
+      control = (
+        <>
+          <select {...inputProps} disabled={parentMissing || options.length === 0}>
+            <option value="">{field.emptyOption ? t(field.emptyOption) : ''}</option>
+            {options.map(region => (
+              <option key={region.code} value={region.code}>{region.name}</option>
+            ))}
+          </select>
+          {!parentMissing && options.length === 0 && (
+            <p className="text-gray-500 text-sm mt-1">
+              {regionsReady ? t('patientForm.noRegionData') : t('patientForm.loadingRegions')}
+            </p>
+          )}
+        </>
+      );
+    } else if (field.input === 'select') {
+      control = (
+        <select {...inputProps}>
+          <option value="">{field.emptyOption ? t(field.emptyOption) : ''}</option>
+          {field.options?.map(option => (
+            <option key={option} value={option}>{field.optionLabel ? field.optionLabel(option, t) : option}</option>
+          ))}
+        </select>
+      );
+    } else if (field.input === 'textarea') {
+      control = (
+        <textarea
+          {...inputProps}
+          placeholder={field.placeholder && t(field.placeholder)}
+          rows={field.rows}
+          maxLength={field.maxLength}
+        />
+      );
+    } else {
+      control = (
+        <input
+          {...inputProps}
+          type={field.input}
+          placeholder={field.placeholder && t(field.placeholder)}
+          maxLength={field.maxLength}
+        />
+      );
+    }
+
+    return (
+      <div key={name} className={field.wide ? 'md:col-span-2' : undefined}>
+        <label htmlFor={inputProps.id} className="block text-gray-700 font-medium mb-2">
+          {t(field.label)} {required && <span className="text-red-500">*</span>}
+        </label>
+        {control}
+        {errors[name] && <p className="error-message">{errors[name]}</p>}
+        {fieldExtras[name]}
+      </div>
+    );
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {PATIENT_FIELD_NAMES.filter(name => !getPatientField(name).group).map(renderField)}
+      </div>
+
+      <fieldset className="mt-6">
+        <legend className="text-lg font-semibold text-gray-800 mb-2">{t('patientForm.addressSection')}</legend>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {PATIENT_FIELD_NAMES.filter(name => getPatientField(name).group === 'address').map(renderField)}
+        </div>
+      </fieldset>
+
+      <div className="flex gap-4 mt-6">
+        <button type="submit" className="btn-primary" disabled={submitting}>
+          {isEditing ? t('patientForm.update') : t('patientForm.save')}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="btn-secondary"
+        >
+          {t('common.cancel')}
+        </button>
+      </div>
+    </form>
+  );
+}
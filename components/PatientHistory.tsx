@@ -0,0 +1,147 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Patient, PatientFormData } from '../types/patient';
+import { getPatientHistory, getApiErrorMessage, PatientRevision, FieldChange } from '../lib/api';
+import { patientToFormData } from '../lib/patientForm';
+import { formatPatientValue, getPatientField } from '../lib/patientSchema';
+import { REVISION_ACTION_LABELS, snapshotToFormData, diffPatientFields } from '../lib/patientHistory';
+import { formatDateTime } from '../lib/format';
+import { translate } from '../lib/i18n';
+import useRegionData from '../hooks/useRegionData';
+import { useI18n } from './LocaleProvider';
+
+interface PatientHistoryProps {
+  patient: Patient;
+  canRevert: boolean;
+  // Save the given values through the normal update flow; rejects if the save failed
+  onRevert: (data: PatientFormData) => Promise<void>;
+}
+
+export default function PatientHistory({ patient, canRevert, onRevert }: PatientHistoryProps) {
+  const { t } = useI18n();
+  const [revisions, setRevisions] = useState<PatientRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [errorMessage, setErrorMessage] = useState('');
+  const [reverting, setReverting] = useState(false);
+  // Region fields are shown by name, which needs the region data of every version
+  useRegionData([patient.provinsi_kode, ...revisions.map(revision => revision.snapshot.provinsi_kode)]);
+
+  const fetchHistory = useCallback(async () => {
+    try {
+      setLoading(true);
+      setErrorMessage('');
+      setRevisions(await getPatientHistory(patient.id));
+    } catch (error) {
+      setErrorMessage(getApiErrorMessage(error, translate('history.fetchFailed')));
+    } finally {
+      setLoading(false);
+    }
+  }, [patient.id]);
+
+  // Refetch whenever the record changes, including after a revert from this list
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory, patient.updated_at]);
+
+  const current = patientToFormData(patient);
+
+  const revert = async (data: PatientFormData, question: string) => {
+    if (!window.confirm(question)) return;
+    try {
+      setReverting(true);
+      await onRevert(data);
+    } catch (error) {
+      // The parent shows the error banner or the conflict dialog
+    } finally {
+      setReverting(false);
+    }
+  };
+
+  const revertField = ({ field, old_value }: FieldChange) =>
+    revert(
+      { ...current, [field]: old_value },
+      t('history.confirmRevertField', {
+        field: t(getPatientField(field).label),
+        value: formatPatientValue(field, old_value, t) || '-',
+      })
+    );
+
+  const revertToRevision = (revision: PatientRevision) =>
+    revert(
+      snapshotToFormData(revision.snapshot),
+      t('history.confirmRevertVersion', { time: formatDateTime(revision.changed_at) })
+    );
+
+  return (
+    <div className="border-t mt-6 pt-4">
+      <h2 className="text-lg font-semibold text-gray-800 mb-3">{t('history.title')}</h2>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">{t('history.loading')}</p>
+      ) : errorMessage ? (
+        <p className="text-sm text-red-700">
+          ❌ {errorMessage}{' '}
+          <button onClick={fetchHistory} className="text-blue-600 hover:text-blue-800 font-medium">{t('common.retry')}</button>
+        </p>
+      ) : revisions.length === 0 ? (
+        <p className="text-sm text-gray-500">{t('history.empty')}</p>
+      ) : (
+        <ol className="relative border-l-2 border-gray-200 ml-2 space-y-4">
+          {revisions.map((revision) => {
+            const differsFromCurrent = diffPatientFields(current, revision.snapshot).length > 0;
+            return (
+              <li key={revision.id} className="ml-4">
+                <span className="absolute -left-[7px] mt-1.5 w-3 h-3 rounded-full bg-blue-500"></span>
+                <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-1">
+                  <p className="text-sm text-gray-800">
+                    <span className="font-semibold">{t(REVISION_ACTION_LABELS[revision.action])}</span> {t('history.by')}{' '}
+                    <span className="font-medium">{revision.actor.name}</span>
+                    <span className="text-gray-500"> · {formatDateTime(revision.changed_at)}</span>
+                  </p>
+                  {canRevert && revision.action !== 'delete' && differsFromCurrent && (
+                    <button
+                      onClick={() => revertToRevision(revision)}
+                      disabled={reverting}
+                      className="text-blue-600 hover:text-blue-800 font-medium text-sm disabled:opacity-50 text-left"
+                    >
+                      {t('history.revertVersion')}
+                    </button>
+                  )}
+                </div>
+
+                {revision.action === 'update' && revision.changes.length > 0 && (
+                  <table className="mt-2 text-sm w-full">
+                    <tbody className="divide-y divide-gray-100">
+                      {revision.changes.map((change) => (
+                        <tr key={change.field}>
+                          <td className="py-1 pr-3 text-gray-500 whitespace-nowrap align-top">
+                            {t(getPatientField(change.field).label)}
+                          </td>
+                          <td className="py-1 pr-3 break-words">
+                            <span className="text-red-700 line-through">{formatPatientValue(change.field, change.old_value, t) || '-'}</span>
+                            <span className="text-gray-400"> → </span>
+                            <span className="text-green-700">{formatPatientValue(change.field, change.new_value, t) || '-'}</span>
+                          </td>
+                          <td className="py-1 text-right whitespace-nowrap align-top">
+                            {canRevert && current[change.field] !== change.old_value && (
+                              <button
+                                onClick={() => revertField(change)}
+                                disabled={reverting}
+                                className="text-blue-600 hover:text-blue-800 text-xs font-medium disabled:opacity-50"
+                              >
+                                {t('history.revertField')}
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
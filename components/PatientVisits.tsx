@@ -0,0 +1,162 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Visit, VisitFormData } from '../types/patient';
+import { getPatientVisits, createVisit, updateVisit, deleteVisit, getApiErrorMessage } from '../lib/api';
+import { visitToFormData, poliLabel, VISIT_STATUS_LABELS, VISIT_STATUS_STYLES } from '../lib/visitForm';
+import { formatDate } from '../lib/format';
+import { translate } from '../lib/i18n';
+import { useAuth } from './AuthProvider';
+import { useI18n } from './LocaleProvider';
+import VisitForm from './VisitForm';
+
+interface PatientVisitsProps {
+  patientId: number;
+}
+
+// Visit history of one patient with a form to register a new visit
+export default function PatientVisits({ patientId }: PatientVisitsProps) {
+  const { can } = useAuth();
+  const { t } = useI18n();
+  const [visits, setVisits] = useState<Visit[]>([]);
+  const [loading, setLoading] = useState(true);
+  // 'new' for a new visit, otherwise the visit being edited
+  const [editing, setEditing] = useState<Visit | 'new' | null>(null);
+  const [successMessage, setSuccessMessage] = useState('');
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const fetchVisits = useCallback(async () => {
+    try {
+      setLoading(true);
+      setVisits(await getPatientVisits(patientId));
+    } catch (error) {
+      setErrorMessage(getApiErrorMessage(error, translate('visits.fetchFailed')));
+    } finally {
+      setLoading(false);
+    }
+  }, [patientId]);
+
+  useEffect(() => {
+    fetchVisits();
+  }, [fetchVisits]);
+
+  const handleSubmit = async (data: VisitFormData) => {
+    setSuccessMessage('');
+    setErrorMessage('');
+    try {
+      if (editing === 'new') {
+        const visit = await createVisit(patientId, data);
+        setSuccessMessage(t('visits.created', { poli: poliLabel(visit.poli, t), number: visit.nomor_antrean }));
+      } else if (editing) {
+        await updateVisit(editing.id, data);
+        setSuccessMessage(t('visits.updated'));
+      }
+      setEditing(null);
+      fetchVisits();
+    } catch (error) {
+      setErrorMessage(getApiErrorMessage(error, t('visits.saveFailed')));
+      throw error;
+    }
+  };
+
+  const handleDelete = async (visit: Visit) => {
+    if (!window.confirm(t('visits.confirmDelete', { date: formatDate(visit.tanggal_kunjungan), poli: poliLabel(visit.poli, t) }))) return;
+    setSuccessMessage('');
+    setErrorMessage('');
+    try {
+      await deleteVisit(visit.id);
+      setSuccessMessage(t('visits.deleted'));
+      fetchVisits();
+    } catch (error) {
+      setErrorMessage(getApiErrorMessage(error, t('visits.deleteFailed')));
+    }
+  };
+
+  return (
+    <div className="border-t mt-6 pt-4">
+      <div className="flex justify-between items-center mb-3">
+        <h2 className="text-lg font-semibold text-gray-800">{t('visits.title')}</h2>
+        {can('visit:create') && editing === null && (
+          <button onClick={() => setEditing('new')} className="btn-primary text-sm">
+            {t('visits.add')}
+          </button>
+        )}
+      </div>
+
+      {successMessage && <p className="text-sm text-green-700 mb-2">✅ {successMessage}</p>}
+      {errorMessage && <p className="text-sm text-red-700 mb-2">❌ {errorMessage}</p>}
+
+      {editing !== null && (
+        <div className="bg-gray-50 rounded-lg p-4 mb-4">
+          <h3 className="font-semibold mb-3">
+            {editing === 'new' ? t('visits.newTitle') : t('visits.editTitle', { date: formatDate(editing.tanggal_kunjungan) })}
+          </h3>
+          <VisitForm
+            key={editing === 'new' ? 'new' : editing.id}
+            initialData={editing === 'new' ? undefined : visitToFormData(editing)}
+            isEditing={editing !== 'new'}
+            onSubmit={handleSubmit}
+            onCancel={() => setEditing(null)}
+          />
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">{t('visits.loading')}</p>
+      ) : visits.length === 0 ? (
+        <p className="text-sm text-gray-500">{t('visits.empty')}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-100">
+              <tr>
+                <th className="px-3 py-2 text-left font-semibold text-gray-600">{t('visits.col.date')}</th>
+                <th className="px-3 py-2 text-left font-semibold text-gray-600">{t('visitField.poli')}</th>
+                <th className="px-3 py-2 text-left font-semibold text-gray-600">{t('visitField.keluhan')}</th>
+                <th className="px-3 py-2 text-left font-semibold text-gray-600">{t('visitField.diagnosis_teks')}</th>
+                <th className="px-3 py-2 text-left font-semibold text-gray-600">{t('visitField.dokter')}</th>
+                <th className="px-3 py-2 text-left font-semibold text-gray-600">{t('visitField.status')}</th>
+                <th className="px-3 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {visits.map((visit) => (
+                <tr key={visit.id}>
+                  <td className="px-3 py-2 whitespace-nowrap">{formatDate(visit.tanggal_kunjungan)}</td>
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    {poliLabel(visit.poli, t)}
+                    <span className="block text-xs text-gray-500">{t('visits.queueNumber', { number: visit.nomor_antrean })}</span>
+                  </td>
+                  <td className="px-3 py-2">{visit.keluhan}</td>
+                  <td className="px-3 py-2">
+                    {visit.diagnosis_kode ? (
+                      <>
+                        <span className="font-mono font-medium">{visit.diagnosis_kode}</span> {visit.diagnosis_teks}
+                      </>
+                    ) : '-'}
+                  </td>
+                  <td className="px-3 py-2">{visit.dokter}</td>
+                  <td className="px-3 py-2">
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap ${VISIT_STATUS_STYLES[visit.status]}`}>
+                      {t(VISIT_STATUS_LABELS[visit.status])}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2 text-right whitespace-nowrap">
+                    {can('visit:edit') && (
+                      <button onClick={() => setEditing(visit)} className="text-blue-600 hover:text-blue-800 font-medium mr-3">
+                        {t('home.edit')}
+                      </button>
+                    )}
+                    {can('visit:delete') && (
+                      <button onClick={() => handleDelete(visit)} className="text-red-600 hover:text-red-800 font-medium">
+                        {t('home.delete')}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
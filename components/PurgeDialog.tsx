@@ -0,0 +1,61 @@
+import { useState } from 'react';
+import { Patient } from '../types/patient';
+import { useI18n } from './LocaleProvider';
+
+interface PurgeDialogProps {
+  patient: Patient;
+  purging?: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// Permanent deletion cannot be undone, so the patient's name must be typed to enable it
+export default function PurgeDialog({ patient, purging = false, onConfirm, onCancel }: PurgeDialogProps) {
+  const { t } = useI18n();
+  const [typedName, setTypedName] = useState('');
+  const confirmed = typedName.trim() === patient.nama.trim();
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-40 flex items-center justify-center z-50 p-4">
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (confirmed) onConfirm();
+        }}
+        className="bg-white rounded-lg shadow-xl max-w-lg w-full"
+      >
+        <div className="p-6 border-b">
+          <h2 className="text-xl font-semibold text-red-700">{t('purge.title')}</h2>
+          <p className="text-gray-600 text-sm mt-1">
+            {t('purge.record')} <strong>{patient.nama}</strong> {t('purge.willBeDeleted', { nik: patient.nik })}
+          </p>
+        </div>
+
+        <div className="p-6">
+          <label htmlFor="purge-confirm-name" className="block text-sm font-medium text-gray-700 mb-1">
+            {t('purge.confirmLabel')}
+          </label>
+          <input
+            id="purge-confirm-name"
+            type="text"
+            value={typedName}
+            onChange={(e) => setTypedName(e.target.value)}
+            placeholder={patient.nama}
+            className="input-field"
+            autoComplete="off"
+            autoFocus
+          />
+        </div>
+
+        <div className="p-6 border-t flex gap-2 justify-end">
+          <button type="button" onClick={onCancel} className="btn-secondary" disabled={purging}>
+            {t('common.cancel')}
+          </button>
+          <button type="submit" className="btn-danger disabled:opacity-50 disabled:cursor-not-allowed" disabled={!confirmed || purging}>
+            {purging ? t('common.deleting') : t('purge.submit')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import type { PatientSortField, SortOrder } from '../lib/api';
+
+interface SortableHeaderProps {
+  label: string;
+  field: PatientSortField;
+  sortBy: PatientSortField;
+  sortOrder: SortOrder;
+  onSort: (field: PatientSortField) => void;
+}
+
+export default function SortableHeader({ label, field, sortBy, sortOrder, onSort }: SortableHeaderProps) {
+  const active = field === sortBy;
+
+  return (
+    <th
+      className="px-4 py-3 text-left text-sm font-semibold text-gray-600"
+      aria-sort={active ? (sortOrder === 'asc' ? 'ascending' : 'descending') : 'none'}
+    >
+      <button
+        type="button"
+        onClick={() => onSort(field)}
+        className={`inline-flex items-center gap-1 hover:text-gray-900 ${active ? 'text-gray-900' : ''}`}
+      >
+        {label}
+        <span className="text-xs">{active ? (sortOrder === 'asc' ? '▲' : '▼') : '↕'}</span>
+      </button>
+    </th>
+  );
+}
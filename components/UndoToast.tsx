@@ -0,0 +1,82 @@
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
+import { getApiErrorMessage } from '../lib/api';
+import { useI18n } from './LocaleProvider';
+
+const UNDO_TIMEOUT_MS = 8000;
+
+interface UndoRequest {
+  message: string;
+  // Rejecting keeps the toast open with the error
+  onUndo: () => Promise<void>;
+}
+
+interface UndoToastContextValue {
+  showUndo: (request: UndoRequest) => void;
+}
+
+const UndoToastContext = createContext<UndoToastContextValue | null>(null);
+
+// App-wide so the toast survives navigating away, e.g. deleting from the detail page back to the list
+export function UndoToastProvider({ children }: { children: ReactNode }) {
+  const [request, setRequest] = useState<(UndoRequest & { shownAt: number }) | null>(null);
+  const [undoing, setUndoing] = useState(false);
+  const [error, setError] = useState('');
+  const { t } = useI18n();
+
+  const showUndo = useCallback((newRequest: UndoRequest) => {
+    setRequest({ ...newRequest, shownAt: Date.now() });
+    setError('');
+  }, []);
+
+  // Hide after a while unless an undo is running or failed
+  useEffect(() => {
+    if (!request || undoing || error) return;
+    const timer = setTimeout(() => setRequest(null), UNDO_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [request, undoing, error]);
+
+  const handleUndo = async () => {
+    if (!request) return;
+    try {
+      setUndoing(true);
+      await request.onUndo();
+      setRequest(null);
+    } catch (undoError) {
+      setError(getApiErrorMessage(undoError, t('undo.failed')));
+    } finally {
+      setUndoing(false);
+    }
+  };
+
+  return (
+    <UndoToastContext.Provider value={{ showUndo }}>
+      {children}
+      {request && (
+        <div
+          key={request.shownAt}
+          role="status"
+          className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 bg-gray-800 text-white rounded-lg shadow-lg px-4 py-3 flex items-center gap-4 max-w-lg w-[calc(100%-2rem)]"
+        >
+          <div className="flex-1 text-sm">
+            <p>{request.message}</p>
+            {error && <p className="text-red-300 mt-1">{error}</p>}
+          </div>
+          <button onClick={handleUndo} disabled={undoing} className="font-semibold text-yellow-300 hover:text-yellow-100 text-sm whitespace-nowrap">
+            {undoing ? t('undo.restoring') : t('undo.undo')}
+          </button>
+          <button onClick={() => setRequest(null)} disabled={undoing} className="text-gray-400 hover:text-white" aria-label={t('common.close')}>
+            ✕
+          </button>
+        </div>
+      )}
+    </UndoToastContext.Provider>
+  );
+}
+
+export function useUndoToast() {
+  const context = useContext(UndoToastContext);
+  if (!context) {
+    throw new Error('useUndoToast must be used inside UndoToastProvider');
+  }
+  return context;
+}
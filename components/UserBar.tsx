@@ -0,0 +1,47 @@
+import { useRouter } from 'next/router';
+import { useAuth } from './AuthProvider';
+import { useI18n } from './LocaleProvider';
+import { ROLE_LABELS } from '../lib/auth';
+import { getQueuedMutations } from '../lib/offlineDb';
+import { LOCALES, LOCALE_NAMES, isLocale } from '../lib/i18n';
+
+export default function UserBar() {
+  const router = useRouter();
+  const { user, logout } = useAuth();
+  const { locale, setLocale, t } = useI18n();
+
+  if (!user) {
+    return null;
+  }
+
+  // Logging out discards changes still waiting in the offline queue, so ask first
+  const handleLogout = async () => {
+    const queued = (await getQueuedMutations().catch(() => [])).length;
+    if (queued > 0 && !window.confirm(t('userBar.confirmLogoutQueued', { count: queued }))) return;
+    logout();
+    router.push('/login');
+  };
+
+  return (
+    <div className="bg-white border-b">
+      <div className="max-w-7xl mx-auto px-4 py-2 flex justify-end items-center gap-4 text-sm text-gray-600">
+        <span>
+          👤 {user.name} <span className="text-gray-400">({t(ROLE_LABELS[user.role])})</span>
+        </span>
+        <select
+          value={locale}
+          onChange={(e) => isLocale(e.target.value) && setLocale(e.target.value)}
+          className="px-2 py-1 border border-gray-300 rounded-lg outline-none focus:ring-2 focus:ring-blue-500"
+          aria-label={t('userBar.language')}
+        >
+          {LOCALES.map(option => (
+            <option key={option} value={option}>{LOCALE_NAMES[option]}</option>
+          ))}
+        </select>
+        <button onClick={handleLogout} className="text-red-600 hover:text-red-800 font-medium">
+          {t('userBar.logout')}
+        </button>
+      </div>
+    </div>
+  );
+}
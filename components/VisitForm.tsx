@@ -0,0 +1,181 @@
+import { useState } from 'react';
+import { VisitFormData, FormErrors } from '../types/patient';
+import { initialVisitFormData, validateVisitForm, poliLabel, POLI_OPTIONS, VISIT_STATUS_LABELS, VISIT_FIELD_LABELS } from '../lib/visitForm';
+import { useI18n } from './LocaleProvider';
+
+interface VisitFormProps {
+  initialData?: VisitFormData;
+  isEditing?: boolean;
+  // Resolve when saved; reject to keep the form open with the entered data
+  onSubmit: (data: VisitFormData) => Promise<void>;
+  onCancel: () => void;
+}
+
+export default function VisitForm({ initialData, isEditing = false, onSubmit, onCancel }: VisitFormProps) {
+  const { t } = useI18n();
+  const [formData, setFormData] = useState<VisitFormData>(() => initialData ?? initialVisitFormData());
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const newErrors = validateVisitForm(formData, t);
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) {
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      await onSubmit(formData);
+    } catch (error) {
+      // The parent shows the error banner
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    // ICD-10 codes are upper case (j06.9 -> J06.9)
+    setFormData(prev => ({ ...prev, [name]: name === 'diagnosis_kode' ? value.toUpperCase().trim() : value }));
+    if (errors[name]) {
+      setErrors(prev => ({ ...prev, [name]: '' }));
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {/* Tanggal */}
+        <div>
+          <label className="block text-gray-700 font-medium mb-2">
+            {t(VISIT_FIELD_LABELS.tanggal_kunjungan)} <span className="text-red-500">*</span>
+          </label>
+          <input
+            type="date"
+            name="tanggal_kunjungan"
+            value={formData.tanggal_kunjungan}
+            onChange={handleInputChange}
+            className={`input-field ${errors.tanggal_kunjungan ? 'input-error' : ''}`}
+          />
+          {errors.tanggal_kunjungan && <p className="error-message">{errors.tanggal_kunjungan}</p>}
+        </div>
+
+        {/* Poli */}
+        <div>
+          <label className="block text-gray-700 font-medium mb-2">
+            {t(VISIT_FIELD_LABELS.poli)} <span className="text-red-500">*</span>
+          </label>
+          <select
+            name="poli"
+            value={formData.poli}
+            onChange={handleInputChange}
+            className={`input-field ${errors.poli ? 'input-error' : ''}`}
+          >
+            <option value="">{t('visitForm.selectPoli')}</option>
+            {POLI_OPTIONS.map(poli => (
+              <option key={poli} value={poli}>{poliLabel(poli, t)}</option>
+            ))}
+          </select>
+          {errors.poli && <p className="error-message">{errors.poli}</p>}
+        </div>
+
+        {/* Status */}
+        <div>
+          <label className="block text-gray-700 font-medium mb-2">
+            {t(VISIT_FIELD_LABELS.status)} <span className="text-red-500">*</span>
+          </label>
+          <select
+            name="status"
+            value={formData.status}
+            onChange={handleInputChange}
+            className={`input-field ${errors.status ? 'input-error' : ''}`}
+          >
+            {Object.entries(VISIT_STATUS_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{t(label)}</option>
+            ))}
+          </select>
+          {errors.status && <p className="error-message">{errors.status}</p>}
+        </div>
+
+        {/* Dokter */}
+        <div className="md:col-span-3">
+          <label className="block text-gray-700 font-medium mb-2">
+            {t(VISIT_FIELD_LABELS.dokter)} <span className="text-red-500">*</span>
+          </label>
+          <input
+            type="text"
+            name="dokter"
+            value={formData.dokter}
+            onChange={handleInputChange}
+            className={`input-field ${errors.dokter ? 'input-error' : ''}`}
+            placeholder={t('visitForm.dokterPlaceholder')}
+          />
+          {errors.dokter && <p className="error-message">{errors.dokter}</p>}
+        </div>
+
+        {/* Keluhan */}
+        <div className="md:col-span-3">
+          <label className="block text-gray-700 font-medium mb-2">
+            {t(VISIT_FIELD_LABELS.keluhan)} <span className="text-red-500">*</span>
+          </label>
+          <textarea
+            name="keluhan"
+            value={formData.keluhan}
+            onChange={handleInputChange}
+            className={`input-field ${errors.keluhan ? 'input-error' : ''}`}
+            placeholder={t('visitForm.keluhanPlaceholder')}
+            rows={2}
+          />
+          {errors.keluhan && <p className="error-message">{errors.keluhan}</p>}
+        </div>
+
+        {/* Diagnosis */}
+        <div>
+          <label className="block text-gray-700 font-medium mb-2">
+            {t(VISIT_FIELD_LABELS.diagnosis_kode)}
+          </label>
+          <input
+            type="text"
+            name="diagnosis_kode"
+            value={formData.diagnosis_kode}
+            onChange={handleInputChange}
+            className={`input-field ${errors.diagnosis_kode ? 'input-error' : ''}`}
+            placeholder={t('visitForm.icd10Placeholder')}
+            maxLength={8}
+          />
+          {errors.diagnosis_kode && <p className="error-message">{errors.diagnosis_kode}</p>}
+        </div>
+        <div className="md:col-span-2">
+          <label className="block text-gray-700 font-medium mb-2">
+            {t(VISIT_FIELD_LABELS.diagnosis_teks)}
+          </label>
+          <input
+            type="text"
+            name="diagnosis_teks"
+            value={formData.diagnosis_teks}
+            onChange={handleInputChange}
+            className={`input-field ${errors.diagnosis_teks ? 'input-error' : ''}`}
+            placeholder={t('visitForm.diagnosisPlaceholder')}
+          />
+          {errors.diagnosis_teks && <p className="error-message">{errors.diagnosis_teks}</p>}
+        </div>
+      </div>
+
+      <div className="flex gap-4 mt-6">
+        <button type="submit" className="btn-primary" disabled={submitting}>
+          {isEditing ? t('visitForm.update') : t('visitForm.save')}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="btn-secondary"
+        >
+          {t('common.cancel')}
+        </button>
+      </div>
+    </form>
+  );
+}
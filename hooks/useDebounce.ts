@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+
+// Returns `value` only after it has stopped changing for `delay` ms
+export default function useDebounce<T>(value: T, delay: number): T {
+  const [debouncedValue, setDebouncedValue] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedValue(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return debouncedValue;
+}
@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { getQueuedMutations, updateQueuedMutation, removeQueuedMutation, QueuedMutation, QUEUE_CHANGE_EVENT } from '../lib/offlineDb';
+import { syncQueuedMutations, SyncResult } from '../lib/offlineSync';
+import { useAuth } from '../components/AuthProvider';
+
+// Track connectivity and the signed-in user's offline mutation queue, replaying it whenever the browser
+// comes back online or its owner logs in again
+export default function useOfflineSync(onSynced?: (result: SyncResult) => void) {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [online, setOnline] = useState(true);
+  const [queue, setQueue] = useState<QueuedMutation[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  const onSyncedRef = useRef(onSynced);
+  onSyncedRef.current = onSynced;
+
+  const refreshQueue = useCallback(() => {
+    getQueuedMutations().then(setQueue).catch(() => setQueue([]));
+  }, []);
+
+  const sync = useCallback(async () => {
+    try {
+      setSyncing(true);
+      const result = await syncQueuedMutations();
+      if (result.synced > 0 || result.rejected > 0) {
+        onSyncedRef.current?.(result);
+      }
+    } catch (error) {
+      // The queue could not be read or updated (e.g. IndexedDB blocked); it stays as is for the next attempt
+    } finally {
+      setSyncing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const goOnline = () => {
+      setOnline(true);
+      sync();
+    };
+    const goOffline = () => setOnline(false);
+
+    setOnline(navigator.onLine);
+    refreshQueue();
+
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    window.addEventListener(QUEUE_CHANGE_EVENT, refreshQueue);
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+      window.removeEventListener(QUEUE_CHANGE_EVENT, refreshQueue);
+    };
+  }, [refreshQueue, sync]);
+
+  // Sync on sign-in, including a queue kept from an expired session once its owner is back
+  useEffect(() => {
+    if (userId !== undefined && navigator.onLine) {
+      sync();
+    }
+  }, [userId, sync]);
+
+  // Put a rejected item back in the queue, e.g. after fixing the conflicting record on the server
+  const retry = async (mutation: QueuedMutation) => {
+    await updateQueuedMutation({ ...mutation, status: 'pending', error: undefined });
+    if (navigator.onLine) {
+      sync();
+    }
+  };
+
+  const discard = (id: number) => removeQueuedMutation(id);
+
+  return {
+    online,
+    syncing,
+    pending: queue.filter(mutation => mutation.status === 'pending'),
+    rejected: queue.filter(mutation => mutation.status === 'rejected'),
+    sync,
+    retry,
+    discard,
+  };
+}
@@ -0,0 +1,34 @@
+import { useState } from 'react';
+import { Patient, PatientFormData } from '../types/patient';
+import { updatePatientIfUnchanged, getFieldConflicts, mergeEdits, EditConflictError, FieldConflict } from '../lib/editConflict';
+
+export interface EditConflict {
+  // My edits on top of the latest version; fields only the other user changed already hold their value
+  mine: PatientFormData;
+  latest: Patient;
+  conflicts: FieldConflict[];
+}
+
+// Update a patient against the version that was loaded; a concurrent edit opens `conflict`
+export default function usePatientUpdate() {
+  const [conflict, setConflict] = useState<EditConflict | null>(null);
+
+  const save = async (loaded: Patient, data: PatientFormData): Promise<Patient> => {
+    try {
+      const saved = await updatePatientIfUnchanged(loaded, data);
+      setConflict(null);
+      return saved;
+    } catch (error) {
+      if (error instanceof EditConflictError) {
+        setConflict({
+          mine: mergeEdits(loaded, data, error.latest),
+          latest: error.latest,
+          conflicts: getFieldConflicts(loaded, data, error.latest),
+        });
+      }
+      throw error;
+    }
+  };
+
+  return { conflict, save, clearConflict: () => setConflict(null) };
+}
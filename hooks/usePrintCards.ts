@@ -0,0 +1,34 @@
+import { useCallback, useRef, useState } from 'react';
+import { getApiErrorMessage } from '../lib/api';
+import { openPrintWindow, printReport } from '../lib/patientExport';
+import { buildPatientCards, fetchCardPatients } from '../lib/patientCard';
+import { useI18n } from '../components/LocaleProvider';
+
+// Print the cards of the given patients, refetched so the cards show the latest data.
+// The print window is opened before anything loads so pop-up blockers allow it.
+export default function usePrintCards(onError: (message: string) => void) {
+  const { t } = useI18n();
+  const [printing, setPrinting] = useState(false);
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  const printCards = useCallback(async (ids: number[]) => {
+    const printWindow = openPrintWindow();
+    if (!printWindow) {
+      onErrorRef.current(t('home.popupBlocked'));
+      return;
+    }
+
+    try {
+      setPrinting(true);
+      printReport(printWindow, await buildPatientCards(await fetchCardPatients(ids), t));
+    } catch (error) {
+      printWindow.close();
+      onErrorRef.current(getApiErrorMessage(error, t('home.cardFailed')));
+    } finally {
+      setPrinting(false);
+    }
+  }, [t]);
+
+  return { printCards, printing };
+}
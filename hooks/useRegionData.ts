@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+import { isRegionDataLoaded, loadRegionData, regionProvinces } from '../lib/regions';
+
+// Load the region data of every province referenced by `codes` and re-render once it is available.
+// Returns false while loading; a failed load (e.g. offline) also ends as true so callers fall back to codes.
+export default function useRegionData(codes: (string | undefined)[]): boolean {
+  const key = regionProvinces(codes).join(',');
+  const [settledKey, setSettledKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!key) return;
+    let cancelled = false;
+    loadRegionData(key.split(','))
+      .catch(() => undefined)
+      .then(() => {
+        if (!cancelled) setSettledKey(key);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  return !key || settledKey === key || isRegionDataLoaded(key.split(','));
+}
@@ -1,80 +1,632 @@
-import axios from 'axios';
+import axios, { AxiosError } from 'axios';
+import type { Patient, Visit, VisitFormData, VisitStatus } from '../types/patient';
+import {
+  cacheList,
+  getCachedList,
+  cachePatients,
+  getCachedPatient,
+  getAllCachedPatients,
+  enqueueMutation,
+  getQueuedMutations,
+  QueuedMutation,
+} from './offlineDb';
+import { matchesPatientFilters } from './patientQuery';
+import { computePatientStats, PatientStats, PatientStatsParams } from './patientStats';
+import { translate } from './i18n';
+import { PATIENT_FIELD_NAMES, PatientFields, SchemaValidationError, parsePatient, parsePatients } from './patientSchema';
 
-const API_BASE_URL = 'http://localhost:3001/api';
+// Konfigurasi lewat environment Next.js (.env.local), lihat .env.example.
+// NEXT_PUBLIC_USE_MOCK_API=true memakai mock backend bawaan di /api (pages/api) sehingga bisa jalan offline.
+const API_BASE_URL = process.env.NEXT_PUBLIC_USE_MOCK_API === 'true'
+  ? '/api'
+  : process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
+const API_TIMEOUT_MS = Number(process.env.NEXT_PUBLIC_API_TIMEOUT_MS) || 10000;
+const MAX_GET_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 300;
+
+declare module 'axios' {
+  interface InternalAxiosRequestConfig {
+    retryCount?: number;
+  }
+}
 
 const api = axios.create({
   baseURL: API_BASE_URL,
+  timeout: API_TIMEOUT_MS,
   headers: {
     'Content-Type': 'application/json',
   },
 });
 
-export interface Patient {
-  id: number;
-  nama: string;
-  nik: string;
-  tanggal_lahir: string;
-  jenis_kelamin: string;
-  alamat: string;
-  no_telepon: string;
-  email?: string;
-  golongan_darah: string;
-  created_at: string;
-  updated_at: string;
-}
-
-export interface CreatePatientData {
-  nama: string;
-  nik: string;
-  tanggal_lahir: string;
-  jenis_kelamin: string;
-  alamat: string;
-  no_telepon: string;
-  email?: string;
-  golongan_darah: string;
-}
+// Field pasien yang dikirim saat membuat/mengubah data, dibangkitkan dari PATIENT_SCHEMA
+export type CreatePatientData = PatientFields;
 
 export interface ApiError {
   success: boolean;
   statusCode: number;
   message: string;
-  errors?: string[];
+  errors?: string[] | Record<string, string>;
 }
 
-// GET semua pasien
-export const getAllPatients = async (): Promise<Patient[]> => {
-  const response = await api.get('/patients');
-  return response.data;
+// Cari field yang disebut paling awal di pesan validasi, misalnya "nik must be..." atau "No telepon tidak valid"
+const findFieldInMessage = (message: string): string | undefined => {
+  let found: { field: string; index: number } | undefined;
+  PATIENT_FIELD_NAMES.forEach((field) => {
+    const match = new RegExp(`\\b${field.replace('_', '[ _]')}\\b`, 'i').exec(message);
+    if (match && (!found || match.index < found.index)) {
+      found = { field, index: match.index };
+    }
+  });
+  return found?.field;
+};
+
+// Semua kegagalan request diubah menjadi error ini oleh interceptor response
+export class ApiRequestError extends Error {
+  // 0 berarti tidak ada response dari server (jaringan putus / timeout)
+  statusCode: number;
+  // Pesan validasi per field, kuncinya sama dengan FormErrors
+  errors: Record<string, string>;
+  // Pesan yang tidak bisa dikaitkan ke field tertentu
+  generalErrors: string[];
+  // true jika request tidak sampai ke server sama sekali (offline), bukan timeout
+  isNetworkError = false;
+
+  constructor(statusCode: number, message: string, errors: ApiError['errors'] = []) {
+    super(message);
+    Object.setPrototypeOf(this, ApiRequestError.prototype);
+    this.name = 'ApiRequestError';
+    this.statusCode = statusCode;
+    this.errors = {};
+    this.generalErrors = [];
+
+    if (Array.isArray(errors)) {
+      errors.forEach((error) => {
+        const field = findFieldInMessage(error);
+        if (field && !this.errors[field]) {
+          this.errors[field] = error;
+        } else {
+          this.generalErrors.push(error);
+        }
+      });
+    } else {
+      this.errors = { ...errors };
+    }
+  }
+
+  get hasFieldErrors() {
+    return Object.keys(this.errors).length > 0;
+  }
+}
+
+const toApiRequestError = (error: AxiosError<Partial<ApiError>>): ApiRequestError => {
+  if (error.response) {
+    const data = error.response.data || {};
+    return new ApiRequestError(
+      error.response.status,
+      data.message || translate('api.unknownError'),
+      data.errors
+    );
+  }
+  if (error.code === AxiosError.ECONNABORTED || error.code === AxiosError.ETIMEDOUT) {
+    return new ApiRequestError(0, translate('api.timeout'));
+  }
+  const networkError = new ApiRequestError(0, translate('api.networkError'));
+  networkError.isNetworkError = true;
+  return networkError;
+};
+
+// Hanya GET yang aman diulang; request yang dibatalkan (AbortController) tidak diulang
+const shouldRetry = (error: AxiosError): boolean => {
+  const config = error.config;
+  if (!config || config.method !== 'get' || config.signal?.aborted) {
+    return false;
+  }
+  if ((config.retryCount ?? 0) >= MAX_GET_RETRIES) {
+    return false;
+  }
+  const status = error.response?.status;
+  return status === undefined || status === 429 || status >= 500;
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Token sesi diatur oleh AuthProvider; api.ts tidak bergantung pada modul auth
+let authToken: string | null = null;
+let onUnauthorized: (() => void) | null = null;
+
+export const setAuthToken = (token: string | null) => {
+  authToken = token;
+};
+
+export const setUnauthorizedHandler = (handler: (() => void) | null) => {
+  onUnauthorized = handler;
+};
+
+api.interceptors.request.use((config) => {
+  if (authToken) {
+    config.headers.Authorization = `Bearer ${authToken}`;
+  }
+  return config;
+});
+
+api.interceptors.response.use(
+  response => response,
+  async (error) => {
+    if (axios.isCancel(error) || !axios.isAxiosError(error)) {
+      return Promise.reject(error);
+    }
+
+    // Sesi kedaluwarsa atau dicabut: arahkan kembali ke halaman login
+    if (error.response?.status === 401 && authToken && onUnauthorized) {
+      onUnauthorized();
+    }
+
+    if (shouldRetry(error) && error.config) {
+      const config = error.config;
+      config.retryCount = (config.retryCount ?? 0) + 1;
+      // Backoff eksponensial: 300ms, 600ms, 1200ms
+      await wait(RETRY_BASE_DELAY_MS * 2 ** (config.retryCount - 1));
+      if (!config.signal?.aborted) {
+        return api.request(config);
+      }
+    }
+
+    return Promise.reject(toApiRequestError(error));
+  }
+);
+
+export type PatientSortField = 'nama' | 'tanggal_lahir' | 'created_at';
+
+export type SortOrder = 'asc' | 'desc';
+
+// 'ada' = hanya pasien yang punya email, 'kosong' = hanya yang belum punya
+export type EmailFilter = 'ada' | 'kosong';
+
+// Filter daftar pasien; golongan_darah boleh lebih dari satu (dipisah koma)
+export interface PatientFilterParams {
+  jenis_kelamin?: string;
+  golongan_darah?: string;
+  umur_min?: number;
+  umur_max?: number;
+  created_from?: string; // YYYY-MM-DD, inklusif
+  created_to?: string;
+  email?: EmailFilter;
+  provinsi_kode?: string; // kode provinsi alamat, contoh: 31
+}
+
+export interface PatientListParams extends PatientFilterParams {
+  page?: number;
+  limit?: number;
+  sortBy?: PatientSortField;
+  sortOrder?: SortOrder;
+}
+
+export interface PaginatedResponse<T> {
+  data: T[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+  // Diisi jika server tidak terjangkau dan data diambil dari cache offline
+  cachedAt?: string;
+}
+
+// NIK yang sudah dipakai pasien aktif, hasil POST /patients/nik-check
+export interface ExistingNik {
+  nik: string;
+  id: number;
+}
+
+// --- Riwayat perubahan pasien ---
+
+export type RevisionAction = 'create' | 'update' | 'delete' | 'restore';
+
+export interface RevisionActor {
+  id: number;
+  name: string;
+}
+
+export interface FieldChange {
+  field: keyof CreatePatientData;
+  old_value: string;
+  new_value: string;
+}
+
+export interface PatientRevision {
+  id: number;
+  patient_id: number;
+  action: RevisionAction;
+  actor: RevisionActor;
+  changed_at: string;
+  // Hanya field yang berubah pada revisi ini
+  changes: FieldChange[];
+  // Seluruh data pasien setelah revisi ini, dipakai untuk mengembalikan record ke versi tersebut
+  snapshot: CreatePatientData;
+}
+
+// --- Dukungan offline: cache hasil GET, antrean mutasi saat tidak ada koneksi ---
+
+const isOfflineFailure = (error: unknown) => error instanceof ApiRequestError && error.isNetworkError;
+
+// Endpoint tambahan (lihat "Kontrak backend" di README) belum tentu ada di backend; 404/405 berarti
+// belum diimplementasikan, jadi pemanggil memakai cara lama sebagai cadangan
+export const isMissingEndpoint = (error: unknown) =>
+  error instanceof ApiRequestError && (error.statusCode === 404 || error.statusCode === 405);
+
+// Tanpa koneksi, langsung masuk antrean tanpa menunggu request gagal/timeout
+const throwIfBrowserOffline = () => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    const error = new ApiRequestError(0, translate('api.offline'));
+    error.isNetworkError = true;
+    throw error;
+  }
+};
+
+// Tampilkan perubahan yang masih di antrean di atas data dari server/cache.
+// Pasien baru yang belum tersinkron hanya disisipkan di halaman 1 jika cocok dengan pencarian/filter aktif.
+const applyQueuedMutations = async (
+  response: PaginatedResponse<Patient>,
+  matches: (patient: Patient) => boolean
+): Promise<PaginatedResponse<Patient>> => {
+  const queue = (await getQueuedMutations()).filter(mutation => mutation.status === 'pending');
+  if (queue.length === 0) {
+    return response;
+  }
+
+  let data = [...response.data];
+  let total = response.total;
+  queue.forEach((mutation) => {
+    if (mutation.type === 'create') {
+      const provisional = toProvisionalPatient(mutation);
+      if (matches(provisional)) {
+        total++;
+        if (response.page === 1) {
+          data = [provisional, ...data];
+        }
+      }
+    } else if (mutation.type === 'update') {
+      data = data.map(p => (p.id === mutation.patientId ? { ...p, ...mutation.data, pendingSync: 'update' } : p));
+    } else if (mutation.type === 'delete') {
+      data = data.map(p => (p.id === mutation.patientId ? { ...p, pendingSync: 'delete' } : p));
+    }
+  });
+  return { ...response, data, total };
+};
+
+const toProvisionalPatient = (mutation: Extract<QueuedMutation, { type: 'create' }>): Patient => ({
+  ...mutation.data,
+  id: mutation.patientId,
+  created_at: mutation.queuedAt,
+  updated_at: mutation.queuedAt,
+  pendingSync: 'create',
+});
+
+// Simpan hasil GET daftar ke cache; jika offline, pakai cache terakhir untuk query yang sama
+const withListCache = async (
+  key: string,
+  matches: (patient: Patient) => boolean,
+  fetchList: () => Promise<PaginatedResponse<Patient>>,
+  fallback?: () => Promise<PaginatedResponse<Patient> | undefined>
+): Promise<PaginatedResponse<Patient>> => {
+  try {
+    const response = await fetchList();
+    cacheList(key, response).catch(() => undefined);
+    cachePatients(response.data).catch(() => undefined);
+    return applyQueuedMutations(response, matches);
+  } catch (error) {
+    if (isOfflineFailure(error)) {
+      const cached = await getCachedList<PaginatedResponse<Patient>>(key);
+      const response = cached ? { ...cached.response, cachedAt: cached.cachedAt } : await fallback?.();
+      if (response) {
+        return applyQueuedMutations(response, matches);
+      }
+    }
+    throw error;
+  }
+};
+
+// Halaman daftar pasien dari server, divalidasi terhadap PATIENT_SCHEMA
+const parsePatientPage = (response: PaginatedResponse<unknown>): PaginatedResponse<Patient> => ({
+  ...response,
+  data: parsePatients(response.data),
+});
+
+// Kirim satu mutasi dari antrean langsung ke server (dipakai saat sinkronisasi)
+export const sendQueuedMutation = async (mutation: QueuedMutation): Promise<Patient | undefined> => {
+  if (mutation.type === 'create') {
+    return parsePatient((await api.post('/patients', mutation.data)).data);
+  }
+  if (mutation.type === 'update') {
+    const headers = mutation.expectedUpdatedAt ? { 'If-Match': `"${mutation.expectedUpdatedAt}"` } : undefined;
+    return parsePatient((await api.patch(`/patients/${mutation.patientId}`, mutation.data, { headers })).data);
+  }
+  await api.delete(`/patients/${mutation.patientId}`);
+  return undefined;
+};
+
+// GET daftar pasien (paginasi & sorting di server)
+export const getAllPatients = async (
+  params: PatientListParams = {},
+  signal?: AbortSignal
+): Promise<PaginatedResponse<Patient>> =>
+  withListCache(`/patients?${JSON.stringify(params)}`, patient => matchesPatientFilters(patient, params), async () => {
+    const response = await api.get('/patients', { params, signal });
+    return parsePatientPage(response.data);
+  });
+
+// Ukuran halaman saat statistik terpaksa dihitung di klien
+const STATS_PAGE_SIZE = 100;
+
+// GET statistik pasien untuk dashboard; rentang created_at & pengelompokan waktu dihitung di server.
+// Backend tanpa endpoint ini: semua pasien aktif diunduh per halaman lalu dihitung di klien.
+export const getPatientStats = async (params: PatientStatsParams = {}, signal?: AbortSignal): Promise<PatientStats> => {
+  try {
+    const response = await api.get('/patients/stats', { params, signal });
+    return response.data;
+  } catch (error) {
+    if (!isMissingEndpoint(error)) throw error;
+  }
+
+  const patients: Patient[] = [];
+  let page = 1;
+  let totalPages = 1;
+  do {
+    const result = await getAllPatients({ page, limit: STATS_PAGE_SIZE, sortBy: 'created_at', sortOrder: 'asc' }, signal);
+    patients.push(...result.data);
+    totalPages = result.totalPages;
+    page++;
+  } while (page <= totalPages);
+
+  return computePatientStats(patients, params);
+};
+
+// POST daftar NIK, server mengembalikan yang sudah terdaftar (dipakai impor sebelum membuat pasien).
+// Backend tanpa endpoint ini: tiap NIK dicari lewat GET /patients/search, hanya yang sama persis dipakai.
+export const findExistingNiks = async (niks: string[], signal?: AbortSignal): Promise<ExistingNik[]> => {
+  try {
+    const response = await api.post('/patients/nik-check', { nik: niks }, { signal });
+    return response.data.data;
+  } catch (error) {
+    if (!isMissingEndpoint(error)) throw error;
+  }
+
+  const existing: ExistingNik[] = [];
+  for (const nik of Array.from(new Set(niks))) {
+    const result = await searchPatients(nik, { limit: 10 }, signal);
+    result.data
+      .filter(patient => patient.nik === nik)
+      .forEach(patient => existing.push({ nik: patient.nik, id: patient.id }));
+  }
+  return existing;
+};
+
+// GET pasien yang kemungkinan sama dengan data ini, dipilih & diurutkan server (paling mirip dulu)
+// sebelum dibatasi `limit`
+export const findDuplicateCandidates = async (
+  data: Pick<CreatePatientData, 'nama' | 'nik' | 'tanggal_lahir'>,
+  params: { exclude_id?: number; limit?: number } = {}
+): Promise<Patient[]> => {
+  throwIfBrowserOffline();
+  const { nama, nik, tanggal_lahir } = data;
+  const response = await api.get('/patients/duplicates', { params: { nama, nik, tanggal_lahir, ...params } });
+  return parsePatients(response.data?.data);
 };
 
 // GET pasien by ID
 export const getPatientById = async (id: number): Promise<Patient> => {
-  const response = await api.get(`/patients/${id}`);
-  return response.data;
+  try {
+    const response = await api.get(`/patients/${id}`);
+    const patient = parsePatient(response.data);
+    cachePatients([patient]).catch(() => undefined);
+    return patient;
+  } catch (error) {
+    const cached = isOfflineFailure(error) ? await getCachedPatient(id) : undefined;
+    if (cached) {
+      return cached;
+    }
+    throw error;
+  }
 };
 
-// POST tambah pasien baru
+// POST tambah pasien baru (masuk antrean jika offline)
 export const createPatient = async (data: CreatePatientData): Promise<Patient> => {
-  const response = await api.post('/patients', data);
+  try {
+    throwIfBrowserOffline();
+    const response = await api.post('/patients', data);
+    return parsePatient(response.data);
+  } catch (error) {
+    if (!isOfflineFailure(error)) {
+      throw error;
+    }
+    return toProvisionalPatient(await enqueueMutation({ type: 'create', data: { ...data }, label: data.nama }));
+  }
+};
+
+// PATCH update pasien. Jika expectedUpdatedAt diisi, server menolak (409) bila record sudah berubah sejak versi itu.
+// Masuk antrean jika offline.
+export const updatePatient = async (
+  id: number,
+  data: Partial<CreatePatientData>,
+  expectedUpdatedAt?: string
+): Promise<Patient> => {
+  try {
+    throwIfBrowserOffline();
+    const headers = expectedUpdatedAt ? { 'If-Match': `"${expectedUpdatedAt}"` } : undefined;
+    const response = await api.patch(`/patients/${id}`, data, { headers });
+    return parsePatient(response.data);
+  } catch (error) {
+    if (!isOfflineFailure(error)) {
+      throw error;
+    }
+    // Tanpa record di cache tidak ada data lengkap untuk ditampilkan, jadi perubahan tidak diantrekan
+    const cached = await getCachedPatient(id);
+    if (!cached) {
+      throw error;
+    }
+    await enqueueMutation({
+      type: 'update',
+      patientId: id,
+      data: { ...data },
+      expectedUpdatedAt,
+      label: data.nama || cached.nama,
+    });
+    return { ...cached, ...data, pendingSync: 'update' };
+  }
+};
+
+// DELETE pindahkan pasien ke Sampah (soft delete, bisa dipulihkan). Masuk antrean jika offline.
+export const deletePatient = async (id: number): Promise<{ message: string; queued?: boolean }> => {
+  try {
+    throwIfBrowserOffline();
+    const response = await api.delete(`/patients/${id}`);
+    return response.data;
+  } catch (error) {
+    if (!isOfflineFailure(error)) {
+      throw error;
+    }
+    const cached = await getCachedPatient(id);
+    await enqueueMutation({ type: 'delete', patientId: id, label: cached?.nama || `ID ${id}` });
+    return { message: translate('offline.deleteQueued'), queued: true };
+  }
+};
+
+// POST gabungkan duplikat ke pasien yang dipertahankan. Server menyimpan data gabungan, memindahkan kunjungan
+// & riwayat duplikat, lalu memindahkan duplikat ke Sampah dalam satu langkah. 409 jika versi survivor berubah.
+export const mergeDuplicatePatient = async (
+  survivorId: number,
+  duplicateId: number,
+  data: Partial<CreatePatientData>,
+  expectedUpdatedAt?: string
+): Promise<Patient> => {
+  const headers = expectedUpdatedAt ? { 'If-Match': `"${expectedUpdatedAt}"` } : undefined;
+  const response = await api.post(`/patients/${survivorId}/merge`, { duplicate_id: duplicateId, data }, { headers });
+  return parsePatient(response.data);
+};
+
+// GET isi Sampah (pasien yang di-soft delete), terbaru dihapus lebih dulu
+export const getDeletedPatients = async (
+  params: Pick<PatientListParams, 'page' | 'limit'> = {},
+  signal?: AbortSignal
+): Promise<PaginatedResponse<Patient>> => {
+  const response = await api.get('/patients/trash', { params, signal });
+  return parsePatientPage(response.data);
+};
+
+// POST pulihkan pasien dari Sampah. 409 jika NIK-nya sudah dipakai pasien lain.
+export const restorePatient = async (id: number): Promise<Patient> => {
+  const response = await api.post(`/patients/trash/${id}/restore`);
+  return parsePatient(response.data);
+};
+
+// DELETE hapus permanen pasien yang sudah di Sampah
+export const purgePatient = async (id: number): Promise<{ message: string }> => {
+  const response = await api.delete(`/patients/trash/${id}`);
+  return response.data;
+};
+
+// GET riwayat perubahan pasien, terbaru lebih dulu
+export const getPatientHistory = async (id: number): Promise<PatientRevision[]> => {
+  const response = await api.get(`/patients/${id}/history`);
+  return response.data;
+};
+
+// --- Kunjungan (rawat jalan) ---
+
+export interface VisitListParams {
+  tanggal?: string; // YYYY-MM-DD
+  poli?: string;
+  status?: VisitStatus;
+}
+
+// GET riwayat kunjungan satu pasien, terbaru lebih dulu
+export const getPatientVisits = async (patientId: number): Promise<Visit[]> => {
+  const response = await api.get(`/patients/${patientId}/visits`);
+  return response.data;
+};
+
+// GET kunjungan lintas pasien (antrean), urut nomor antrean; tiap item menyertakan `patient`
+export const getVisits = async (params: VisitListParams = {}, signal?: AbortSignal): Promise<Visit[]> => {
+  const response = await api.get('/visits', { params, signal });
   return response.data;
 };
 
-// PATCH update pasien
-export const updatePatient = async (id: number, data: Partial<CreatePatientData>): Promise<Patient> => {
-  const response = await api.patch(`/patients/${id}`, data);
+// POST daftarkan kunjungan baru; nomor antrean diberikan server
+export const createVisit = async (patientId: number, data: VisitFormData): Promise<Visit> => {
+  const response = await api.post(`/patients/${patientId}/visits`, data);
   return response.data;
 };
 
-// DELETE hapus pasien
-export const deletePatient = async (id: number): Promise<{ message: string }> => {
-  const response = await api.delete(`/patients/${id}`);
+// PATCH ubah kunjungan, termasuk memajukan status antrean
+export const updateVisit = async (id: number, data: Partial<VisitFormData>): Promise<Visit> => {
+  const response = await api.patch(`/visits/${id}`, data);
   return response.data;
 };
 
-// SEARCH cari pasien
-export const searchPatients = async (keyword: string): Promise<Patient[]> => {
-  const response = await api.get(`/patients/search?q=${keyword}`);
+// DELETE hapus kunjungan yang salah input
+export const deleteVisit = async (id: number): Promise<{ message: string }> => {
+  const response = await api.delete(`/visits/${id}`);
   return response.data;
 };
 
+// Aturan pencarian yang sama dengan server: nama/NIK mengandung keyword, ditambah filter aktif
+const matchesSearch = (patient: Patient, keyword: string, params: PatientFilterParams) => {
+  const q = keyword.toLowerCase();
+  return (patient.nama.toLowerCase().includes(q) || patient.nik.includes(q)) && matchesPatientFilters(patient, params);
+};
+
+// SEARCH cari pasien berdasarkan nama/NIK (keyword di-encode oleh axios).
+// Offline tanpa cache untuk keyword ini: cari di semua pasien yang pernah dimuat.
+export const searchPatients = async (
+  keyword: string,
+  params: PatientListParams = {},
+  signal?: AbortSignal
+): Promise<PaginatedResponse<Patient>> =>
+  withListCache(
+    `/patients/search?${JSON.stringify({ q: keyword, ...params })}`,
+    patient => matchesSearch(patient, keyword, params),
+    async () => {
+      const response = await api.get('/patients/search', { params: { q: keyword, ...params }, signal });
+      return parsePatientPage(response.data);
+    },
+    async () => {
+      const matches = (await getAllCachedPatients()).filter(p => matchesSearch(p, keyword, params));
+      const page = params.page || 1;
+      const limit = params.limit || 10;
+      return {
+        data: matches.slice((page - 1) * limit, page * limit),
+        total: matches.length,
+        page,
+        limit,
+        totalPages: Math.ceil(matches.length / limit),
+        cachedAt: new Date().toISOString(),
+      };
+    }
+  );
+
+// Pesan lengkap (termasuk semua error field) untuk laporan dan notifikasi
+export const getApiErrorMessage = (error: unknown, fallback: string): string => {
+  if (error instanceof ApiRequestError) {
+    const details = [...Object.values(error.errors), ...error.generalErrors];
+    return details.length > 0 ? details.join(', ') : error.message;
+  }
+  if (error instanceof SchemaValidationError) {
+    return error.message;
+  }
+  return fallback;
+};
+
+// Pesan banner untuk form: error per field sudah ditampilkan di input masing-masing
+export const getFormErrorMessage = (error: unknown, fallback: string): string => {
+  if (error instanceof ApiRequestError) {
+    if (error.generalErrors.length > 0) {
+      return error.generalErrors.join(', ');
+    }
+    return error.hasFieldErrors ? translate('api.checkMarkedFields') : error.message;
+  }
+  if (error instanceof SchemaValidationError) {
+    return error.message;
+  }
+  return fallback;
+};
+
 export default api;
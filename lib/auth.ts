@@ -0,0 +1,101 @@
+import api from './api';
+import { Permission, Role, Session, User } from '../types/auth';
+import { translate, MessageKey } from './i18n';
+
+const SESSION_STORAGE_KEY = 'patient-app.session';
+const SESSION_HOURS = 8;
+
+export const ROLE_LABELS: Record<Role, MessageKey> = {
+  admin: 'role.admin',
+  'front-desk': 'role.front-desk',
+};
+
+// Front desk boleh mendaftarkan & mengubah data pasien serta kunjungan; hanya admin yang boleh menghapus,
+// memulihkan dari Sampah, menggabungkan, dan menghapus permanen
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: [
+    'patient:create',
+    'patient:edit',
+    'patient:delete',
+    'patient:merge',
+    'patient:purge',
+    'visit:create',
+    'visit:edit',
+    'visit:delete',
+  ],
+  'front-desk': ['patient:create', 'patient:edit', 'visit:create', 'visit:edit'],
+};
+
+export const hasPermission = (user: User | null, permission: Permission): boolean =>
+  user !== null && ROLE_PERMISSIONS[user.role].includes(permission);
+
+export interface IdentityProvider {
+  login: (username: string, password: string) => Promise<Session>;
+}
+
+const defaultExpiresAt = () => new Date(Date.now() + SESSION_HOURS * 60 * 60 * 1000).toISOString();
+
+const isValidTimestamp = (value: unknown): value is string =>
+  typeof value === 'string' && !Number.isNaN(new Date(value).getTime());
+
+// Akun lokal untuk development tanpa identity server. Jangan dipakai di produksi.
+const STUB_ACCOUNTS: (User & { password: string })[] = [
+  { id: 1, username: 'admin', password: 'admin123', name: 'Administrator', role: 'admin' },
+  { id: 2, username: 'resepsionis', password: 'resepsionis123', name: 'Resepsionis', role: 'front-desk' },
+];
+
+export const stubIdentityProvider: IdentityProvider = {
+  login: async (username, password) => {
+    const account = STUB_ACCOUNTS.find(a => a.username === username && a.password === password);
+    if (!account) {
+      throw new Error(translate('login.invalidCredentials'));
+    }
+    const { password: _password, ...user } = account;
+    const expiresAt = defaultExpiresAt();
+    const claims = { sub: user.id, role: user.role, name: user.name };
+    return { token: `stub.${btoa(JSON.stringify(claims))}`, user, expiresAt };
+  },
+};
+
+// POST /auth/login -> { accessToken, expiresAt, user }
+// expiresAt yang kosong/tidak valid diganti masa sesi default agar timer logout tidak menjadi NaN
+export const apiIdentityProvider: IdentityProvider = {
+  login: async (username, password) => {
+    const response = await api.post('/auth/login', { username, password });
+    const { accessToken, user, expiresAt } = response.data;
+    return {
+      token: accessToken,
+      user,
+      expiresAt: isValidTimestamp(expiresAt) ? expiresAt : defaultExpiresAt(),
+    };
+  },
+};
+
+// Akun stub hanya aktif jika diminta eksplisit; tanpa konfigurasi, login selalu lewat backend
+export const USE_STUB_AUTH = process.env.NEXT_PUBLIC_AUTH_PROVIDER === 'stub';
+
+export const identityProvider: IdentityProvider = USE_STUB_AUTH ? stubIdentityProvider : apiIdentityProvider;
+
+// Sesi disimpan di localStorage agar tetap login setelah refresh
+export const loadSession = (): Session | null => {
+  try {
+    const raw = window.localStorage.getItem(SESSION_STORAGE_KEY);
+    if (!raw) return null;
+    const session: Session = JSON.parse(raw);
+    if (!isValidTimestamp(session.expiresAt) || new Date(session.expiresAt).getTime() <= Date.now()) {
+      window.localStorage.removeItem(SESSION_STORAGE_KEY);
+      return null;
+    }
+    return session;
+  } catch (error) {
+    return null;
+  }
+};
+
+export const saveSession = (session: Session) => {
+  window.localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+};
+
+export const clearSession = () => {
+  window.localStorage.removeItem(SESSION_STORAGE_KEY);
+};
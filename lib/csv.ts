@@ -0,0 +1,67 @@
+// Parser & writer CSV sederhana (RFC 4180): mendukung field berkutip, koma/baris baru di dalam kutip
+
+// Parse teks CSV menjadi array baris; delimiter otomatis koma atau titik koma (ekspor Excel lokal)
+export const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] || '';
+  const delimiter = firstLine.split(';').length > firstLine.split(',').length ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Buang baris kosong (misalnya baris terakhir dari file)
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+};
+
+// Sel yang diawali karakter ini dibaca Excel/LibreOffice sebagai rumus (CSV/formula injection)
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Kebalikan dari pengaman rumus di escapeCsvValue, agar CSV hasil ekspor bisa diimpor ulang apa adanya
+export const stripFormulaGuard = (value: string): string =>
+  value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value;
+
+const escapeCsvValue = (value: unknown): string => {
+  const raw = value === null || value === undefined ? '' : String(value);
+  // Awali dengan ' supaya nilai seperti "=HYPERLINK(...)" atau "+62812..." tetap tampil sebagai teks
+  const text = FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Susun baris menjadi teks CSV
+export const toCsv = (rows: unknown[][]): string =>
+  rows.map(row => row.map(escapeCsvValue).join(',')).join('\r\n');
@@ -0,0 +1,16 @@
+// Unduh konten yang dibuat di browser sebagai file
+export const downloadFile = (content: BlobPart, filename: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Unduh CSV dengan BOM agar Excel membaca UTF-8 dengan benar
+export const downloadCsv = (csv: string, filename: string) =>
+  downloadFile(`\uFEFF${csv}`, filename, 'text/csv;charset=utf-8');
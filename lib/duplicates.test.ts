@@ -0,0 +1,125 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Patient } from '../types/patient';
+import { ApiRequestError, findDuplicateCandidates, searchPatients } from './api';
+import { findPossibleDuplicates, matchPatient, rankDuplicates } from './duplicates';
+
+vi.mock('./api', async importOriginal => ({
+  ...(await importOriginal<typeof import('./api')>()),
+  findDuplicateCandidates: vi.fn(),
+  searchPatients: vi.fn(),
+}));
+
+const patient = (overrides: Partial<Patient> = {}): Patient => ({
+  id: 1,
+  nama: 'Siti Aminah',
+  nik: '3171014508900001',
+  tanggal_lahir: '1990-08-05',
+  jenis_kelamin: 'Perempuan',
+  alamat: 'Jl. Merdeka No. 1',
+  no_telepon: '+6281234567890',
+  golongan_darah: 'A',
+  created_at: '2025-01-01T00:00:00.000Z',
+  updated_at: '2025-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const input = { nama: 'Budi Santoso', nik: '', tanggal_lahir: '' };
+
+describe('matchPatient', () => {
+  it('NIK dengan salah ketik paling banyak 2 digit dianggap sama', () => {
+    expect(matchPatient({ ...input, nik: '3171014508900091' }, patient())).toMatchObject({
+      reasons: ['nik'],
+      nikDistance: 1,
+    });
+    expect(matchPatient({ ...input, nik: '3171014508900991' }, patient())?.nikDistance).toBe(2);
+    expect(matchPatient({ ...input, nik: '3171014508909991' }, patient())).toBeNull();
+  });
+
+  it('nama mirip dengan tanggal lahir sama', () => {
+    const match = matchPatient({ nama: 'Ny. Aminah, Siti', nik: '', tanggal_lahir: '1990-08-05' }, patient());
+    expect(match).toMatchObject({ reasons: ['nama-tanggal-lahir'], nameSimilarity: 1, nikDistance: Infinity });
+  });
+
+  it('tanggal lahir dari server boleh berupa datetime ISO', () => {
+    const match = matchPatient(
+      { nama: 'Siti Aminah', nik: '', tanggal_lahir: '1990-08-05' },
+      patient({ tanggal_lahir: '1990-08-05T00:00:00.000Z' })
+    );
+    expect(match?.reasons).toEqual(['nama-tanggal-lahir']);
+  });
+
+  it('kedua alasan bisa terpenuhi sekaligus', () => {
+    const match = matchPatient({ nama: 'Siti Aminah', nik: '3171014508900001', tanggal_lahir: '1990-08-05' }, patient());
+    expect(match?.reasons).toEqual(['nik', 'nama-tanggal-lahir']);
+  });
+
+  it('nama mirip tanpa tanggal lahir yang sama tidak dianggap duplikat', () => {
+    expect(matchPatient({ nama: 'Siti Aminah', nik: '', tanggal_lahir: '1991-08-05' }, patient())).toBeNull();
+    expect(matchPatient({ nama: 'Siti Aminah', nik: '', tanggal_lahir: '' }, patient())).toBeNull();
+    expect(matchPatient({ nama: 'Budi Santoso', nik: '', tanggal_lahir: '1990-08-05' }, patient())).toBeNull();
+  });
+});
+
+describe('rankDuplicates', () => {
+  it('NIK paling dekat dulu, lalu nama paling mirip', () => {
+    const data = { nama: 'Siti Aminah', nik: '3171014508900001', tanggal_lahir: '1990-08-05' };
+    const patients = [
+      patient({ id: 1, nama: 'Sitti Aminah', nik: '3171014508900099' }),
+      patient({ id: 2, nama: 'Siti Amina', nik: '3171014508900091' }),
+      patient({ id: 3, nama: 'Siti Aminah', nik: '3171014508900091' }),
+      patient({ id: 4, nama: 'Budi Santoso', nik: '3273010101800001' }),
+    ];
+    expect(rankDuplicates(data, patients).map(match => match.patient.id)).toEqual([3, 2, 1]);
+  });
+});
+
+describe('findPossibleDuplicates', () => {
+  const registered = patient({ id: 7 });
+
+  beforeEach(() => {
+    vi.mocked(findDuplicateCandidates).mockReset();
+    vi.mocked(searchPatients).mockReset();
+  });
+
+  it('memakai kandidat dari server tanpa pasien yang sedang diedit', async () => {
+    vi.mocked(findDuplicateCandidates).mockResolvedValue([registered, patient({ id: 8 })]);
+    const matches = await findPossibleDuplicates({ ...input, nik: registered.nik }, 8);
+    expect(findDuplicateCandidates).toHaveBeenCalledWith(
+      { ...input, nik: registered.nik },
+      { exclude_id: 8, limit: 50 }
+    );
+    expect(matches.map(match => match.patient.id)).toEqual([7]);
+    expect(searchPatients).not.toHaveBeenCalled();
+  });
+
+  it('tanpa endpoint duplikat (404), dua digit salah di potongan NIK berbeda tetap ditemukan', async () => {
+    vi.mocked(findDuplicateCandidates).mockRejectedValue(new ApiRequestError(404, 'Not Found'));
+    vi.mocked(searchPatients).mockImplementation(async keyword => {
+      const data = registered.nik.includes(keyword) ? [registered] : [];
+      return { data, total: data.length, page: 1, limit: 50, totalPages: 1 };
+    });
+
+    // Digit ke-6 dan ke-11 (indeks 5 dan 10) salah
+    const nik = '3171004508800001';
+    const matches = await findPossibleDuplicates({ ...input, nik });
+    expect(matches.map(match => match.patient.id)).toEqual([7]);
+    expect(vi.mocked(searchPatients).mock.calls.map(([keyword]) => keyword)).toEqual(['317100', '45088', '00001']);
+  });
+
+  it('pencarian nama cadangan disaring ke umur yang sama', async () => {
+    vi.mocked(findDuplicateCandidates).mockRejectedValue(new ApiRequestError(404, 'Not Found'));
+    vi.mocked(searchPatients).mockResolvedValue({ data: [], total: 0, page: 1, limit: 50, totalPages: 0 });
+
+    await findPossibleDuplicates({ nama: 'Ny. Siti Aminah', nik: '', tanggal_lahir: '2000-01-01' });
+    const calls = vi.mocked(searchPatients).mock.calls;
+    expect(calls.map(([keyword]) => keyword)).toEqual(['amin', 'siti']);
+    // Lahir 1 Januari, jadi umurnya selisih tahun
+    const age = new Date().getFullYear() - 2000;
+    expect(calls[0][1]).toEqual({ limit: 50, umur_min: age, umur_max: age });
+  });
+
+  it('error lain dari server diteruskan', async () => {
+    vi.mocked(findDuplicateCandidates).mockRejectedValue(new ApiRequestError(500, 'Server error'));
+    await expect(findPossibleDuplicates({ ...input, nik: registered.nik })).rejects.toThrow('Server error');
+  });
+});
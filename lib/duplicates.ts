@@ -0,0 +1,134 @@
+import { Patient, PatientFormData } from '../types/patient';
+import { ApiRequestError, PaginatedResponse, findDuplicateCandidates, isMissingEndpoint, searchPatients } from './api';
+import { calculateAge } from './format';
+import type { MessageKey } from './i18n';
+
+// Ambang kemiripan: nama dianggap sama jika rasio edit distance >= NAME_SIMILARITY_THRESHOLD,
+// NIK dianggap sama jika berbeda paling banyak NIK_MAX_DISTANCE digit
+const NAME_SIMILARITY_THRESHOLD = 0.8;
+const NIK_MAX_DISTANCE = 2;
+const CANDIDATE_LIMIT = 50;
+
+const HONORIFICS = ['bapak', 'bpk', 'ibu', 'sdr', 'sdri', 'tn', 'ny', 'nn', 'an', 'dr', 'drs', 'ir', 'hj', 'h'];
+
+export type DuplicateReason = 'nik' | 'nama-tanggal-lahir';
+
+export interface DuplicateMatch {
+  patient: Patient;
+  reasons: DuplicateReason[];
+  nameSimilarity: number;
+  nikDistance: number;
+}
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, MessageKey> = {
+  nik: 'duplicate.reason.nik',
+  'nama-tanggal-lahir': 'duplicate.reason.nama-tanggal-lahir',
+};
+
+export const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Huruf kecil, tanpa gelar/sapaan & tanda baca, kata diurutkan agar "Siti Aminah" = "Aminah, Siti"
+export const normalizeName = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word && !HONORIFICS.includes(word))
+    .sort()
+    .join(' ');
+
+export const nameSimilarity = (a: string, b: string): number => {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  const length = Math.max(left.length, right.length);
+  return length === 0 ? 0 : 1 - levenshtein(left, right) / length;
+};
+
+// Potongan NIK yang tidak saling tumpang tindih: NIK dengan <= 2 digit salah selalu menyisakan
+// minimal satu potongan yang utuh
+const NIK_CHUNKS = [[0, 6], [6, 11], [11, 16]];
+
+export const matchPatient = (
+  data: Pick<PatientFormData, 'nama' | 'nik' | 'tanggal_lahir'>,
+  patient: Patient
+): DuplicateMatch | null => {
+  const reasons: DuplicateReason[] = [];
+  const similarity = nameSimilarity(data.nama, patient.nama);
+  const nikDistance = data.nik && patient.nik ? levenshtein(data.nik, patient.nik) : Infinity;
+
+  if (nikDistance <= NIK_MAX_DISTANCE) {
+    reasons.push('nik');
+  }
+  // Server bisa mengirim tanggal lahir sebagai datetime ISO, form selalu YYYY-MM-DD
+  const sameBirthDate = data.tanggal_lahir !== '' && data.tanggal_lahir.split('T')[0] === patient.tanggal_lahir.split('T')[0];
+  if (sameBirthDate && similarity >= NAME_SIMILARITY_THRESHOLD) {
+    reasons.push('nama-tanggal-lahir');
+  }
+
+  return reasons.length > 0 ? { patient, reasons, nameSimilarity: similarity, nikDistance } : null;
+};
+
+type DuplicateQuery = Pick<PatientFormData, 'nama' | 'nik' | 'tanggal_lahir'>;
+
+// Nilai kandidat, yang paling mirip lebih dulu. Dipakai juga mock backend untuk GET /patients/duplicates.
+export const rankDuplicates = (data: DuplicateQuery, patients: Patient[]): DuplicateMatch[] =>
+  patients
+    .map(patient => matchPatient(data, patient))
+    .filter((match): match is DuplicateMatch => match !== null)
+    .sort((a, b) => a.nikDistance - b.nikDistance || b.nameSimilarity - a.nameSimilarity);
+
+// Cadangan untuk backend tanpa GET /patients/duplicates (dan saat offline): pencarian biasa per potongan NIK,
+// dan per awalan 4 huruf tiap kata nama yang disaring ke umur yang sama karena nama hanya dicocokkan
+// bersama tanggal lahir. Hasil tiap pencarian tetap terpotong CANDIDATE_LIMIT tanpa urutan kemiripan.
+const searchCandidates = async (data: DuplicateQuery): Promise<Patient[]> => {
+  const searches: Promise<PaginatedResponse<Patient>>[] = [];
+  if (/^\d{16}$/.test(data.nik)) {
+    NIK_CHUNKS.forEach(([start, end]) =>
+      searches.push(searchPatients(data.nik.slice(start, end), { limit: CANDIDATE_LIMIT }))
+    );
+  }
+  if (data.tanggal_lahir) {
+    const age = calculateAge(data.tanggal_lahir);
+    const prefixes = normalizeName(data.nama).split(' ').filter(word => word.length >= 3).map(word => word.slice(0, 4));
+    Array.from(new Set(prefixes)).forEach(prefix =>
+      searches.push(searchPatients(prefix, { limit: CANDIDATE_LIMIT, umur_min: age, umur_max: age }))
+    );
+  }
+  return (await Promise.all(searches)).flatMap(result => result.data);
+};
+
+// Cari pasien terdaftar yang kemungkinan orang yang sama. Kandidat dipilih & diurutkan server,
+// lalu dinilai ulang di client. excludeId dipakai saat mencari duplikat dari pasien yang sudah ada.
+export const findPossibleDuplicates = async (
+  data: DuplicateQuery,
+  excludeId?: number
+): Promise<DuplicateMatch[]> => {
+  let found: Patient[];
+  try {
+    found = await findDuplicateCandidates(data, { exclude_id: excludeId, limit: CANDIDATE_LIMIT });
+  } catch (error) {
+    if (!isMissingEndpoint(error) && !(error instanceof ApiRequestError && error.isNetworkError)) {
+      throw error;
+    }
+    found = await searchCandidates(data);
+  }
+
+  const candidates = new Map<number, Patient>();
+  found.forEach(patient => candidates.set(patient.id, patient));
+  if (excludeId !== undefined) {
+    candidates.delete(excludeId);
+  }
+
+  return rankDuplicates(data, Array.from(candidates.values()).filter(patient => patient.pendingSync !== 'delete'));
+};
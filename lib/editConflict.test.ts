@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Patient } from '../types/patient';
+import { ApiRequestError, getPatientById, updatePatient } from './api';
+import { EditConflictError, getFieldConflicts, mergeEdits, updatePatientIfUnchanged } from './editConflict';
+import { normalizePatientFormData, patientToFormData } from './patientForm';
+
+vi.mock('./api', async importOriginal => ({
+  ...(await importOriginal<typeof import('./api')>()),
+  getPatientById: vi.fn(),
+  updatePatient: vi.fn(),
+}));
+
+const loaded: Patient = {
+  id: 1,
+  nama: 'Siti Aminah',
+  nik: '3171014508900001',
+  tanggal_lahir: '1990-08-05',
+  jenis_kelamin: 'Perempuan',
+  alamat: 'Jl. Merdeka No. 1',
+  no_telepon: '+6281234567890',
+  golongan_darah: 'A',
+  email: 'siti@example.com',
+  created_at: '2025-01-01T00:00:00.000Z',
+  updated_at: '2025-01-01T00:00:00.000Z',
+};
+
+const latest = (overrides: Partial<Patient>): Patient => ({
+  ...loaded,
+  ...overrides,
+  updated_at: '2025-01-02T00:00:00.000Z',
+});
+
+describe('getFieldConflicts', () => {
+  it('field yang diubah kedua pihak menjadi nilai berbeda', () => {
+    const mine = { ...patientToFormData(loaded), nama: 'Siti Aminah Putri', golongan_darah: 'B' };
+    expect(getFieldConflicts(loaded, mine, latest({ nama: 'Siti Aminah S.', golongan_darah: 'B' }))).toEqual([
+      { field: 'nama', mine: 'Siti Aminah Putri', theirs: 'Siti Aminah S.' },
+    ]);
+  });
+
+  it('field yang hanya diubah salah satu pihak bukan konflik', () => {
+    const mine = { ...patientToFormData(loaded), nama: 'Siti Aminah Putri' };
+    expect(getFieldConflicts(loaded, mine, latest({ golongan_darah: 'O' }))).toEqual([]);
+  });
+
+  it('field opsional yang dikosongkan di server dibandingkan sebagai string kosong', () => {
+    const mine = { ...patientToFormData(loaded), email: 'siti.aminah@example.com' };
+    expect(getFieldConflicts(loaded, mine, latest({ email: undefined }))).toEqual([
+      { field: 'email', mine: 'siti.aminah@example.com', theirs: '' },
+    ]);
+  });
+});
+
+describe('perbandingan dengan data lama', () => {
+  // Nomor telepon lama belum dalam format E.164; form menyimpannya sebagai +62...
+  const legacy: Patient = { ...loaded, no_telepon: '0812-3456-7890' };
+  const mine = { ...normalizePatientFormData(patientToFormData(legacy)), nama: 'Siti Aminah Putri' };
+  const theirs = latest({ no_telepon: '+6281111111111' });
+
+  it('nomor telepon lama yang tidak diubah bukan konflik', () => {
+    expect(getFieldConflicts(legacy, mine, theirs)).toEqual([]);
+  });
+
+  it('mergeEdits mengambil nomor telepon dari versi terbaru', () => {
+    expect(mergeEdits(legacy, mine, theirs)).toMatchObject({ nama: 'Siti Aminah Putri', no_telepon: '+6281111111111' });
+  });
+});
+
+describe('updatePatientIfUnchanged', () => {
+  const data = { ...patientToFormData(loaded), nama: 'Siti Aminah Putri' };
+
+  beforeEach(() => {
+    vi.mocked(getPatientById).mockReset();
+    vi.mocked(updatePatient).mockReset();
+  });
+
+  it('menyimpan dengan versi yang dimuat sebagai If-Match', async () => {
+    vi.mocked(getPatientById).mockResolvedValue(loaded);
+    vi.mocked(updatePatient).mockResolvedValue(latest({ nama: 'Siti Aminah Putri' }));
+    await updatePatientIfUnchanged(loaded, data);
+    expect(updatePatient).toHaveBeenCalledWith(1, data, loaded.updated_at);
+  });
+
+  it('record yang sudah berubah ditolak sebelum disimpan, untuk backend tanpa If-Match', async () => {
+    const current = latest({ golongan_darah: 'O' });
+    vi.mocked(getPatientById).mockResolvedValue(current);
+    await expect(updatePatientIfUnchanged(loaded, data)).rejects.toEqual(new EditConflictError(current));
+    expect(updatePatient).not.toHaveBeenCalled();
+  });
+
+  it('409 karena If-Match menjadi EditConflictError dengan versi terbaru', async () => {
+    const current = latest({ golongan_darah: 'O' });
+    vi.mocked(getPatientById).mockResolvedValueOnce(loaded).mockResolvedValueOnce(current);
+    vi.mocked(updatePatient).mockRejectedValue(new ApiRequestError(409, 'Conflict'));
+    const error = await updatePatientIfUnchanged(loaded, data).catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(EditConflictError);
+    expect((error as EditConflictError).latest).toBe(current);
+  });
+
+  it('409 karena NIK ganda diteruskan apa adanya', async () => {
+    const duplicateNik = new ApiRequestError(409, 'NIK sudah terdaftar');
+    vi.mocked(getPatientById).mockResolvedValue(loaded);
+    vi.mocked(updatePatient).mockRejectedValue(duplicateNik);
+    await expect(updatePatientIfUnchanged(loaded, data)).rejects.toBe(duplicateNik);
+  });
+});
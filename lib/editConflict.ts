@@ -0,0 +1,74 @@
+import { Patient, PatientFormData } from '../types/patient';
+import { getPatientById, updatePatient, ApiRequestError } from './api';
+import { normalizePatientFormData, patientToFormData } from './patientForm';
+import { translate } from './i18n';
+
+// Dilempar jika record di server sudah diubah orang lain sejak form edit dibuka
+export class EditConflictError extends Error {
+  latest: Patient;
+
+  constructor(latest: Patient) {
+    super(translate('conflict.error'));
+    Object.setPrototypeOf(this, EditConflictError.prototype);
+    this.name = 'EditConflictError';
+    this.latest = latest;
+  }
+}
+
+// Field yang diubah oleh Anda maupun pengguna lain, dengan nilai berbeda
+export interface FieldConflict {
+  field: keyof PatientFormData;
+  mine: string;
+  theirs: string;
+}
+
+// Simpan perubahan hanya jika record belum berubah sejak `loaded` dimuat. Versi dikirim lewat If-Match;
+// backend yang tidak mendukungnya menyimpan apa saja, jadi versi terbaru juga diambil & dibandingkan dulu.
+export const updatePatientIfUnchanged = async (loaded: Patient, data: PatientFormData): Promise<Patient> => {
+  const current = await getPatientById(loaded.id);
+  if (current.updated_at !== loaded.updated_at) {
+    throw new EditConflictError(current);
+  }
+
+  try {
+    return await updatePatient(loaded.id, data, loaded.updated_at);
+  } catch (error) {
+    // 409 juga dipakai untuk NIK ganda, jadi pastikan record memang berubah
+    if (error instanceof ApiRequestError && (error.statusCode === 409 || error.statusCode === 412)) {
+      const latest = await getPatientById(loaded.id);
+      if (latest.updated_at !== loaded.updated_at) {
+        throw new EditConflictError(latest);
+      }
+    }
+    throw error;
+  }
+};
+
+// Ketiga versi dibandingkan setelah dinormalisasi seperti saat disimpan (mis. no telepon ke E.164),
+// agar nilai lama yang belum dinormalisasi tidak terhitung sebagai perubahan Anda
+const comparableVersions = (loaded: Patient, mine: PatientFormData, latest: Patient) => ({
+  base: normalizePatientFormData(patientToFormData(loaded)),
+  own: normalizePatientFormData(mine),
+  theirs: normalizePatientFormData(patientToFormData(latest)),
+});
+
+// Gabungkan tanpa bertanya: field yang tidak Anda ubah mengikuti versi terbaru di server
+export const mergeEdits = (loaded: Patient, mine: PatientFormData, latest: Patient): PatientFormData => {
+  const { base, own, theirs } = comparableVersions(loaded, mine, latest);
+  const merged = { ...own };
+  (Object.keys(own) as (keyof PatientFormData)[]).forEach((field) => {
+    if (own[field] === base[field]) {
+      merged[field] = theirs[field];
+    }
+  });
+  return merged;
+};
+
+// Field yang diubah kedua pihak menjadi nilai berbeda; hanya ini yang perlu dipilih pengguna
+export const getFieldConflicts = (loaded: Patient, mine: PatientFormData, latest: Patient): FieldConflict[] => {
+  const { base, own, theirs } = comparableVersions(loaded, mine, latest);
+
+  return (Object.keys(own) as (keyof PatientFormData)[])
+    .filter(field => own[field] !== base[field] && theirs[field] !== base[field] && own[field] !== theirs[field])
+    .map(field => ({ field, mine: own[field], theirs: theirs[field] }));
+};
@@ -0,0 +1,137 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { FhirPatient } from '../types/fhir';
+import type { Patient } from '../types/patient';
+import { ADMINISTRATIVE_CODE_EXTENSION, BLOOD_TYPE_EXTENSION, NIK_SYSTEM, fromFhirPatient, toFhirBundle } from './fhir';
+import { loadRegionData } from './regions';
+import { translate } from './i18n';
+
+const resource = (overrides: Partial<FhirPatient> = {}): FhirPatient => ({
+  resourceType: 'Patient',
+  identifier: [
+    { system: 'https://example.org/mrn', value: 'MRN-1' },
+    { use: 'official', system: NIK_SYSTEM, value: '3171014508900001' },
+  ],
+  name: [
+    { use: 'usual', text: 'Siti' },
+    { use: 'official', family: 'Aminah', given: ['Siti'] },
+  ],
+  gender: 'female',
+  birthDate: '1990-08-05',
+  telecom: [
+    { system: 'email', value: 'siti@example.com' },
+    { system: 'phone', value: '0812-3456-7890', use: 'mobile' },
+  ],
+  extension: [{ url: BLOOD_TYPE_EXTENSION, valueCode: 'ab' }],
+  ...overrides,
+});
+
+const address = (codes: Record<string, string>, overrides = {}) => ({
+  use: 'home',
+  line: ['Jl. Merdeka No. 1'],
+  postalCode: '10110',
+  extension: [{
+    url: ADMINISTRATIVE_CODE_EXTENSION,
+    extension: Object.entries(codes).map(([url, valueCode]) => ({ url, valueCode })),
+  }],
+  ...overrides,
+});
+
+describe('fromFhirPatient', () => {
+  beforeAll(() => loadRegionData(['31']));
+
+  it('memetakan identitas, kontak dan golongan darah', () => {
+    const { data, errors } = fromFhirPatient(resource());
+    expect(errors).toEqual({});
+    expect(data).toMatchObject({
+      nama: 'Siti Aminah',
+      nik: '3171014508900001',
+      tanggal_lahir: '1990-08-05',
+      jenis_kelamin: 'Perempuan',
+      no_telepon: '+6281234567890',
+      email: 'siti@example.com',
+      golongan_darah: 'AB',
+    });
+  });
+
+  it('memetakan kode wilayah SATUSEHAT ke alamat terstruktur', () => {
+    const { data } = fromFhirPatient(resource({
+      address: [
+        address({ province: '99' }, { use: 'work' }),
+        address({ province: '31', city: '3171', district: '317101', village: '3171011001', rt: '001', rw: '002' }),
+      ],
+    }));
+    expect(data).toMatchObject({
+      provinsi_kode: '31',
+      kabupaten_kode: '31.71',
+      kecamatan_kode: '31.71.01',
+      kelurahan_kode: '31.71.01.1001',
+      rt: '001',
+      rw: '002',
+      kode_pos: '10110',
+      jalan: 'Jl. Merdeka No. 1',
+      alamat: 'Jl. Merdeka No. 1, RT 001/RW 002, Kel. Gambir, Kec. Gambir, Kota Administrasi Jakarta Pusat, DKI Jakarta 10110',
+    });
+  });
+
+  it('kode wilayah yang tidak dikenal disimpan sebagai alamat teks bebas', () => {
+    const { data } = fromFhirPatient(resource({
+      address: [{
+        ...address({ province: '31', city: '3199' }),
+        district: 'Gambir',
+        city: 'Jakarta Pusat',
+      }],
+    }));
+    expect(data).toMatchObject({
+      provinsi_kode: '',
+      kabupaten_kode: '',
+      jalan: '',
+      alamat: 'Jl. Merdeka No. 1, Gambir, Jakarta Pusat, 10110',
+    });
+    expect(fromFhirPatient(resource({ address: [{ text: 'Jl. Merdeka No. 1, Jakarta' }] })).data.alamat)
+      .toBe('Jl. Merdeka No. 1, Jakarta');
+  });
+
+  it('jenis kelamin yang tidak didukung menjadi error pemetaan', () => {
+    const { data, errors } = fromFhirPatient(resource({ gender: 'other' }));
+    expect(data.jenis_kelamin).toBe('');
+    expect(errors).toEqual({ jenis_kelamin: translate('fhir.unsupportedGender', { value: 'other' }) });
+  });
+
+  it('field dengan tipe yang salah dianggap kosong', () => {
+    const malformed = {
+      resourceType: 'Patient',
+      name: { text: 'Siti' },
+      identifier: [null, { system: NIK_SYSTEM, value: 3171014508900001 }],
+      telecom: 'siti@example.com',
+      birthDate: 19900805,
+      address: [{ line: 'Jl. Merdeka', extension: {} }],
+    } as unknown as FhirPatient;
+    const { data, errors } = fromFhirPatient(malformed);
+    expect(errors).toEqual({});
+    expect(data).toMatchObject({ nama: '', nik: '', tanggal_lahir: '', no_telepon: '', email: '', alamat: '' });
+  });
+});
+
+describe('toFhirBundle', () => {
+  const patient: Patient = {
+    id: 7,
+    nama: 'Siti Aminah',
+    nik: '3171014508900001',
+    tanggal_lahir: '1990-08-05',
+    jenis_kelamin: 'Perempuan',
+    alamat: 'Jl. Merdeka No. 1',
+    no_telepon: '+6281234567890',
+    golongan_darah: 'AB',
+    email: 'siti@example.com',
+    created_at: '2025-01-01T00:00:00.000Z',
+    updated_at: '2025-01-01T00:00:00.000Z',
+  };
+
+  it('bundle collection tanpa total (bdl-1), satu entry per pasien', () => {
+    const bundle = toFhirBundle([patient], new Date('2025-02-01T00:00:00.000Z'));
+    expect(bundle).toMatchObject({ resourceType: 'Bundle', type: 'collection', timestamp: '2025-02-01T00:00:00.000Z' });
+    expect(bundle).not.toHaveProperty('total');
+    expect(bundle.entry).toHaveLength(1);
+    expect(bundle.entry?.[0].resource).toMatchObject({ resourceType: 'Patient', birthDate: '1990-08-05', gender: 'female' });
+  });
+});
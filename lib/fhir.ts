@@ -0,0 +1,249 @@
+// Pemetaan Patient <-> resource FHIR R4 Patient untuk bertukar data dengan sistem berbasis
+// SATUSEHAT/FHIR. Identifier NIK dan extension kode wilayah mengikuti profil SATUSEHAT.
+
+import type { Patient, PatientFormData, FormErrors } from '../types/patient';
+import type {
+  FhirPatient,
+  FhirBundle,
+  FhirBundleEntry,
+  FhirExtension,
+  FhirAddress,
+  FhirGender,
+  FhirContactPoint,
+} from '../types/fhir';
+import { initialFormData, validatePatientForm, normalizePatientFormData } from './patientForm';
+import { ImportRow, markDuplicateNiks } from './patientImport';
+import { findRegion, loadRegionData } from './regions';
+import { parsePhone, PhoneType } from './phone';
+import { translate } from './i18n';
+
+export const FHIR_MIME_TYPE = 'application/fhir+json';
+
+export const NIK_SYSTEM = 'https://fhir.kemkes.go.id/id/nik';
+export const ADMINISTRATIVE_CODE_EXTENSION = 'https://fhir.kemkes.go.id/r4/StructureDefinition/administrativeCode';
+
+// Nomor pasien dan golongan darah tidak punya padanan baku, jadi memakai URI milik klinik ini
+const LOCAL_SYSTEM_BASE = process.env.NEXT_PUBLIC_FHIR_SYSTEM_BASE || 'https://patient-app.local/fhir';
+export const PATIENT_NUMBER_SYSTEM = `${LOCAL_SYSTEM_BASE}/patient-number`;
+export const BLOOD_TYPE_EXTENSION = `${LOCAL_SYSTEM_BASE}/StructureDefinition/blood-type`;
+
+const GENDER_TO_FHIR: Record<string, FhirGender> = { 'Laki-laki': 'male', Perempuan: 'female' };
+const GENDER_FROM_FHIR: Partial<Record<FhirGender, string>> = { male: 'Laki-laki', female: 'Perempuan' };
+
+// `use` ContactPoint mengikuti jenis nomor: seluler -> mobile, telepon rumah/kantor -> home
+const PHONE_USE: Record<PhoneType, string> = { mobile: 'mobile', landline: 'home' };
+
+// Kode wilayah SATUSEHAT tanpa titik: 31 / 3171 / 317101 / 3171011001
+const ADMINISTRATIVE_LEVELS = [
+  { url: 'province', field: 'provinsi_kode' },
+  { url: 'city', field: 'kabupaten_kode' },
+  { url: 'district', field: 'kecamatan_kode' },
+  { url: 'village', field: 'kelurahan_kode' },
+] as const;
+
+const toAdministrativeCode = (code: string) => code.replace(/\./g, '');
+
+const fromAdministrativeCode = (code: string) => (code.match(/^(\d{2})(\d{2})?(\d{2})?(\d{4})?$/) ?? [])
+  .slice(1)
+  .filter(Boolean)
+  .join('.');
+
+const regionName = (code?: string) => (code ? findRegion(code)?.name : undefined);
+
+const toFhirAddress = (patient: Patient): FhirAddress => {
+  const administrative: FhirExtension[] = [
+    ...ADMINISTRATIVE_LEVELS.flatMap(({ url, field }) =>
+      patient[field] ? [{ url, valueCode: toAdministrativeCode(patient[field]!) }] : []
+    ),
+    ...(patient.rt ? [{ url: 'rt', valueCode: patient.rt }] : []),
+    ...(patient.rw ? [{ url: 'rw', valueCode: patient.rw }] : []),
+  ];
+
+  return {
+    use: 'home',
+    text: patient.alamat,
+    line: patient.jalan ? [patient.jalan] : undefined,
+    city: regionName(patient.kabupaten_kode),
+    district: regionName(patient.kecamatan_kode),
+    state: regionName(patient.provinsi_kode),
+    postalCode: patient.kode_pos || undefined,
+    country: 'ID',
+    extension: administrative.length > 0
+      ? [{ url: ADMINISTRATIVE_CODE_EXTENSION, extension: administrative }]
+      : undefined,
+  };
+};
+
+// Nomor lama yang belum bisa dinormalisasi dikirim apa adanya tanpa `use`
+const toFhirPhone = (value: string): FhirContactPoint => {
+  const result = parsePhone(value);
+  return result.valid
+    ? { system: 'phone', value: result.data.e164, use: PHONE_USE[result.data.type] }
+    : { system: 'phone', value: value.trim() };
+};
+
+export const toFhirPatient = (patient: Patient): FhirPatient => {
+  const telecom: FhirContactPoint[] = [
+    ...(patient.no_telepon ? [toFhirPhone(patient.no_telepon)] : []),
+    ...(patient.email ? [{ system: 'email' as const, value: patient.email, use: 'home' }] : []),
+  ];
+
+  return {
+    resourceType: 'Patient',
+    id: String(patient.id),
+    meta: { lastUpdated: patient.updated_at },
+    identifier: [
+      { use: 'official', system: NIK_SYSTEM, value: patient.nik },
+      { use: 'usual', system: PATIENT_NUMBER_SYSTEM, value: String(patient.id) },
+    ],
+    active: true,
+    name: [{ use: 'official', text: patient.nama }],
+    telecom: telecom.length > 0 ? telecom : undefined,
+    gender: GENDER_TO_FHIR[patient.jenis_kelamin] ?? 'unknown',
+    birthDate: patient.tanggal_lahir.split('T')[0],
+    address: [toFhirAddress(patient)],
+    extension: patient.golongan_darah
+      ? [{ url: BLOOD_TYPE_EXTENSION, valueCode: patient.golongan_darah }]
+      : undefined,
+  };
+};
+
+// Bundle bertipe collection, untuk diunduh lalu diunggah ke sistem lain.
+// Tanpa `total`: FHIR (bdl-1) hanya mengizinkannya pada searchset & history.
+export const toFhirBundle = (patients: Patient[], generatedAt = new Date()): FhirBundle => ({
+  resourceType: 'Bundle',
+  type: 'collection',
+  timestamp: generatedAt.toISOString(),
+  entry: patients.map(patient => ({
+    fullUrl: `${LOCAL_SYSTEM_BASE}/Patient/${patient.id}`,
+    resource: toFhirPatient(patient),
+  })),
+});
+
+// Resource dari sistem lain tidak dijamin sesuai tipe: daftar yang bukan array dianggap kosong,
+// nilai yang bukan string dianggap kosong
+const list = <T>(value: T[] | undefined): T[] => (Array.isArray(value) ? value : []);
+
+const asText = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+const extensionValue = (extension?: FhirExtension) =>
+  asText(extension?.valueCode)
+  || asText(extension?.valueString)
+  || asText(list(extension?.valueCodeableConcept?.coding)[0]?.code);
+
+const findExtension = (extensions: FhirExtension[] | undefined, url: string) =>
+  list(extensions).find(extension => extension?.url === url);
+
+// Bagian extension administrativeCode SATUSEHAT: province/city/district/village/rt/rw
+const administrativePart = (address: FhirAddress, url: string) =>
+  extensionValue(findExtension(findExtension(address.extension, ADMINISTRATIVE_CODE_EXTENSION)?.extension, url));
+
+const fromFhirAddress = (address: FhirAddress | undefined, data: PatientFormData) => {
+  if (!address) return;
+  const part = (url: string) => administrativePart(address, url);
+  const codes = ADMINISTRATIVE_LEVELS.map(({ url, field }) => ({ field, code: fromAdministrativeCode(part(url)) }));
+  const line = list(address.line).map(asText).filter(Boolean);
+
+  // Kode wilayah hanya dipakai jika semuanya ada di data wilayah (lihat parseFhirImport)
+  if (codes[0].code && codes.every(({ code }) => !code || findRegion(code))) {
+    codes.forEach(({ field, code }) => {
+      data[field] = code;
+    });
+    data.rt = part('rt');
+    data.rw = part('rw');
+    data.kode_pos = asText(address.postalCode);
+    data.jalan = line.join(', ');
+  } else {
+    // Tanpa kode wilayah yang dikenal, alamat disimpan sebagai teks bebas seperti data lama
+    data.alamat = asText(address.text) || [...line, address.district, address.city, address.state, address.postalCode]
+      .map(asText)
+      .filter(Boolean)
+      .join(', ');
+  }
+};
+
+const homeAddress = (resource: FhirPatient) => {
+  const addresses = list(resource.address);
+  return addresses.find(address => address?.use === 'home') ?? addresses[0];
+};
+
+// Ubah resource Patient menjadi data form, beserta error pemetaan yang tidak tertangkap validasi form
+export const fromFhirPatient = (resource: FhirPatient): { data: PatientFormData; errors: FormErrors } => {
+  const data: PatientFormData = { ...initialFormData };
+  const errors: FormErrors = {};
+
+  const names = list(resource.name);
+  const name = names.find(item => item?.use === 'official') ?? names[0];
+  data.nama = asText(name?.text).trim() || [...list(name?.given), name?.family].map(asText).filter(Boolean).join(' ');
+  data.nik = asText(list(resource.identifier).find(identifier => identifier?.system === NIK_SYSTEM)?.value);
+  data.tanggal_lahir = asText(resource.birthDate);
+
+  const gender = asText(resource.gender);
+  if (gender) {
+    data.jenis_kelamin = GENDER_FROM_FHIR[gender as FhirGender] ?? '';
+    if (!data.jenis_kelamin) {
+      errors.jenis_kelamin = translate('fhir.unsupportedGender', { value: gender });
+    }
+  }
+
+  const telecom = list(resource.telecom);
+  data.no_telepon = asText(telecom.find(contact => contact?.system === 'phone' || contact?.system === 'sms')?.value);
+  data.email = asText(telecom.find(contact => contact?.system === 'email')?.value);
+  data.golongan_darah = extensionValue(findExtension(resource.extension, BLOOD_TYPE_EXTENSION)).toUpperCase();
+  fromFhirAddress(homeAddress(resource), data);
+
+  return { data: normalizePatientFormData(data), errors };
+};
+
+// Baca file JSON berisi Bundle (atau satu resource Patient) menjadi baris impor yang sudah divalidasi.
+// Entry yang bukan Patient tetap ikut sebagai baris bermasalah agar nomornya cocok dengan isi file.
+// Data wilayah provinsi yang dipakai dimuat dulu agar kode wilayah bisa divalidasi.
+export const parseFhirImport = async (text: string): Promise<ImportRow[]> => {
+  let json: { resourceType?: string; entry?: unknown };
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    throw new Error(translate('fhir.invalidJson'));
+  }
+
+  const resources = json?.resourceType === 'Patient'
+    ? [json]
+    : json?.resourceType === 'Bundle' && Array.isArray(json.entry)
+      ? (json.entry as FhirBundleEntry[]).map(entry => entry?.resource)
+      : null;
+  if (!resources) {
+    throw new Error(translate('fhir.notBundle'));
+  }
+  if (resources.length === 0) {
+    throw new Error(translate('fhir.emptyBundle'));
+  }
+
+  // Data wilayah dimuat sebelum pemetaan agar kode wilayah yang tidak dikenal bisa diganti teks alamat.
+  // Jika gagal dimuat (misalnya offline), semua alamat berkode diimpor sebagai teks bebas.
+  const patients = resources.map(resource =>
+    resource?.resourceType === 'Patient' ? (resource as FhirPatient) : undefined
+  );
+  const provinceCodes = patients.map(patient =>
+    patient && fromAdministrativeCode(administrativePart(homeAddress(patient) ?? {}, 'province'))
+  );
+  await loadRegionData(provinceCodes).catch(() => undefined);
+
+  const rows: ImportRow[] = resources.map((resource, index) => {
+    const rowNumber = index + 1;
+    const patient = patients[index];
+    if (!patient) {
+      const type = asText(resource?.resourceType) || '-';
+      return { rowNumber, data: { ...initialFormData }, errors: { resource: translate('fhir.notPatient', { type }) } };
+    }
+    // Satu entry yang rusak cukup menjadi baris bermasalah, bukan menggagalkan seluruh file
+    try {
+      return { rowNumber, ...fromFhirPatient(patient) };
+    } catch (error) {
+      return { rowNumber, data: { ...initialFormData }, errors: { resource: translate('fhir.invalidPatient') } };
+    }
+  });
+
+  return markDuplicateNiks(rows.map(row =>
+    row.errors.resource ? row : { ...row, errors: { ...validatePatientForm(row.data), ...row.errors } }
+  ));
+};
@@ -0,0 +1,47 @@
+import { FILTER_KEYS, PatientListState, defaultListState } from './patientQuery';
+
+export type FilterValues = Pick<PatientListState, (typeof FILTER_KEYS)[number]>;
+
+export interface FilterPreset {
+  name: string;
+  filters: FilterValues;
+}
+
+// Preset disimpan di localStorage per user, jadi tiap petugas punya daftar presetnya sendiri
+const storageKey = (userId: number) => `patient-app.filter-presets.${userId}`;
+
+export const pickFilters = (state: PatientListState): FilterValues =>
+  Object.fromEntries(FILTER_KEYS.map(key => [key, state[key]])) as FilterValues;
+
+export const emptyFilters = (): FilterValues => pickFilters(defaultListState);
+
+export const loadFilterPresets = (userId: number): FilterPreset[] => {
+  try {
+    const raw = window.localStorage.getItem(storageKey(userId));
+    const presets: FilterPreset[] = raw ? JSON.parse(raw) : [];
+    // Preset lama bisa belum punya filter yang ditambahkan belakangan
+    return presets.map(preset => ({ name: preset.name, filters: { ...emptyFilters(), ...preset.filters } }));
+  } catch (error) {
+    return [];
+  }
+};
+
+const storePresets = (userId: number, presets: FilterPreset[]) => {
+  window.localStorage.setItem(storageKey(userId), JSON.stringify(presets));
+};
+
+// Simpan preset; nama yang sudah ada ditimpa
+export const saveFilterPreset = (userId: number, preset: FilterPreset): FilterPreset[] => {
+  const presets = [
+    ...loadFilterPresets(userId).filter(existing => existing.name !== preset.name),
+    preset,
+  ].sort((a, b) => a.name.localeCompare(b.name, 'id'));
+  storePresets(userId, presets);
+  return presets;
+};
+
+export const deleteFilterPreset = (userId: number, name: string): FilterPreset[] => {
+  const presets = loadFilterPresets(userId).filter(preset => preset.name !== name);
+  storePresets(userId, presets);
+  return presets;
+};
@@ -0,0 +1,37 @@
+import { intlLocale } from './i18n';
+
+// Format tanggal untuk tampilan sesuai bahasa aktif, contoh: 17 Agustus 1990 / 17 August 1990
+export const formatDate = (dateString: string) => {
+  const date = new Date(dateString);
+  return date.toLocaleDateString(intlLocale(), {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric'
+  });
+};
+
+// Format tanggal & jam untuk timestamp record, contoh: 17 Agustus 2025 14.30
+export const formatDateTime = (dateString: string) => {
+  const date = new Date(dateString);
+  return date.toLocaleString(intlLocale(), {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+// Format angka sesuai bahasa aktif, contoh: 1.234 / 1,234
+export const formatNumber = (value: number) => value.toLocaleString(intlLocale());
+
+// Hitung umur (tahun penuh) dari tanggal lahir
+export const calculateAge = (tanggalLahir: string, today: Date = new Date()) => {
+  const birthDate = new Date(tanggalLahir);
+  let age = today.getFullYear() - birthDate.getFullYear();
+  const monthDiff = today.getMonth() - birthDate.getMonth();
+  if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birthDate.getDate())) {
+    age--;
+  }
+  return age;
+};
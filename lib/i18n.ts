@@ -0,0 +1,70 @@
+import id from './messages/id';
+import en from './messages/en';
+
+export type Locale = 'id' | 'en';
+
+export type MessageKey = keyof typeof id;
+
+export type MessageParams = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+export const LOCALES: Locale[] = ['id', 'en'];
+
+export const DEFAULT_LOCALE: Locale = 'id';
+
+export const LOCALE_NAMES: Record<Locale, string> = {
+  id: 'Bahasa Indonesia',
+  en: 'English',
+};
+
+// Tag BCP 47 untuk Intl (format tanggal & angka)
+const INTL_LOCALES: Record<Locale, string> = {
+  id: 'id-ID',
+  en: 'en-GB',
+};
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { id, en };
+
+const LOCALE_STORAGE_KEY = 'patient-app.locale';
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale);
+
+// Bahasa aktif untuk kode di luar komponen (validasi, format). Di server (mock API) selalu bahasa default.
+let activeLocale: Locale = DEFAULT_LOCALE;
+
+export const getActiveLocale = () => activeLocale;
+
+export const setActiveLocale = (locale: Locale) => {
+  activeLocale = locale;
+};
+
+export const intlLocale = (locale: Locale = activeLocale) => INTL_LOCALES[locale];
+
+// Terjemahkan kunci lalu isi parameter {nama}; kunci yang belum diterjemahkan jatuh ke bahasa default
+export const createTranslator = (locale: Locale): Translate => (key, params) => {
+  const template = CATALOGS[locale][key] ?? CATALOGS[DEFAULT_LOCALE][key] ?? key;
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+};
+
+export const translate: Translate = (key, params) => createTranslator(activeLocale)(key, params);
+
+// Pilihan bahasa disimpan per user; tanpa user (halaman login) dipakai pilihan terakhir di perangkat ini
+const storageKey = (userId?: number) => (userId === undefined ? LOCALE_STORAGE_KEY : `${LOCALE_STORAGE_KEY}.${userId}`);
+
+export const loadLocalePreference = (userId?: number): Locale | null => {
+  try {
+    const saved = window.localStorage.getItem(storageKey(userId));
+    return isLocale(saved) ? saved : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+export const saveLocalePreference = (locale: Locale, userId?: number) => {
+  window.localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+  if (userId !== undefined) {
+    window.localStorage.setItem(storageKey(userId), locale);
+  }
+};
@@ -0,0 +1,524 @@
+import type { MessageKey } from '../i18n';
+
+// English catalog; every key in id.ts must be present here
+const en: Record<MessageKey, string> = {
+  'app.title': 'Patient Management System',
+  'app.tagline': 'Manage patient records with ease',
+  'app.metaDescription': 'Patient CRUD with NestJS and NextJS',
+  'app.footer': 'Patient Management System © 2025',
+
+  'common.cancel': 'Cancel',
+  'common.saving': 'Saving...',
+  'common.loading': 'Loading...',
+  'common.retry': 'Retry',
+  'common.close': 'Close',
+  'common.discard': 'Discard',
+  'common.pendingSync': 'Waiting to sync',
+  'common.all': 'All',
+  'common.apply': 'Apply',
+  'common.reset': 'Reset',
+  'common.backToList': 'Back to Patient List',
+  'common.deleting': 'Deleting...',
+  'common.reload': '🔄 Reload',
+
+  'userBar.logout': 'Log out',
+  'userBar.language': 'Language',
+  'userBar.confirmLogoutQueued': '{count} offline changes have not been synced and will be deleted when you log out. Log out anyway?',
+
+  'field.nama': 'Full Name',
+  'field.nik': 'NIK',
+  'field.tanggal_lahir': 'Date of Birth',
+  'field.jenis_kelamin': 'Sex',
+  'field.alamat': 'Address',
+  'field.no_telepon': 'Phone No.',
+  'field.email': 'Email',
+  'field.provinsi_kode': 'Province',
+  'field.kabupaten_kode': 'Regency/City',
+  'field.kecamatan_kode': 'District',
+  'field.kelurahan_kode': 'Village',
+  'field.jalan': 'Street & House Number',
+  'field.rt': 'RT (neighbourhood)',
+  'field.rw': 'RW (hamlet)',
+  'field.kode_pos': 'Postal Code',
+  'field.golongan_darah': 'Blood Type',
+
+  'gender.Laki-laki': 'Male',
+  'gender.Perempuan': 'Female',
+
+  'patientForm.namaPlaceholder': 'Enter full name',
+  'patientForm.nikPlaceholder': 'Enter NIK (16 digits)',
+  'patientForm.province': 'Province: {name}',
+  'patientForm.autoFillFromNik': 'Fill date of birth & sex from NIK',
+  'patientForm.selectGender': 'Select Sex',
+  'patientForm.phonePlaceholder': 'e.g. 081234567890',
+  'patientForm.selectBloodType': 'Select Blood Type',
+  'patientForm.emailPlaceholder': 'e.g. email@example.com',
+  'patientForm.addressSection': 'Address',
+  'patientForm.selectProvince': 'Select Province',
+  'patientForm.selectRegency': 'Select Regency/City',
+  'patientForm.selectDistrict': 'Select District',
+  'patientForm.selectVillage': 'Select Village',
+  'patientForm.noRegionData': 'No region data yet for the selection above',
+  'patientForm.regionFromNik': 'Region pre-selected from the NIK region code',
+  'patientForm.jalanPlaceholder': 'e.g. Jl. Merdeka No. 10',
+  'patientForm.composedAddress': 'The full address is composed from the fields above.',
+  'patientForm.legacyAddress': 'The old free-text address is kept until the structured address is filled in.',
+  'patientForm.update': '💾 Update',
+  'patientForm.save': '💾 Save',
+  'patientForm.loadingRegions': 'Loading region data...',
+
+  'validation.required': '{field} is required',
+  'validation.namaRequired': 'Name is required',
+  'validation.nikRequired': 'NIK is required',
+  'validation.tanggalLahirRequired': 'Date of birth is required',
+  'validation.jenisKelaminRequired': 'Sex is required',
+  'validation.alamatRequired': 'Address is required',
+  'validation.noTeleponRequired': 'Phone number is required',
+  'validation.golonganDarahRequired': 'Blood type is required',
+  'validation.emailInvalid': 'Invalid email format',
+
+  'phone.invalidCharacters': 'Phone numbers may only contain digits, spaces, hyphens or a leading +',
+  'phone.foreign': 'Only Indonesian numbers (+62) are supported',
+  'phone.missingPrefix': 'Phone numbers must start with 0, 62 or +62',
+  'phone.invalidMobile': 'Invalid mobile number (e.g. 0812-3456-7890)',
+  'phone.invalidLandline': 'Invalid landline number (e.g. (021) 5555-1234)',
+
+  'address.unknownRegion': 'Unknown region',
+  'address.regionMismatch': 'Not within the region selected above',
+  'address.rtRwInvalid': 'Must be 1–3 digits',
+  'address.postalCodeInvalid': 'Postal code must be 5 digits',
+
+  'fhir.invalidJson': 'The file is not valid JSON',
+  'fhir.notBundle': 'The file is not a FHIR Bundle or Patient resource',
+  'fhir.emptyBundle': 'The Bundle has no entries',
+  'fhir.notPatient': 'The entry holds a {type} resource, not a Patient',
+  'fhir.unsupportedGender': 'FHIR gender "{value}" cannot be mapped to a sex',
+  'fhir.invalidPatient': 'The Patient resource does not follow the FHIR format',
+
+  'nik.digitsOnly': 'NIK may only contain digits',
+  'nik.length': 'NIK must be 16 digits long',
+  'nik.unknownProvince': 'Unknown province code {code} in NIK',
+  'nik.invalidRegion': 'Invalid regency/district code in NIK',
+  'nik.invalidSerial': 'Invalid serial number in NIK',
+  'nik.invalidBirthDate': 'Invalid date of birth in NIK',
+  'nik.birthDateMismatch': 'The date of birth in the NIK ({date}) differs from the date of birth entered',
+  'nik.genderMismatch': 'The sex in the NIK ({gender}) differs from the sex entered',
+
+  'home.addPatient': '+ Add New Patient',
+  'home.closeForm': '✕ Close Form',
+  'home.import': '📥 Import CSV/Excel/FHIR',
+  'home.queue': '📋 Visit Queue',
+  'home.dashboard': '📊 Statistics',
+  'home.scan': '📷 Scan Card',
+  'home.trash': '🗑️ Trash',
+  'home.filter': '🔎 Filter',
+  'home.searchPlaceholder': 'Search by name or NIK...',
+  'home.filterLabel': 'Filters:',
+  'home.removeFilter': 'Remove filter {label}',
+  'home.resetFilters': 'Reset filters',
+  'home.editTitle': '✏️ Edit Patient',
+  'home.addTitle': '📝 New Patient Form',
+  'home.listTitle': '📋 Patient List ({total})',
+  'home.exportCsv': '⬇️ Export CSV',
+  'home.exportFhir': '⬇️ Export FHIR',
+  'home.print': '🖨️ Print / PDF',
+  'home.printCard': 'Print Card',
+  'home.printCards': '🪪 Print Cards ({count})',
+  'home.cardFailed': 'Failed to create the patient cards',
+  'home.selectPage': 'Select all patients on this page',
+  'home.selectPatient': 'Select {name}',
+  'home.clearSelection': 'Clear selection',
+  'home.cachedNotice': '📴 Server unreachable. Showing data saved at {time}.',
+  'home.noMatchSearch': 'No patients match "{q}"',
+  'home.noMatchFilters': 'No patients match the selected filters',
+  'home.noMatchSearchAndFilters': 'No patients match "{q}" and the selected filters',
+  'home.empty': 'No patient records',
+  'home.emptyHint': 'Click "Add New Patient" to add one',
+  'home.col.no': 'No.',
+  'home.col.nama': 'Name',
+  'home.col.nik': 'NIK',
+  'home.col.tanggalLahir': 'Date of Birth',
+  'home.col.jenisKelamin': 'Sex',
+  'home.col.noTelepon': 'Phone',
+  'home.col.golonganDarah': 'Blood Type',
+  'home.col.createdAt': 'Registered',
+  'home.col.actions': 'Actions',
+  'home.availableAfterSync': 'Available after sync',
+  'home.detail': '👁️ Details',
+  'home.edit': '✏️ Edit',
+  'home.delete': '🗑️ Delete',
+  'home.created': 'New patient added!',
+  'home.updated': 'Patient record updated!',
+  'home.saveFailed': 'Something went wrong while saving',
+  'home.keptTheirs': 'Your changes were discarded; the latest data is shown.',
+  'home.movedToTrash': '{nama} moved to the Trash.',
+  'home.deleteFailed': 'Failed to delete the patient',
+  'home.fetchFailed': 'Failed to load patients. Make sure the backend is running.',
+  'home.popupBlocked': 'The print window was blocked by the browser. Allow pop-ups for this site.',
+  'home.exportFailed': 'Failed to export patients',
+  'home.printAll': 'All patients',
+  'home.printSearch': 'Search "{q}"',
+  'home.normalizePhones': '📞 Clean Up Phone Numbers',
+  'home.exportFileName': 'patient-list',
+
+  'filters.gender': 'Sex: {value}',
+  'filters.bloodType': 'Blood type: {value}',
+  'filters.ageMin': 'Age ≥ {min}',
+  'filters.ageMax': 'Age ≤ {max}',
+  'filters.ageRange': 'Age {min}–{max}',
+  'filters.created': 'Registered {from} to {to}',
+  'filters.hasEmail': 'Has email',
+  'filters.missingEmail': 'No email',
+  'filters.province': 'Province: {value}',
+  'filters.ageYears': 'Age (years)',
+  'filters.min': 'Min',
+  'filters.max': 'Max',
+  'filters.ageMinLabel': 'Minimum age',
+  'filters.ageMaxLabel': 'Maximum age',
+  'filters.registeredDate': 'Registration Date',
+  'filters.registeredFrom': 'Registered from',
+  'filters.registeredTo': 'Registered until',
+  'filters.ageRangeInvalid': 'Minimum age cannot be greater than maximum age',
+  'filters.dateRangeInvalid': 'Start date cannot be after end date',
+  'filters.presetPlaceholder': 'Saved presets...',
+  'filters.presetAria': 'Filter preset',
+  'filters.deletePreset': 'Delete Preset',
+  'filters.newPresetPlaceholder': 'New preset name',
+  'filters.savePreset': '💾 Save Filter',
+  'filters.confirmOverwrite': 'Preset "{name}" already exists. Overwrite?',
+  'filters.confirmDelete': 'Delete preset "{name}"?',
+
+  'phoneTool.title': '📞 Clean Up Phone Numbers',
+  'phoneTool.description':
+    'Convert existing phone numbers to the standard +62 (E.164) format. Review the preview below, then apply the selected changes.',
+  'phoneTool.back': '← Back to Patient List',
+  'phoneTool.reload': '🔄 Reload',
+  'phoneTool.fetchFailed': 'Failed to load patients',
+  'phoneTool.summary': '{total} patients checked: {changes} to clean up, {invalid} invalid, the rest are already clean.',
+  'phoneTool.nothingToDo': 'All phone numbers are already in the standard format.',
+  'phoneTool.changesTitle': 'To Clean Up ({count})',
+  'phoneTool.invalidTitle': 'Needs Manual Fix ({count})',
+  'phoneTool.invalidHint': 'These numbers are not recognised as Indonesian numbers. Open the patient to fix them.',
+  'phoneTool.colCurrent': 'Current Value',
+  'phoneTool.colNew': 'Becomes',
+  'phoneTool.colProblem': 'Problem',
+  'phoneTool.selectAll': 'Select all',
+  'phoneTool.apply': '✅ Apply {count} Changes',
+  'phoneTool.applying': 'Applying {done}/{total}...',
+  'phoneTool.result': '{updated} numbers cleaned up.',
+  'phoneTool.resultFailed': '{failed} failed, see the table for details.',
+  'phoneTool.confirm': 'Apply {count} phone number changes?',
+  'phoneTool.done': '✅ Saved',
+
+  'scan.title': '📷 Scan Patient Card',
+  'scan.description': 'Scan the QR code on a patient card with a scanner, or type the MRN (e.g. RM-000123) and press Enter.',
+  'scan.placeholder': 'MRN or scanned code',
+  'scan.submit': 'Find',
+  'scan.searching': 'Searching...',
+  'scan.invalidCode': '"{code}" is not a valid MRN',
+  'scan.notFound': 'No patient found with number {code}',
+  'scan.failed': 'Failed to look up the patient',
+  'scan.back': '← Back to Patient List',
+
+  'pagination.show': 'Show',
+  'pagination.perPage': 'per page',
+  'pagination.summary': 'Showing {from}–{to} of {total} patients',
+  'pagination.previous': '‹ Previous',
+  'pagination.next': 'Next ›',
+
+  'conflict.title': '⚠️ Patient Record Was Changed',
+  'conflict.description':
+    'Another user saved changes at {time} after you opened this form. Fields only they changed already follow the latest version; choose which value to keep for fields you both changed.',
+  'conflict.noConflicts': 'Your changes do not overlap with the other user\'s; both will be saved together.',
+  'conflict.field': 'Field',
+  'conflict.mine': 'Your Value',
+  'conflict.theirs': 'Latest Value (server)',
+  'conflict.allMine': 'Choose All Mine',
+  'conflict.allTheirs': 'Choose All Latest',
+  'conflict.discardMine': 'Discard My Changes',
+  'conflict.saveMerged': '💾 Save Merged',
+  'conflict.error': 'The patient data was changed by another user after you opened it',
+
+  'merge.failed': 'Failed to merge the patient records',
+  'merge.partialNotDeleted':
+    'The merged data was saved, but the duplicate (ID {id}) could not be moved to the Trash and the original data could not be restored ({reason}). Move the duplicate to the Trash manually.',
+  'merge.partialNikNotMoved':
+    'The merged data was saved and the duplicate (ID {id}) is in the Trash, but NIK {nik} was not moved to the kept patient. Update the NIK manually.',
+  'merge.pageTitle': 'Merge Patient Records',
+  'merge.title': '🔗 Merge Patient Records',
+  'merge.description':
+    'Choose the record to keep and the value to use for each field. The other record will be moved to the Trash; its visits and change history move to the kept record.',
+  'merge.notFoundHint': 'Choose two different existing patient records to merge.',
+  'merge.kept': 'ID {id} — kept',
+  'merge.toTrash': 'ID {id} — to Trash',
+  'merge.registeredAt': 'Registered {time}',
+  'merge.merging': 'Merging...',
+  'merge.submit': '🔗 Merge & Discard ID {id}',
+  'merge.confirm': '{nama} (ID {id}) will be merged into ID {survivorId} and then moved to the Trash. Continue?',
+  'merge.needsOnline': 'Merging needs a connection to the server.',
+  'merge.openSurvivor': 'Open the kept patient record',
+  'merge.duplicateHasVisits':
+    'The backend does not support merging on the server yet, so the {count} visits of ID {id} cannot be moved and would be lost if the duplicate is purged. The merge was cancelled.',
+
+  'duplicate.title': '⚠️ Patient May Already Be Registered',
+  'duplicate.found': 'Found {count} patients similar to',
+  'duplicate.details': '(NIK {nik}, born {date}). Check them before registering a new patient.',
+  'duplicate.reason': 'Reason',
+  'duplicate.reason.nik': 'Nearly identical NIK',
+  'duplicate.reason.nama-tanggal-lahir': 'Similar name & same date of birth',
+  'duplicate.view': 'View ↗',
+  'duplicate.back': 'Back to Form',
+  'duplicate.createAnyway': 'Register as a New Patient Anyway',
+
+  'offline.queued': 'No connection. The change was saved on this device and will be sent when you are back online.',
+  'offline.banner':
+    '📴 You are offline. Data is shown from this device; changes will be sent automatically when you are back online.',
+  'offline.pending': 'changes waiting to sync',
+  'offline.syncing': 'Syncing...',
+  'offline.syncNow': '🔄 Sync Now',
+  'offline.synced': '{count} offline changes sent',
+  'offline.syncedRejected': ', {count} rejected by the server',
+  'offline.rejectedTitle': '❌ Offline changes rejected by the server ({count})',
+  'offline.queuedAt': 'Made offline: {time}',
+  'offline.mutation.create': 'Add',
+  'offline.mutation.update': 'Edit',
+  'offline.mutation.delete': 'Delete',
+  'offline.createRejected': 'The server rejected this new patient\'s registration, so the change cannot be sent',
+  'offline.deleteQueued': 'Deletion saved offline',
+  'offline.rejectedByServer': 'Rejected by the server',
+
+  'undo.undo': '↩️ Undo',
+  'undo.restoring': 'Restoring...',
+  'undo.failed': 'Failed to undo the deletion',
+
+  'role.admin': 'Admin',
+  'role.front-desk': 'Front desk',
+
+  'login.invalidCredentials': 'Incorrect username or password',
+  'login.title': 'Sign In',
+  'login.subtitle': 'Sign in to continue',
+  'login.username': 'Username',
+  'login.password': 'Password',
+  'login.submit': 'Sign In',
+  'login.submitting': 'Signing in...',
+  'login.required': 'Username and password are required',
+  'login.failed': 'Failed to sign in',
+  'login.stubMode': 'Development mode (stub auth):',
+
+  'authGuard.denied': '⛔ Access denied',
+  'authGuard.deniedHint': 'Your role is not allowed to open this page.',
+
+  'chart.noData': 'No data.',
+
+  'stats.age.toddler': 'Toddlers (0–5)',
+  'stats.age.child': 'Children & teens (6–17)',
+  'stats.age.adult': 'Adults (18–39)',
+  'stats.age.middle': 'Middle-aged (40–59)',
+  'stats.age.senior': 'Seniors (60+)',
+  'stats.unknownBloodType': 'Unknown',
+  'stats.unstructured': 'Not structured',
+
+  'purge.title': '⚠️ Delete Permanently',
+  'purge.record': 'The record of',
+  'purge.willBeDeleted': '(NIK {nik}) will be deleted forever and cannot be restored.',
+  'purge.confirmLabel': 'Type the patient\'s name to confirm',
+  'purge.submit': 'Delete Permanently',
+
+  'history.title': '🕘 Change History',
+  'history.loading': 'Loading history...',
+  'history.empty': 'No changes recorded yet.',
+  'history.fetchFailed': 'Failed to load the change history',
+  'history.by': 'by',
+  'history.revertVersion': '↩️ Restore this version',
+  'history.revertField': 'Restore old value',
+  'history.confirmRevertField': 'Restore {field} to "{value}"?',
+  'history.confirmRevertVersion': 'Restore all patient data to the version from {time}?',
+  'history.action.create': 'Registered',
+  'history.action.update': 'Changed',
+  'history.action.delete': 'Moved to Trash',
+  'history.action.restore': 'Restored from Trash',
+
+  'visitField.tanggal_kunjungan': 'Visit Date',
+  'visitField.poli': 'Clinic',
+  'visitField.keluhan': 'Complaint',
+  'visitField.diagnosis_kode': 'Diagnosis Code (ICD-10)',
+  'visitField.diagnosis_teks': 'Diagnosis',
+  'visitField.dokter': 'Doctor',
+  'visitField.status': 'Status',
+
+  'visitStatus.menunggu': 'Waiting',
+  'visitStatus.diperiksa': 'In Examination',
+  'visitStatus.selesai': 'Done',
+  'visitStatus.batal': 'Cancelled',
+
+  'poli.Umum': 'General',
+  'poli.Gigi': 'Dental',
+  'poli.Anak': 'Pediatrics',
+  'poli.Kandungan': 'Obstetrics & Gynecology',
+  'poli.Penyakit Dalam': 'Internal Medicine',
+  'poli.Mata': 'Ophthalmology',
+  'poli.THT': 'ENT',
+
+  'visitValidation.dateRequired': 'Visit date is required',
+  'visitValidation.poliRequired': 'Choose the destination clinic',
+  'visitValidation.keluhanRequired': 'Complaint is required',
+  'visitValidation.dokterRequired': 'Doctor is required',
+  'visitValidation.statusInvalid': 'Invalid status',
+  'visitValidation.icd10Invalid': 'Invalid ICD-10 code format (example: J06.9)',
+  'visitValidation.diagnosisTextRequired': 'Enter the diagnosis description for this code',
+  'visitValidation.diagnosisRequired': 'A finished visit must have a diagnosis',
+
+  'visitForm.selectPoli': 'Choose Clinic',
+  'visitForm.dokterPlaceholder': 'Example: dr. Andi Pratama',
+  'visitForm.keluhanPlaceholder': 'Patient\'s main complaint',
+  'visitForm.icd10Placeholder': 'Example: J06.9',
+  'visitForm.diagnosisPlaceholder': 'Example: Acute upper respiratory infection',
+  'visitForm.update': '💾 Update Visit',
+  'visitForm.save': '💾 Register Visit',
+
+  'visits.title': '🩺 Visits',
+  'visits.add': '+ Register Visit',
+  'visits.newTitle': '📝 New Visit',
+  'visits.editTitle': '✏️ Edit Visit {date}',
+  'visits.loading': 'Loading visits...',
+  'visits.empty': 'No visits yet.',
+  'visits.col.date': 'Date',
+  'visits.queueNumber': 'No. {number}',
+  'visits.created': 'Visit registered at the {poli} clinic with queue number {number}.',
+  'visits.updated': 'Visit updated.',
+  'visits.deleted': 'Visit deleted.',
+  'visits.confirmDelete': 'Delete the {date} visit at the {poli} clinic?',
+  'visits.fetchFailed': 'Failed to load the visit history',
+  'visits.saveFailed': 'Failed to save the visit',
+  'visits.deleteFailed': 'Failed to delete the visit',
+
+  'import.emptyFile': 'The file contains no data',
+  'import.pageTitle': 'Import Patient Data',
+  'import.title': '📥 Import Patient Data',
+  'import.description':
+    'Upload a CSV or Excel (.xlsx) file, match the columns, check the result, then import. FHIR Bundles (.json) are mapped directly without matching columns.',
+  'import.step.file': '1. Choose File',
+  'import.step.mapping': '2. Match Columns',
+  'import.step.preview': '{step}. Preview ({valid} valid, {invalid} with problems)',
+  'import.spreadsheetSummary': '{rows} data rows, {columns} columns',
+  'import.bundleSummary': 'FHIR Bundle with {count} entries',
+  'import.noColumn': '— None —',
+  'import.col.row': 'Row',
+  'import.col.entry': 'Entry',
+  'import.col.status': 'Status',
+  'import.unit.row': 'row',
+  'import.unit.entry': 'entry',
+  'import.importing': 'Importing...',
+  'import.submitRows': 'Import {count} Valid Rows',
+  'import.submitEntries': 'Import {count} Valid Entries',
+  'import.progress': '{completed} / {total} processed',
+  'import.created': '{count} patients added',
+  'import.rejected': '{count} rejected by the server',
+  'import.reportRows': '⬇️ Download Failed Rows Report',
+  'import.reportEntries': '⬇️ Download Failed Entries Report',
+  'import.reportReason': 'reason',
+  'import.reportFileName': 'failed-import-report',
+  'import.valid': '✅ Valid',
+  'import.duplicateNik': 'Same NIK as {unit} {row}',
+  'import.readFailed': 'Failed to read the file',
+  'import.existingNik': 'NIK already registered (patient #{id})',
+  'import.checkingNiks': 'Checking NIKs...',
+  'import.nikCheckFailed': 'Could not check NIKs against the server. Registered NIKs will be rejected during import.',
+  'import.loadingRegions': 'Loading region data to check the addresses...',
+
+  'trash.pageTitle': 'Trash',
+  'trash.title': '🗑️ Trash ({total})',
+  'trash.description': 'Deleted patients can be restored from here.',
+  'trash.empty': 'The Trash is empty',
+  'trash.col.deletedAt': 'Deleted',
+  'trash.restore': '↩️ Restore',
+  'trash.purge': '❌ Delete Permanently',
+  'trash.restored': '{nama} was restored.',
+  'trash.purged': '{nama} was deleted permanently.',
+  'trash.fetchFailed': 'Failed to load the Trash',
+  'trash.restoreFailed': 'Failed to restore the patient',
+  'trash.purgeFailed': 'Failed to permanently delete the patient',
+
+  'queue.pageTitle': 'Visit Queue',
+  'queue.titleToday': '📋 Today\'s Queue',
+  'queue.titleDate': '📋 Queue for {date}',
+  'queue.poliSuffix': '{poli} clinic',
+  'queue.allPoli': 'All Clinics',
+  'queue.allStatus': 'All Statuses',
+  'queue.empty': 'No visits',
+  'queue.emptyHint': 'Register visits from the patient detail page.',
+  'queue.col.patient': 'Patient',
+  'queue.call': '▶️ Call',
+  'queue.finish': '✅ Finish',
+  'queue.cancelVisit': 'Cancel',
+  'queue.finishTitle': '✅ Finish Visit — {nama} ({poli} clinic, no. {number})',
+  'queue.fetchFailed': 'Failed to load the queue',
+  'queue.statusFailed': 'Failed to update the visit status',
+
+  'dashboard.pageTitle': 'Patient Statistics',
+  'dashboard.title': '📊 Patient Statistics',
+  'dashboard.description': 'Registration date range: {range}. Click a bar to open the matching patient list.',
+  'dashboard.rangeStart': 'start',
+  'dashboard.rangeNow': 'now',
+  'dashboard.allTime': 'All time',
+  'dashboard.range.30days': '30 Days',
+  'dashboard.range.12months': '12 Months',
+  'dashboard.range.thisYear': 'This Year',
+  'dashboard.from': 'From',
+  'dashboard.to': 'To',
+  'dashboard.totalPatients': 'Total Patients',
+  'dashboard.inRange': 'Registered in This Range',
+  'dashboard.registrations': 'New Registrations',
+  'dashboard.perWeek': 'Weekly',
+  'dashboard.perMonth': 'Monthly',
+  'dashboard.ageGroups': 'Age Groups',
+  'dashboard.averageAge': 'Average age: {age} years',
+  'dashboard.fetchFailed': 'Failed to load the patient data',
+
+  'detail.pageTitle': 'Patient Details',
+  'detail.notFound': 'Patient not found',
+  'detail.notFoundHint': 'No patient with ID {id} exists, or it has been deleted.',
+  'detail.patientNumber': 'MRN',
+  'detail.age': 'Age',
+  'detail.ageYears': '{age} years',
+  'detail.createdAt': 'Registered: {time}',
+  'detail.updatedAt': 'Last updated: {time}',
+  'detail.printCard': '🪪 Print Card',
+  'detail.checkDuplicates': '🔍 Check Duplicates',
+  'detail.duplicatesTitle': 'Possible Duplicates',
+  'detail.noDuplicates': 'No similar patients found.',
+  'detail.duplicateDetails': 'NIK {nik}, born {date}',
+  'detail.duplicatesFailed': 'Failed to search for duplicates',
+  'detail.merge': '🔗 Merge',
+  'detail.reverted': 'Patient data restored.',
+  'detail.revertFailed': 'Failed to restore the patient data',
+  'detail.fhirFileName': 'patient',
+
+  'api.unknownError': 'Something went wrong',
+  'api.timeout': 'The server is not responding, try again in a moment',
+  'api.networkError': 'Cannot connect to the server. Make sure the backend is running.',
+  'api.offline': 'No internet connection',
+  'api.checkMarkedFields': 'Check the highlighted fields',
+
+  'schema.invalidResponse': 'The patient data from the server is not in the expected format',
+  'schema.notObject': '{path} must be an object',
+  'schema.notArray': '{path} must be an array',
+  'schema.required': '{path} is required',
+  'schema.notNumber': '{path} must be a number',
+  'schema.notString': '{path} must be a string',
+
+  'report.title': 'Patient List Report',
+  'report.generatedAt': 'Generated: {time}',
+  'report.filter': 'Filter: {filter}',
+  'report.count': 'Count: {count} patients',
+
+  'card.pageTitle': 'Patient Cards',
+  'card.title': 'PATIENT CARD',
+  'card.name': 'Name',
+  'card.number': 'MRN',
+  'card.nik': 'NIK',
+  'card.birthDate': 'Date of Birth',
+  'card.bloodType': 'Blood Type',
+};
+
+export default en;
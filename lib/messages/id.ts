@@ -0,0 +1,525 @@
+// Katalog pesan Bahasa Indonesia (bahasa default). Kunci baru ditambahkan di sini dulu,
+// lalu di en.ts; parameter ditulis sebagai {nama}.
+const id = {
+  'app.title': 'Sistem Manajemen Pasien',
+  'app.tagline': 'Kelola data pasien dengan mudah',
+  'app.metaDescription': 'CRUD Pasien dengan NestJS dan NextJS',
+  'app.footer': 'Patient Management System © 2025',
+
+  'common.cancel': 'Batal',
+  'common.saving': 'Menyimpan...',
+  'common.loading': 'Memuat data...',
+  'common.retry': 'Coba Lagi',
+  'common.close': 'Tutup',
+  'common.discard': 'Buang',
+  'common.pendingSync': 'Menunggu sinkron',
+  'common.all': 'Semua',
+  'common.apply': 'Terapkan',
+  'common.reset': 'Reset',
+  'common.backToList': 'Kembali ke Daftar Pasien',
+  'common.deleting': 'Menghapus...',
+  'common.reload': '🔄 Muat Ulang',
+
+  'userBar.logout': 'Keluar',
+  'userBar.language': 'Bahasa',
+  'userBar.confirmLogoutQueued': '{count} perubahan offline belum tersinkron dan akan dihapus saat keluar. Tetap keluar?',
+
+  'field.nama': 'Nama Lengkap',
+  'field.nik': 'NIK',
+  'field.tanggal_lahir': 'Tanggal Lahir',
+  'field.jenis_kelamin': 'Jenis Kelamin',
+  'field.alamat': 'Alamat',
+  'field.no_telepon': 'No. Telepon',
+  'field.email': 'Email',
+  'field.provinsi_kode': 'Provinsi',
+  'field.kabupaten_kode': 'Kabupaten/Kota',
+  'field.kecamatan_kode': 'Kecamatan',
+  'field.kelurahan_kode': 'Kelurahan/Desa',
+  'field.jalan': 'Jalan & Nomor Rumah',
+  'field.rt': 'RT',
+  'field.rw': 'RW',
+  'field.kode_pos': 'Kode Pos',
+  'field.golongan_darah': 'Golongan Darah',
+
+  // Label tampilan untuk nilai enum yang disimpan apa adanya
+  'gender.Laki-laki': 'Laki-laki',
+  'gender.Perempuan': 'Perempuan',
+
+  'patientForm.namaPlaceholder': 'Masukkan nama lengkap',
+  'patientForm.nikPlaceholder': 'Masukkan NIK (16 digit)',
+  'patientForm.province': 'Provinsi: {name}',
+  'patientForm.autoFillFromNik': 'Isi tanggal lahir & jenis kelamin dari NIK',
+  'patientForm.selectGender': 'Pilih Jenis Kelamin',
+  'patientForm.phonePlaceholder': 'Contoh: 081234567890',
+  'patientForm.selectBloodType': 'Pilih Golongan Darah',
+  'patientForm.emailPlaceholder': 'Contoh: email@example.com',
+  'patientForm.addressSection': 'Alamat',
+  'patientForm.selectProvince': 'Pilih Provinsi',
+  'patientForm.selectRegency': 'Pilih Kabupaten/Kota',
+  'patientForm.selectDistrict': 'Pilih Kecamatan',
+  'patientForm.selectVillage': 'Pilih Kelurahan/Desa',
+  'patientForm.noRegionData': 'Belum ada data wilayah untuk pilihan di atas',
+  'patientForm.regionFromNik': 'Wilayah dipilih otomatis dari kode wilayah NIK',
+  'patientForm.jalanPlaceholder': 'Contoh: Jl. Merdeka No. 10',
+  'patientForm.composedAddress': 'Alamat lengkap tersusun dari isian di atas.',
+  'patientForm.legacyAddress': 'Alamat lama (teks bebas) tetap dipakai sampai alamat terstruktur diisi.',
+  'patientForm.update': '💾 Update Data',
+  'patientForm.save': '💾 Simpan Data',
+  'patientForm.loadingRegions': 'Memuat data wilayah...',
+
+  'validation.required': '{field} tidak boleh kosong',
+  'validation.namaRequired': 'Nama tidak boleh kosong',
+  'validation.nikRequired': 'NIK tidak boleh kosong',
+  'validation.tanggalLahirRequired': 'Tanggal lahir tidak boleh kosong',
+  'validation.jenisKelaminRequired': 'Jenis kelamin tidak boleh kosong',
+  'validation.alamatRequired': 'Alamat tidak boleh kosong',
+  'validation.noTeleponRequired': 'No telepon tidak boleh kosong',
+  'validation.golonganDarahRequired': 'Golongan darah tidak boleh kosong',
+  'validation.emailInvalid': 'Format email tidak valid',
+
+  'phone.invalidCharacters': 'No telepon hanya boleh berisi angka, spasi, tanda hubung, atau + di depan',
+  'phone.foreign': 'Hanya nomor Indonesia (+62) yang didukung',
+  'phone.missingPrefix': 'No telepon harus diawali 0, 62, atau +62',
+  'phone.invalidMobile': 'Nomor HP tidak valid (contoh: 0812-3456-7890)',
+  'phone.invalidLandline': 'Nomor telepon rumah/kantor tidak valid (contoh: (021) 5555-1234)',
+
+  'address.unknownRegion': 'Wilayah tidak dikenal',
+  'address.regionMismatch': 'Tidak berada di wilayah yang dipilih di atasnya',
+  'address.rtRwInvalid': 'Harus berupa 1–3 digit angka',
+  'address.postalCodeInvalid': 'Kode pos harus 5 digit angka',
+
+  'fhir.invalidJson': 'File bukan JSON yang valid',
+  'fhir.notBundle': 'File bukan FHIR Bundle atau resource Patient',
+  'fhir.emptyBundle': 'Bundle tidak berisi entry',
+  'fhir.notPatient': 'Entry berisi resource {type}, bukan Patient',
+  'fhir.unsupportedGender': 'Gender FHIR "{value}" tidak bisa dipetakan ke jenis kelamin',
+  'fhir.invalidPatient': 'Resource Patient tidak sesuai format FHIR',
+
+  'nik.digitsOnly': 'NIK hanya boleh berisi angka',
+  'nik.length': 'NIK harus terdiri dari 16 digit',
+  'nik.unknownProvince': 'Kode provinsi {code} pada NIK tidak dikenal',
+  'nik.invalidRegion': 'Kode kabupaten/kecamatan pada NIK tidak valid',
+  'nik.invalidSerial': 'Nomor urut pada NIK tidak valid',
+  'nik.invalidBirthDate': 'Tanggal lahir pada NIK tidak valid',
+  'nik.birthDateMismatch': 'Tanggal lahir pada NIK ({date}) berbeda dengan tanggal lahir yang diisi',
+  'nik.genderMismatch': 'Jenis kelamin pada NIK ({gender}) berbeda dengan jenis kelamin yang diisi',
+
+  'home.addPatient': '+ Tambah Pasien Baru',
+  'home.closeForm': '✕ Tutup Form',
+  'home.import': '📥 Impor CSV/Excel/FHIR',
+  'home.queue': '📋 Antrean Kunjungan',
+  'home.dashboard': '📊 Statistik',
+  'home.scan': '📷 Pindai Kartu',
+  'home.trash': '🗑️ Sampah',
+  'home.filter': '🔎 Filter',
+  'home.searchPlaceholder': 'Cari berdasarkan nama atau NIK...',
+  'home.filterLabel': 'Filter:',
+  'home.removeFilter': 'Hapus filter {label}',
+  'home.resetFilters': 'Reset filter',
+  'home.editTitle': '✏️ Edit Data Pasien',
+  'home.addTitle': '📝 Form Tambah Pasien',
+  'home.listTitle': '📋 Daftar Pasien ({total})',
+  'home.exportCsv': '⬇️ Ekspor CSV',
+  'home.exportFhir': '⬇️ Ekspor FHIR',
+  'home.print': '🖨️ Cetak / PDF',
+  'home.printCard': 'Cetak Kartu',
+  'home.printCards': '🪪 Cetak Kartu ({count})',
+  'home.cardFailed': 'Gagal membuat kartu pasien',
+  'home.selectPage': 'Pilih semua pasien di halaman ini',
+  'home.selectPatient': 'Pilih {name}',
+  'home.clearSelection': 'Batalkan pilihan',
+  'home.cachedNotice': '📴 Server tidak terjangkau. Menampilkan data tersimpan dari {time}.',
+  'home.noMatchSearch': 'Tidak ada pasien yang cocok dengan "{q}"',
+  'home.noMatchFilters': 'Tidak ada pasien yang cocok dengan filter yang dipilih',
+  'home.noMatchSearchAndFilters': 'Tidak ada pasien yang cocok dengan "{q}" dan filter yang dipilih',
+  'home.empty': 'Tidak ada data pasien',
+  'home.emptyHint': 'Klik "Tambah Pasien Baru" untuk menambahkan data',
+  'home.col.no': 'No',
+  'home.col.nama': 'Nama',
+  'home.col.nik': 'NIK',
+  'home.col.tanggalLahir': 'Tgl Lahir',
+  'home.col.jenisKelamin': 'Jenis Kelamin',
+  'home.col.noTelepon': 'No. Telp',
+  'home.col.golonganDarah': 'Gol. Darah',
+  'home.col.createdAt': 'Terdaftar',
+  'home.col.actions': 'Aksi',
+  'home.availableAfterSync': 'Tersedia setelah sinkron',
+  'home.detail': '👁️ Detail',
+  'home.edit': '✏️ Edit',
+  'home.delete': '🗑️ Hapus',
+  'home.created': 'Pasien baru berhasil ditambahkan!',
+  'home.updated': 'Data pasien berhasil diperbarui!',
+  'home.saveFailed': 'Terjadi kesalahan saat menyimpan data',
+  'home.keptTheirs': 'Perubahan Anda dibuang, data terbaru ditampilkan.',
+  'home.movedToTrash': '{nama} dipindahkan ke Sampah.',
+  'home.deleteFailed': 'Gagal menghapus data pasien',
+  'home.fetchFailed': 'Gagal mengambil data pasien. Pastikan backend sudah berjalan.',
+  'home.popupBlocked': 'Jendela cetak diblokir browser. Izinkan pop-up untuk situs ini.',
+  'home.exportFailed': 'Gagal mengekspor data pasien',
+  'home.printAll': 'Semua pasien',
+  'home.printSearch': 'Pencarian "{q}"',
+  'home.normalizePhones': '📞 Rapikan No. Telepon',
+  'home.exportFileName': 'daftar-pasien',
+
+  'filters.gender': 'Jenis kelamin: {value}',
+  'filters.bloodType': 'Gol. darah: {value}',
+  'filters.ageMin': 'Umur ≥ {min}',
+  'filters.ageMax': 'Umur ≤ {max}',
+  'filters.ageRange': 'Umur {min}–{max}',
+  'filters.created': 'Terdaftar {from} s/d {to}',
+  'filters.hasEmail': 'Punya email',
+  'filters.missingEmail': 'Tanpa email',
+  'filters.province': 'Provinsi: {value}',
+  'filters.ageYears': 'Umur (tahun)',
+  'filters.min': 'Min',
+  'filters.max': 'Maks',
+  'filters.ageMinLabel': 'Umur minimal',
+  'filters.ageMaxLabel': 'Umur maksimal',
+  'filters.registeredDate': 'Tanggal Terdaftar',
+  'filters.registeredFrom': 'Terdaftar dari',
+  'filters.registeredTo': 'Terdaftar sampai',
+  'filters.ageRangeInvalid': 'Umur minimal tidak boleh lebih besar dari umur maksimal',
+  'filters.dateRangeInvalid': 'Tanggal awal tidak boleh setelah tanggal akhir',
+  'filters.presetPlaceholder': 'Preset tersimpan...',
+  'filters.presetAria': 'Preset filter',
+  'filters.deletePreset': 'Hapus Preset',
+  'filters.newPresetPlaceholder': 'Nama preset baru',
+  'filters.savePreset': '💾 Simpan Filter',
+  'filters.confirmOverwrite': 'Preset "{name}" sudah ada. Timpa?',
+  'filters.confirmDelete': 'Hapus preset "{name}"?',
+
+  'phoneTool.title': '📞 Rapikan Nomor Telepon',
+  'phoneTool.description':
+    'Ubah nomor telepon lama ke format standar +62 (E.164). Periksa pratinjau di bawah, lalu terapkan perubahan yang dipilih.',
+  'phoneTool.back': '← Kembali ke Daftar Pasien',
+  'phoneTool.reload': '🔄 Muat Ulang',
+  'phoneTool.fetchFailed': 'Gagal mengambil data pasien',
+  'phoneTool.summary': '{total} pasien diperiksa: {changes} perlu dirapikan, {invalid} tidak valid, sisanya sudah rapi.',
+  'phoneTool.nothingToDo': 'Semua nomor telepon sudah dalam format standar.',
+  'phoneTool.changesTitle': 'Akan Dirapikan ({count})',
+  'phoneTool.invalidTitle': 'Perlu Diperbaiki Manual ({count})',
+  'phoneTool.invalidHint': 'Nomor ini tidak bisa dikenali sebagai nomor Indonesia. Buka detail pasien untuk memperbaikinya.',
+  'phoneTool.colCurrent': 'Nilai Sekarang',
+  'phoneTool.colNew': 'Menjadi',
+  'phoneTool.colProblem': 'Masalah',
+  'phoneTool.selectAll': 'Pilih semua',
+  'phoneTool.apply': '✅ Terapkan {count} Perubahan',
+  'phoneTool.applying': 'Menerapkan {done}/{total}...',
+  'phoneTool.result': '{updated} nomor berhasil dirapikan.',
+  'phoneTool.resultFailed': '{failed} gagal, lihat keterangan di tabel.',
+  'phoneTool.confirm': 'Terapkan {count} perubahan nomor telepon?',
+  'phoneTool.done': '✅ Tersimpan',
+
+  'scan.title': '📷 Pindai Kartu Pasien',
+  'scan.description': 'Pindai QR code di kartu pasien dengan scanner, atau ketik nomor RM (contoh: RM-000123) lalu tekan Enter.',
+  'scan.placeholder': 'Nomor RM atau hasil pindai',
+  'scan.submit': 'Cari',
+  'scan.searching': 'Mencari...',
+  'scan.invalidCode': '"{code}" bukan nomor RM yang valid',
+  'scan.notFound': 'Pasien dengan nomor {code} tidak ditemukan',
+  'scan.failed': 'Gagal mencari pasien',
+  'scan.back': '← Kembali ke Daftar Pasien',
+
+  'pagination.show': 'Tampilkan',
+  'pagination.perPage': 'per halaman',
+  'pagination.summary': 'Menampilkan {from}–{to} dari {total} pasien',
+  'pagination.previous': '‹ Sebelumnya',
+  'pagination.next': 'Berikutnya ›',
+
+  'conflict.title': '⚠️ Data Pasien Sudah Diubah',
+  'conflict.description':
+    'Pengguna lain menyimpan perubahan pada {time} setelah Anda membuka form ini. Field yang hanya diubah pengguna lain sudah mengikuti versi terbaru; pilih nilai yang ingin dipertahankan untuk field yang diubah kedua pihak.',
+  'conflict.noConflicts': 'Perubahan Anda tidak bertabrakan dengan perubahan pengguna lain; keduanya akan disimpan bersama.',
+  'conflict.field': 'Field',
+  'conflict.mine': 'Nilai Anda',
+  'conflict.theirs': 'Nilai Terbaru (server)',
+  'conflict.allMine': 'Pilih Semua Milik Saya',
+  'conflict.allTheirs': 'Pilih Semua Terbaru',
+  'conflict.discardMine': 'Buang Perubahan Saya',
+  'conflict.saveMerged': '💾 Simpan Gabungan',
+  'conflict.error': 'Data pasien telah diubah oleh pengguna lain sejak Anda membukanya',
+
+  'merge.failed': 'Gagal menggabungkan data pasien',
+  'merge.partialNotDeleted':
+    'Data gabungan sudah tersimpan, tetapi duplikat (ID {id}) gagal dipindahkan ke Sampah dan data semula tidak bisa dikembalikan ({reason}). Pindahkan duplikat ke Sampah secara manual.',
+  'merge.partialNikNotMoved':
+    'Data gabungan tersimpan dan duplikat (ID {id}) sudah di Sampah, tetapi NIK {nik} belum dipindahkan ke pasien yang dipertahankan. Ubah NIK-nya secara manual.',
+  'merge.pageTitle': 'Gabungkan Data Pasien',
+  'merge.title': '🔗 Gabungkan Data Pasien',
+  'merge.description':
+    'Pilih data yang dipertahankan dan nilai yang dipakai untuk setiap field. Data lainnya akan dipindahkan ke Sampah; kunjungan dan riwayat perubahannya ikut pindah ke data yang dipertahankan.',
+  'merge.notFoundHint': 'Pilih dua data pasien berbeda yang masih ada untuk digabungkan.',
+  'merge.kept': 'ID {id} — dipertahankan',
+  'merge.toTrash': 'ID {id} — ke Sampah',
+  'merge.registeredAt': 'Terdaftar {time}',
+  'merge.merging': 'Menggabungkan...',
+  'merge.submit': '🔗 Gabungkan & Buang ID {id}',
+  'merge.confirm': 'Data {nama} (ID {id}) akan digabung ke ID {survivorId} lalu dipindahkan ke Sampah. Lanjutkan?',
+  'merge.needsOnline': 'Penggabungan membutuhkan koneksi ke server.',
+  'merge.openSurvivor': 'Buka data pasien yang dipertahankan',
+  'merge.duplicateHasVisits':
+    'Backend belum mendukung penggabungan di server, jadi {count} kunjungan milik ID {id} tidak bisa dipindahkan dan akan hilang jika duplikat dihapus permanen. Penggabungan dibatalkan.',
+
+  'duplicate.title': '⚠️ Kemungkinan Pasien Sudah Terdaftar',
+  'duplicate.found': 'Ditemukan {count} pasien yang mirip dengan',
+  'duplicate.details': '(NIK {nik}, lahir {date}). Periksa dulu sebelum mendaftarkan pasien baru.',
+  'duplicate.reason': 'Alasan',
+  'duplicate.reason.nik': 'NIK hampir sama',
+  'duplicate.reason.nama-tanggal-lahir': 'Nama mirip & tanggal lahir sama',
+  'duplicate.view': 'Lihat ↗',
+  'duplicate.back': 'Kembali ke Form',
+  'duplicate.createAnyway': 'Tetap Daftarkan sebagai Pasien Baru',
+
+  'offline.queued': 'Tidak ada koneksi. Perubahan disimpan di perangkat dan akan dikirim saat online kembali.',
+  'offline.banner':
+    '📴 Anda sedang offline. Data ditampilkan dari penyimpanan perangkat; perubahan akan dikirim otomatis saat online kembali.',
+  'offline.pending': 'perubahan menunggu sinkronisasi',
+  'offline.syncing': 'Menyinkronkan...',
+  'offline.syncNow': '🔄 Sinkronkan Sekarang',
+  'offline.synced': '{count} perubahan offline terkirim',
+  'offline.syncedRejected': ', {count} ditolak server',
+  'offline.rejectedTitle': '❌ Perubahan offline ditolak server ({count})',
+  'offline.queuedAt': 'Dibuat offline: {time}',
+  'offline.mutation.create': 'Tambah',
+  'offline.mutation.update': 'Ubah',
+  'offline.mutation.delete': 'Hapus',
+  'offline.createRejected': 'Pendaftaran pasien baru ini ditolak server, perubahan tidak dapat dikirim',
+  'offline.deleteQueued': 'Penghapusan disimpan offline',
+  'offline.rejectedByServer': 'Ditolak server',
+
+  'undo.undo': '↩️ Urungkan',
+  'undo.restoring': 'Memulihkan...',
+  'undo.failed': 'Gagal membatalkan penghapusan',
+
+  'role.admin': 'Admin',
+  'role.front-desk': 'Front Desk',
+
+  'login.invalidCredentials': 'Username atau password salah',
+  'login.title': 'Masuk',
+  'login.subtitle': 'Masuk untuk melanjutkan',
+  'login.username': 'Username',
+  'login.password': 'Password',
+  'login.submit': 'Masuk',
+  'login.submitting': 'Memproses...',
+  'login.required': 'Username dan password tidak boleh kosong',
+  'login.failed': 'Gagal masuk',
+  'login.stubMode': 'Mode development (stub auth):',
+
+  'authGuard.denied': '⛔ Akses ditolak',
+  'authGuard.deniedHint': 'Peran Anda tidak memiliki izin untuk membuka halaman ini.',
+
+  'chart.noData': 'Tidak ada data.',
+
+  'stats.age.toddler': 'Balita (0–5)',
+  'stats.age.child': 'Anak & Remaja (6–17)',
+  'stats.age.adult': 'Dewasa (18–39)',
+  'stats.age.middle': 'Paruh Baya (40–59)',
+  'stats.age.senior': 'Lansia (60+)',
+  'stats.unknownBloodType': 'Tidak diketahui',
+  'stats.unstructured': 'Belum terstruktur',
+
+  'purge.title': '⚠️ Hapus Permanen',
+  'purge.record': 'Data',
+  'purge.willBeDeleted': '(NIK {nik}) akan dihapus selamanya dan tidak bisa dipulihkan.',
+  'purge.confirmLabel': 'Ketik nama pasien untuk konfirmasi',
+  'purge.submit': 'Hapus Permanen',
+
+  'history.title': '🕘 Riwayat Perubahan',
+  'history.loading': 'Memuat riwayat...',
+  'history.empty': 'Belum ada riwayat perubahan.',
+  'history.fetchFailed': 'Gagal mengambil riwayat perubahan',
+  'history.by': 'oleh',
+  'history.revertVersion': '↩️ Kembalikan ke versi ini',
+  'history.revertField': 'Kembalikan nilai lama',
+  'history.confirmRevertField': 'Kembalikan {field} ke "{value}"?',
+  'history.confirmRevertVersion': 'Kembalikan seluruh data pasien ke versi {time}?',
+  'history.action.create': 'Didaftarkan',
+  'history.action.update': 'Diubah',
+  'history.action.delete': 'Dipindahkan ke Sampah',
+  'history.action.restore': 'Dipulihkan dari Sampah',
+
+  'visitField.tanggal_kunjungan': 'Tanggal Kunjungan',
+  'visitField.poli': 'Poli',
+  'visitField.keluhan': 'Keluhan',
+  'visitField.diagnosis_kode': 'Kode Diagnosis (ICD-10)',
+  'visitField.diagnosis_teks': 'Diagnosis',
+  'visitField.dokter': 'Dokter',
+  'visitField.status': 'Status',
+
+  'visitStatus.menunggu': 'Menunggu',
+  'visitStatus.diperiksa': 'Sedang Diperiksa',
+  'visitStatus.selesai': 'Selesai',
+  'visitStatus.batal': 'Batal',
+
+  'poli.Umum': 'Umum',
+  'poli.Gigi': 'Gigi',
+  'poli.Anak': 'Anak',
+  'poli.Kandungan': 'Kandungan',
+  'poli.Penyakit Dalam': 'Penyakit Dalam',
+  'poli.Mata': 'Mata',
+  'poli.THT': 'THT',
+
+  'visitValidation.dateRequired': 'Tanggal kunjungan tidak boleh kosong',
+  'visitValidation.poliRequired': 'Pilih poli tujuan',
+  'visitValidation.keluhanRequired': 'Keluhan tidak boleh kosong',
+  'visitValidation.dokterRequired': 'Dokter tidak boleh kosong',
+  'visitValidation.statusInvalid': 'Status tidak valid',
+  'visitValidation.icd10Invalid': 'Format kode ICD-10 tidak valid (contoh: J06.9)',
+  'visitValidation.diagnosisTextRequired': 'Isi keterangan diagnosis untuk kode ini',
+  'visitValidation.diagnosisRequired': 'Kunjungan selesai harus memiliki diagnosis',
+
+  'visitForm.selectPoli': 'Pilih Poli',
+  'visitForm.dokterPlaceholder': 'Contoh: dr. Andi Pratama',
+  'visitForm.keluhanPlaceholder': 'Keluhan utama pasien',
+  'visitForm.icd10Placeholder': 'Contoh: J06.9',
+  'visitForm.diagnosisPlaceholder': 'Contoh: Infeksi saluran pernapasan atas akut',
+  'visitForm.update': '💾 Update Kunjungan',
+  'visitForm.save': '💾 Daftarkan Kunjungan',
+
+  'visits.title': '🩺 Kunjungan',
+  'visits.add': '+ Daftarkan Kunjungan',
+  'visits.newTitle': '📝 Kunjungan Baru',
+  'visits.editTitle': '✏️ Edit Kunjungan {date}',
+  'visits.loading': 'Memuat kunjungan...',
+  'visits.empty': 'Belum ada kunjungan.',
+  'visits.col.date': 'Tanggal',
+  'visits.queueNumber': 'No. {number}',
+  'visits.created': 'Kunjungan terdaftar di Poli {poli} dengan nomor antrean {number}.',
+  'visits.updated': 'Kunjungan berhasil diperbarui.',
+  'visits.deleted': 'Kunjungan berhasil dihapus.',
+  'visits.confirmDelete': 'Hapus kunjungan {date} di Poli {poli}?',
+  'visits.fetchFailed': 'Gagal mengambil riwayat kunjungan',
+  'visits.saveFailed': 'Gagal menyimpan kunjungan',
+  'visits.deleteFailed': 'Gagal menghapus kunjungan',
+
+  'import.emptyFile': 'File tidak berisi data',
+  'import.pageTitle': 'Impor Data Pasien',
+  'import.title': '📥 Impor Data Pasien',
+  'import.description':
+    'Unggah file CSV atau Excel (.xlsx), cocokkan kolom, periksa hasilnya, lalu impor. Bundle FHIR (.json) langsung dipetakan tanpa mencocokkan kolom.',
+  'import.step.file': '1. Pilih File',
+  'import.step.mapping': '2. Cocokkan Kolom',
+  'import.step.preview': '{step}. Pratinjau ({valid} valid, {invalid} bermasalah)',
+  'import.spreadsheetSummary': '{rows} baris data, {columns} kolom',
+  'import.bundleSummary': 'Bundle FHIR dengan {count} entry',
+  'import.noColumn': '— Tidak ada —',
+  'import.col.row': 'Baris',
+  'import.col.entry': 'Entry',
+  'import.col.status': 'Status',
+  'import.unit.row': 'baris',
+  'import.unit.entry': 'entry',
+  'import.importing': 'Mengimpor...',
+  'import.submitRows': 'Impor {count} Baris Valid',
+  'import.submitEntries': 'Impor {count} Entry Valid',
+  'import.progress': '{completed} / {total} {unit} diproses',
+  'import.created': '{count} pasien berhasil ditambahkan',
+  'import.rejected': '{count} ditolak server',
+  'import.reportRows': '⬇️ Unduh Laporan Baris Gagal',
+  'import.reportEntries': '⬇️ Unduh Laporan Entry Gagal',
+  'import.reportReason': 'keterangan',
+  'import.reportFileName': 'laporan-gagal-impor',
+  'import.valid': '✅ Valid',
+  'import.duplicateNik': 'NIK sama dengan {unit} {row}',
+  'import.readFailed': 'Gagal membaca file',
+  'import.existingNik': 'NIK sudah terdaftar (pasien #{id})',
+  'import.checkingNiks': 'Memeriksa NIK...',
+  'import.nikCheckFailed': 'Gagal memeriksa NIK di server. NIK yang sudah terdaftar akan ditolak saat impor.',
+  'import.loadingRegions': 'Memuat data wilayah untuk memeriksa alamat...',
+
+  'trash.pageTitle': 'Sampah',
+  'trash.title': '🗑️ Sampah ({total})',
+  'trash.description': 'Pasien yang dihapus bisa dipulihkan dari sini.',
+  'trash.empty': 'Sampah kosong',
+  'trash.col.deletedAt': 'Dihapus',
+  'trash.restore': '↩️ Pulihkan',
+  'trash.purge': '❌ Hapus Permanen',
+  'trash.restored': '{nama} berhasil dipulihkan.',
+  'trash.purged': '{nama} dihapus permanen.',
+  'trash.fetchFailed': 'Gagal mengambil isi Sampah',
+  'trash.restoreFailed': 'Gagal memulihkan data pasien',
+  'trash.purgeFailed': 'Gagal menghapus permanen data pasien',
+
+  'queue.pageTitle': 'Antrean Kunjungan',
+  'queue.titleToday': '📋 Antrean Hari Ini',
+  'queue.titleDate': '📋 Antrean {date}',
+  'queue.poliSuffix': 'Poli {poli}',
+  'queue.allPoli': 'Semua Poli',
+  'queue.allStatus': 'Semua Status',
+  'queue.empty': 'Tidak ada kunjungan',
+  'queue.emptyHint': 'Daftarkan kunjungan dari halaman detail pasien.',
+  'queue.col.patient': 'Pasien',
+  'queue.call': '▶️ Panggil',
+  'queue.finish': '✅ Selesai',
+  'queue.cancelVisit': 'Batalkan',
+  'queue.finishTitle': '✅ Selesaikan Kunjungan — {nama} (Poli {poli} No. {number})',
+  'queue.fetchFailed': 'Gagal mengambil antrean',
+  'queue.statusFailed': 'Gagal memperbarui status kunjungan',
+
+  'dashboard.pageTitle': 'Statistik Pasien',
+  'dashboard.title': '📊 Statistik Pasien',
+  'dashboard.description':
+    'Rentang tanggal terdaftar: {range}. Klik batang grafik untuk membuka daftar pasien yang sesuai.',
+  'dashboard.rangeStart': 'awal',
+  'dashboard.rangeNow': 'sekarang',
+  'dashboard.allTime': 'Semua waktu',
+  'dashboard.range.30days': '30 Hari',
+  'dashboard.range.12months': '12 Bulan',
+  'dashboard.range.thisYear': 'Tahun Ini',
+  'dashboard.from': 'Dari',
+  'dashboard.to': 'Sampai',
+  'dashboard.totalPatients': 'Total Pasien',
+  'dashboard.inRange': 'Terdaftar di Rentang Ini',
+  'dashboard.registrations': 'Pendaftaran Baru',
+  'dashboard.perWeek': 'Per Minggu',
+  'dashboard.perMonth': 'Per Bulan',
+  'dashboard.ageGroups': 'Kelompok Umur',
+  'dashboard.averageAge': 'Rata-rata umur: {age} tahun',
+  'dashboard.fetchFailed': 'Gagal mengambil data pasien',
+
+  'detail.pageTitle': 'Detail Pasien',
+  'detail.notFound': 'Pasien tidak ditemukan',
+  'detail.notFoundHint': 'Data pasien dengan ID {id} tidak ada atau sudah dihapus.',
+  'detail.patientNumber': 'No. RM',
+  'detail.age': 'Umur',
+  'detail.ageYears': '{age} tahun',
+  'detail.createdAt': 'Terdaftar: {time}',
+  'detail.updatedAt': 'Terakhir diperbarui: {time}',
+  'detail.printCard': '🪪 Cetak Kartu',
+  'detail.checkDuplicates': '🔍 Cek Duplikat',
+  'detail.duplicatesTitle': 'Kemungkinan Data Ganda',
+  'detail.noDuplicates': 'Tidak ditemukan pasien lain yang mirip.',
+  'detail.duplicateDetails': 'NIK {nik}, lahir {date}',
+  'detail.duplicatesFailed': 'Gagal mencari data ganda',
+  'detail.merge': '🔗 Gabungkan',
+  'detail.reverted': 'Data pasien berhasil dikembalikan.',
+  'detail.revertFailed': 'Gagal mengembalikan data pasien',
+  'detail.fhirFileName': 'pasien',
+
+  'api.unknownError': 'Terjadi kesalahan',
+  'api.timeout': 'Server tidak merespons, coba lagi beberapa saat',
+  'api.networkError': 'Tidak dapat terhubung ke server. Pastikan backend sudah berjalan.',
+  'api.offline': 'Tidak ada koneksi internet',
+  'api.checkMarkedFields': 'Periksa kembali data yang ditandai',
+
+  'schema.invalidResponse': 'Data pasien dari server tidak sesuai format yang diharapkan',
+  'schema.notObject': '{path} harus berupa objek',
+  'schema.notArray': '{path} harus berupa array',
+  'schema.required': '{path} wajib ada',
+  'schema.notNumber': '{path} harus berupa angka',
+  'schema.notString': '{path} harus berupa teks',
+
+  'report.title': 'Laporan Daftar Pasien',
+  'report.generatedAt': 'Dibuat: {time}',
+  'report.filter': 'Filter: {filter}',
+  'report.count': 'Jumlah: {count} pasien',
+
+  'card.pageTitle': 'Kartu Pasien',
+  'card.title': 'KARTU PASIEN',
+  'card.name': 'Nama',
+  'card.number': 'No. RM',
+  'card.nik': 'NIK',
+  'card.birthDate': 'Tgl Lahir',
+  'card.bloodType': 'Gol. Darah',
+};
+
+export default id;
@@ -0,0 +1,116 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type { Patient } from '../../types/patient';
+import { getPatient, resetMockDb } from './patientStore';
+import { loadAllRegionData } from '../regions';
+import patientsRoute from '../../pages/api/patients';
+import patientRoute from '../../pages/api/patients/[id]';
+import mergeRoute from '../../pages/api/patients/[id]/merge';
+import purgeRoute from '../../pages/api/patients/trash/[id]';
+import resetRoute from '../../pages/api/mock/reset';
+
+// MOCK_API_ENABLED dibaca saat modul dimuat
+vi.hoisted(() => {
+  process.env.NEXT_PUBLIC_USE_MOCK_API = 'true';
+});
+
+interface MockResponse {
+  statusCode: number;
+  body: unknown;
+  headers: Record<string, unknown>;
+}
+
+// Token stub seperti yang dibuat stubIdentityProvider
+const stubToken = (role: string) =>
+  `Bearer stub.${Buffer.from(JSON.stringify({ sub: 1, role, name: 'Uji' })).toString('base64')}`;
+const asAdmin = { authorization: stubToken('admin') };
+
+type Route = (req: NextApiRequest, res: NextApiResponse) => Promise<void>;
+
+const call = async (route: Route, req: Partial<NextApiRequest>): Promise<MockResponse> => {
+  const result: MockResponse = { statusCode: 200, body: undefined, headers: {} };
+  const res = {
+    status(code: number) {
+      result.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      result.body = body;
+    },
+    setHeader(name: string, value: unknown) {
+      result.headers[name] = value;
+    },
+  };
+  await route({ query: {}, headers: {}, ...req } as NextApiRequest, res as unknown as NextApiResponse);
+  return result;
+};
+
+describe('mock API routes', () => {
+  beforeEach(async () => {
+    await loadAllRegionData();
+    resetMockDb();
+  });
+
+  it('GET /patients membaca paginasi dan urutan dari query string', async () => {
+    const { statusCode, body } = await call(patientsRoute, {
+      method: 'GET',
+      query: { page: '2', limit: '25', sortBy: 'nama', sortOrder: 'asc' },
+    });
+    expect(statusCode).toBe(200);
+    expect(body).toMatchObject({ total: 36, page: 2, limit: 25, totalPages: 2 });
+    expect((body as { data: Patient[] }).data).toHaveLength(11);
+  });
+
+  it('POST /patients dengan NIK terdaftar menjawab 409 berbentuk ApiError', async () => {
+    const { id: _id, created_at: _createdAt, updated_at: _updatedAt, ...fields } = getPatient(1);
+    const { statusCode, body } = await call(patientsRoute, { method: 'POST', body: fields });
+    expect(statusCode).toBe(409);
+    expect(body).toMatchObject({ success: false, statusCode: 409, errors: ['NIK sudah terdaftar'] });
+  });
+
+  it('PATCH /patients/:id dengan If-Match usang menjawab 409', async () => {
+    const { updated_at: loadedAt } = getPatient(1);
+    const patch = (nama: string) => call(patientRoute, {
+      method: 'PATCH',
+      query: { id: '1' },
+      headers: { 'if-match': `"${loadedAt}"` },
+      body: { nama },
+    });
+
+    expect((await patch('Budi Santosa')).statusCode).toBe(200);
+    expect(await patch('Budi Susanto')).toMatchObject({ statusCode: 409, body: { statusCode: 409 } });
+    expect(getPatient(1).nama).toBe('Budi Santosa');
+  });
+
+  it('ID yang bukan bilangan bulat positif menjawab 404, method lain 405', async () => {
+    expect((await call(patientRoute, { method: 'GET', query: { id: 'abc' } })).statusCode).toBe(404);
+    const { statusCode, headers } = await call(patientRoute, { method: 'PUT', query: { id: '1' } });
+    expect(statusCode).toBe(405);
+    expect(headers.Allow).toEqual(['GET', 'PATCH', 'DELETE']);
+  });
+
+  it('POST /mock/reset mengembalikan data ke seed awal', async () => {
+    await call(patientRoute, { method: 'DELETE', query: { id: '1' }, headers: asAdmin });
+    expect((await call(patientRoute, { method: 'GET', query: { id: '1' } })).statusCode).toBe(404);
+
+    expect((await call(resetRoute, { method: 'POST' })).statusCode).toBe(200);
+    expect((await call(patientRoute, { method: 'GET', query: { id: '1' } })).statusCode).toBe(200);
+  });
+
+  it('hapus, hapus permanen & gabung tanpa peran admin menjawab 403', async () => {
+    const frontDesk = { authorization: stubToken('front-desk') };
+    expect((await call(patientRoute, { method: 'DELETE', query: { id: '1' } })).statusCode).toBe(403);
+    expect((await call(patientRoute, { method: 'DELETE', query: { id: '1' }, headers: frontDesk })).statusCode).toBe(403);
+    expect((await call(mergeRoute, {
+      method: 'POST',
+      query: { id: '1' },
+      headers: frontDesk,
+      body: { duplicate_id: 2, data: {} },
+    })).statusCode).toBe(403);
+    expect(getPatient(2).deleted_at).toBeUndefined();
+
+    expect((await call(patientRoute, { method: 'DELETE', query: { id: '1' }, headers: asAdmin })).statusCode).toBe(200);
+    expect((await call(purgeRoute, { method: 'DELETE', query: { id: '1' }, headers: frontDesk })).statusCode).toBe(403);
+    expect((await call(purgeRoute, { method: 'DELETE', query: { id: '1' }, headers: asAdmin })).statusCode).toBe(200);
+  });
+});
@@ -0,0 +1,89 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type { ApiError, RevisionActor } from '../api';
+import { MockApiError, SYSTEM_ACTOR } from './patientStore';
+import { loadAllRegionData } from '../regions';
+
+export const MOCK_API_ENABLED = process.env.NEXT_PUBLIC_USE_MOCK_API === 'true';
+
+// Simulasi latensi jaringan, berguna untuk menguji loading state & pembatalan request
+const MOCK_API_DELAY_MS = Number(process.env.MOCK_API_DELAY_MS) || 0;
+
+type MockHandler = (req: NextApiRequest, res: NextApiResponse) => void | Promise<void>;
+
+const sendError = (res: NextApiResponse, statusCode: number, message: string, errors?: string[]) => {
+  const body: ApiError = { success: false, statusCode, message, ...(errors ? { errors } : {}) };
+  res.status(statusCode).json(body);
+};
+
+export const methodNotAllowed = (req: NextApiRequest, res: NextApiResponse, allowed: string[]) => {
+  res.setHeader('Allow', allowed);
+  sendError(res, 405, `Method ${req.method} tidak didukung`);
+};
+
+// Bungkus route mock: nonaktif (404) kecuali NEXT_PUBLIC_USE_MOCK_API=true, dan ubah error menjadi bentuk ApiError
+export const withMockApi = (handler: MockHandler) => async (req: NextApiRequest, res: NextApiResponse) => {
+  if (!MOCK_API_ENABLED) {
+    sendError(res, 404, 'Mock API tidak aktif');
+    return;
+  }
+
+  if (MOCK_API_DELAY_MS > 0) {
+    await new Promise(resolve => setTimeout(resolve, MOCK_API_DELAY_MS));
+  }
+
+  try {
+    // Validasi alamat & data seed butuh seluruh data wilayah; setelah permintaan pertama sudah tersimpan di memori
+    await loadAllRegionData();
+    await handler(req, res);
+  } catch (error) {
+    if (error instanceof MockApiError) {
+      sendError(res, error.statusCode, error.message, error.errors);
+    } else {
+      sendError(res, 500, 'Terjadi kesalahan pada mock server');
+    }
+  }
+};
+
+// ID dari path harus bilangan bulat positif
+export const parseId = (value: string | string[] | undefined): number => {
+  const id = Number(Array.isArray(value) ? value[0] : value);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new MockApiError(404, 'Pasien tidak ditemukan');
+  }
+  return id;
+};
+
+// Versi record dari header If-Match ("<updated_at>" atau W/"<updated_at>")
+export const parseIfMatch = (req: NextApiRequest): string | undefined => {
+  const ifMatch = req.headers['if-match'];
+  return ifMatch ? ifMatch.replace(/^(W\/)?"|"$/g, '') : undefined;
+};
+
+// Klaim token stub (lihat stubIdentityProvider); token lain tidak bisa dibaca mock
+const readStubClaims = (req: NextApiRequest): { sub?: unknown; role?: unknown; name?: unknown } | null => {
+  const token = req.headers.authorization?.match(/^Bearer stub\.(.+)$/)?.[1];
+  if (!token) {
+    return null;
+  }
+  try {
+    return JSON.parse(Buffer.from(token, 'base64').toString('utf-8'));
+  } catch (error) {
+    return null;
+  }
+};
+
+// Pelaku perubahan dari token stub; tanpa token yang terbaca dicatat sebagai sistem
+export const getRequestActor = (req: NextApiRequest): RevisionActor => {
+  const claims = readStubClaims(req);
+  if (!claims) {
+    return SYSTEM_ACTOR;
+  }
+  return { id: Number(claims.sub), name: String(claims.name ?? `Pengguna ${claims.sub}`) };
+};
+
+// Hapus, hapus permanen & gabung hanya untuk admin, sama seperti backend (lihat ROLE_PERMISSIONS di lib/auth.ts)
+export const requireAdmin = (req: NextApiRequest) => {
+  if (readStubClaims(req)?.role !== 'admin') {
+    throw new MockApiError(403, 'Hanya admin yang boleh melakukan tindakan ini');
+  }
+};
@@ -0,0 +1,191 @@
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import type { Patient } from '../../types/patient';
+import { loadAllRegionData } from '../regions';
+import {
+  MockApiError,
+  createPatient,
+  deletePatient,
+  findDuplicateCandidates,
+  getDb,
+  getPatient,
+  getPatientHistory,
+  listDeletedPatients,
+  listPatients,
+  mergePatients,
+  purgePatient,
+  resetMockDb,
+  restorePatient,
+  searchPatients,
+  updatePatient,
+} from './patientStore';
+
+// Status HTTP dari MockApiError yang dilempar `action`
+const statusOf = (action: () => unknown): number | undefined => {
+  try {
+    action();
+  } catch (error) {
+    return error instanceof MockApiError ? error.statusCode : undefined;
+  }
+  return undefined;
+};
+
+// Data pasien baru dari salah satu seed, dengan NIK yang belum terdaftar
+const newPatientData = (source: Patient) => {
+  const { id: _id, created_at: _createdAt, updated_at: _updatedAt, ...fields } = source;
+  return { ...fields, nik: `${source.nik.slice(0, 12)}9999` };
+};
+
+describe('mock patientStore', () => {
+  beforeAll(() => loadAllRegionData());
+
+  beforeEach(() => {
+    resetMockDb();
+  });
+
+  describe('createPatient', () => {
+    it('menyimpan pasien baru beserta revisi create', () => {
+      const created = createPatient(newPatientData(getPatient(1)));
+      expect(created.id).toBe(37);
+      expect(getPatient(created.id).nik).toBe(created.nik);
+      expect(getPatientHistory(created.id).map(revision => revision.action)).toEqual(['create']);
+    });
+
+    it('menolak NIK yang sudah dipakai pasien aktif dengan 409', () => {
+      expect(statusOf(() => createPatient({ ...newPatientData(getPatient(1)), nik: getPatient(1).nik }))).toBe(409);
+    });
+
+    it('menolak data yang tidak valid dengan 400', () => {
+      expect(statusOf(() => createPatient({ nama: 'Tanpa NIK' }))).toBe(400);
+    });
+  });
+
+  describe('updatePatient', () => {
+    it('menolak versi If-Match yang sudah usang dengan 409', () => {
+      const patient = getPatient(2);
+      updatePatient(patient.id, { nama: 'Siti Lestari' }, patient.updated_at);
+      expect(statusOf(() => updatePatient(patient.id, { nama: 'Siti Wijaya' }, patient.updated_at))).toBe(409);
+      expect(getPatient(patient.id).nama).toBe('Siti Lestari');
+    });
+
+    it('tanpa If-Match perubahan langsung disimpan', () => {
+      const updated = updatePatient(2, { golongan_darah: 'O' });
+      expect(updated.golongan_darah).toBe('O');
+      const [revision] = getPatientHistory(2);
+      expect(revision.action).toBe('update');
+      expect(revision.changes).toContainEqual({ field: 'golongan_darah', old_value: 'B', new_value: 'O' });
+    });
+
+    it('menolak NIK milik pasien lain dengan 409', () => {
+      expect(statusOf(() => updatePatient(2, { nik: getPatient(1).nik }))).toBe(409);
+    });
+  });
+
+  describe('listPatients', () => {
+    it('membagi hasil per halaman', () => {
+      const result = listPatients({ page: 4, limit: 10 });
+      expect(result).toMatchObject({ total: 36, page: 4, limit: 10, totalPages: 4 });
+      expect(result.data).toHaveLength(6);
+    });
+
+    it('mengurutkan sesuai sortBy dan sortOrder', () => {
+      const names = listPatients({ limit: 100, sortBy: 'nama', sortOrder: 'asc' }).data.map(patient => patient.nama);
+      expect(names).toEqual([...names].sort((a, b) => a.localeCompare(b, 'id')));
+
+      const created = listPatients({ limit: 100 }).data.map(patient => patient.created_at);
+      expect(created).toEqual([...created].sort().reverse());
+    });
+  });
+
+  describe('searchPatients', () => {
+    it('mencari berdasarkan nama tanpa membedakan huruf besar/kecil dan NIK', () => {
+      const byName = searchPatients('SITI', { limit: 100 });
+      expect(byName.total).toBeGreaterThan(0);
+      expect(byName.data.every(patient => patient.nama.includes('Siti'))).toBe(true);
+
+      const nik = getPatient(7).nik;
+      expect(searchPatients(nik, {}).data.map(patient => patient.id)).toEqual([7]);
+    });
+  });
+
+  describe('findDuplicateCandidates', () => {
+    it('mengurutkan kandidat paling mirip sebelum membatasi jumlahnya', () => {
+      const patient = getPatient(20);
+      const data = { nama: patient.nama, nik: `${patient.nik.slice(0, 15)}9`, tanggal_lahir: patient.tanggal_lahir };
+      expect(findDuplicateCandidates(data, undefined, 1).map(candidate => candidate.id)).toEqual([20]);
+      expect(findDuplicateCandidates(data, 20)).toEqual([]);
+    });
+  });
+
+  describe('soft delete', () => {
+    it('pasien di Sampah hilang dari daftar dan bisa dipulihkan', () => {
+      deletePatient(3);
+      expect(statusOf(() => getPatient(3))).toBe(404);
+      expect(listPatients({ limit: 100 }).total).toBe(35);
+      expect(listDeletedPatients({}).data.map(patient => patient.id)).toEqual([3]);
+
+      const restored = restorePatient(3);
+      expect(restored.deleted_at).toBeUndefined();
+      expect(listPatients({ limit: 100 }).total).toBe(36);
+      expect(getPatientHistory(3).map(revision => revision.action).slice(0, 2)).toEqual(['restore', 'delete']);
+    });
+
+    it('NIK pasien di Sampah boleh dipakai lagi, tapi pemulihannya lalu ditolak dengan 409', () => {
+      const patient = getPatient(3);
+      deletePatient(3);
+      createPatient({ ...newPatientData(patient), nik: patient.nik });
+      expect(statusOf(() => restorePatient(3))).toBe(409);
+    });
+
+    it('hapus permanen hanya untuk pasien di Sampah dan ikut menghapus riwayat serta kunjungan', () => {
+      expect(statusOf(() => purgePatient(1))).toBe(404);
+      deletePatient(1);
+      purgePatient(1);
+      const db = getDb();
+      expect(db.patients.some(patient => patient.id === 1)).toBe(false);
+      expect(db.revisions.some(revision => revision.patient_id === 1)).toBe(false);
+      expect(db.visits.some(visit => visit.patient_id === 1)).toBe(false);
+    });
+  });
+
+  describe('mergePatients', () => {
+    // Pasien 1 dan 2 sama-sama punya kunjungan di seed
+    const visitsOf = (id: number) => getDb().visits.filter(visit => visit.patient_id === id).map(visit => visit.id);
+
+    it('memindahkan kunjungan & riwayat duplikat ke pasien yang dipertahankan, lalu duplikat ke Sampah', () => {
+      const [survivor, duplicate] = [getPatient(1), getPatient(2)];
+      const visits = [...visitsOf(1), ...visitsOf(2)].sort((a, b) => a - b);
+      expect(visitsOf(2).length).toBeGreaterThan(0);
+
+      const merged = mergePatients(1, 2, { nik: duplicate.nik, golongan_darah: 'O' }, survivor.updated_at);
+      expect(merged).toMatchObject({ id: 1, nik: duplicate.nik, golongan_darah: 'O' });
+      expect(listDeletedPatients({}).data.map(patient => patient.id)).toEqual([2]);
+      expect(visitsOf(1).sort((a, b) => a - b)).toEqual(visits);
+      expect(getPatientHistory(1).map(revision => revision.action)).toEqual(['update', 'create', 'create']);
+
+      // Duplikat di Sampah bisa dihapus permanen tanpa menghapus kunjungannya
+      purgePatient(2);
+      expect(visitsOf(1).sort((a, b) => a - b)).toEqual(visits);
+    });
+
+    it('menolak versi If-Match usang dan NIK milik pasien lain tanpa mengubah apa pun', () => {
+      const survivor = getPatient(1);
+      updatePatient(1, { golongan_darah: 'O' });
+      expect(statusOf(() => mergePatients(1, 2, {}, survivor.updated_at))).toBe(409);
+      expect(statusOf(() => mergePatients(1, 2, { nik: getPatient(3).nik }))).toBe(409);
+      expect(statusOf(() => mergePatients(1, 1, {}))).toBe(400);
+      expect(getPatient(2).deleted_at).toBeUndefined();
+      expect(visitsOf(2).length).toBeGreaterThan(0);
+    });
+  });
+
+  describe('resetMockDb', () => {
+    it('mengembalikan data ke seed awal', () => {
+      createPatient(newPatientData(getPatient(1)));
+      deletePatient(2);
+      resetMockDb();
+      expect(listPatients({}).total).toBe(36);
+      expect(listDeletedPatients({}).total).toBe(0);
+      expect(getDb().nextId).toBe(37);
+    });
+  });
+});
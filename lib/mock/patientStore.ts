@@ -0,0 +1,338 @@
+import fs from 'fs';
+import { Patient, PatientFormData, Visit } from '../../types/patient';
+import type {
+  CreatePatientData,
+  PatientListParams,
+  PaginatedResponse,
+  PatientRevision,
+  RevisionAction,
+  RevisionActor,
+} from '../api';
+import { initialFormData, validatePatientForm } from '../patientForm';
+import { PATIENT_FIELD_NAMES, toPatientFields } from '../patientSchema';
+import { diffPatientFields } from '../patientHistory';
+import { rankDuplicates } from '../duplicates';
+import { matchesPatientFilters } from '../patientQuery';
+import { computePatientStats, PatientStatsParams } from '../patientStats';
+import { createSeedPatients, createSeedVisits } from './seed';
+
+// Penyimpanan in-memory untuk mock backend. Disimpan di globalThis agar tidak hilang
+// saat hot reload; jika MOCK_API_DATA_FILE diisi, data juga ditulis ke file JSON tersebut.
+
+interface MockDb {
+  patients: Patient[];
+  nextId: number;
+  revisions: PatientRevision[];
+  nextRevisionId: number;
+  visits: Visit[];
+  nextVisitId: number;
+}
+
+// Pelaku untuk data contoh & request tanpa token yang bisa dibaca
+export const SYSTEM_ACTOR: RevisionActor = { id: 0, name: 'Sistem' };
+
+export class MockApiError extends Error {
+  statusCode: number;
+  errors?: string[];
+
+  constructor(statusCode: number, message: string, errors?: string[]) {
+    super(message);
+    Object.setPrototypeOf(this, MockApiError.prototype);
+    this.statusCode = statusCode;
+    this.errors = errors;
+  }
+}
+
+const DATA_FILE = process.env.MOCK_API_DATA_FILE;
+
+const globalForMock = globalThis as typeof globalThis & { __mockPatientDb?: MockDb };
+
+const toSnapshot = (patient: Patient) =>
+  Object.fromEntries(PATIENT_FIELD_NAMES.map(name => [name, patient[name]])) as CreatePatientData;
+
+const loadDb = (): MockDb => {
+  if (DATA_FILE && fs.existsSync(DATA_FILE)) {
+    // File dari versi sebelumnya belum punya daftar revisi/kunjungan
+    return { revisions: [], nextRevisionId: 1, visits: [], nextVisitId: 1, ...JSON.parse(fs.readFileSync(DATA_FILE, 'utf-8')) };
+  }
+  const patients = createSeedPatients();
+  const revisions: PatientRevision[] = patients.map((patient, index) => ({
+    id: index + 1,
+    patient_id: patient.id,
+    action: 'create',
+    actor: SYSTEM_ACTOR,
+    changed_at: patient.created_at,
+    changes: diffPatientFields({}, patient),
+    snapshot: toSnapshot(patient),
+  }));
+  const visits = createSeedVisits(patients);
+  return {
+    patients,
+    nextId: patients.length + 1,
+    revisions,
+    nextRevisionId: revisions.length + 1,
+    visits,
+    nextVisitId: visits.length + 1,
+  };
+};
+
+export const getDb = (): MockDb => {
+  if (!globalForMock.__mockPatientDb) {
+    globalForMock.__mockPatientDb = loadDb();
+  }
+  return globalForMock.__mockPatientDb;
+};
+
+export const persist = () => {
+  if (DATA_FILE) {
+    fs.writeFileSync(DATA_FILE, JSON.stringify(getDb(), null, 2));
+  }
+};
+
+// Kembalikan data ke seed awal (dipakai test otomatis)
+export const resetMockDb = () => {
+  globalForMock.__mockPatientDb = undefined;
+  if (DATA_FILE && fs.existsSync(DATA_FILE)) {
+    fs.unlinkSync(DATA_FILE);
+  }
+  getDb();
+};
+
+const compare = (a: Patient, b: Patient, sortBy: keyof Patient) =>
+  String(a[sortBy] ?? '').localeCompare(String(b[sortBy] ?? ''), 'id');
+
+// Sorting & paginasi dengan aturan yang sama seperti backend
+const paginate = (
+  patients: Patient[],
+  params: PatientListParams,
+  sortBy: keyof Patient = params.sortBy || 'created_at'
+): PaginatedResponse<Patient> => {
+  const page = Math.max(1, params.page || 1);
+  const limit = Math.max(1, params.limit || 10);
+  const direction = params.sortOrder === 'asc' ? 1 : -1;
+
+  const sorted = [...patients].sort((a, b) => compare(a, b, sortBy) * direction || (a.id - b.id) * direction);
+  return {
+    data: sorted.slice((page - 1) * limit, page * limit),
+    total: sorted.length,
+    page,
+    limit,
+    totalPages: Math.ceil(sorted.length / limit),
+  };
+};
+
+// Pasien di Sampah (soft delete) tidak ikut daftar, pencarian, maupun cek NIK unik
+const activePatients = () => getDb().patients.filter(p => !p.deleted_at);
+
+export const listPatients = (params: PatientListParams) =>
+  paginate(activePatients().filter(patient => matchesPatientFilters(patient, params)), params);
+
+export const searchPatients = (keyword: string, params: PatientListParams) => {
+  const q = keyword.trim().toLowerCase();
+  return paginate(
+    activePatients().filter(patient =>
+      (patient.nama.toLowerCase().includes(q) || patient.nik.includes(q)) && matchesPatientFilters(patient, params)
+    ),
+    params
+  );
+};
+
+// Statistik dihitung di server agar klien tidak perlu mengunduh seluruh data pasien
+export const getPatientStats = (params: PatientStatsParams) => computePatientStats(activePatients(), params);
+
+// NIK yang sudah dipakai pasien aktif, untuk pengecekan sebelum impor
+export const findExistingNiks = (niks: string[]) => {
+  const wanted = new Set(niks);
+  return activePatients()
+    .filter(patient => wanted.has(patient.nik))
+    .map(patient => ({ nik: patient.nik, id: patient.id }));
+};
+
+// Kandidat duplikat, paling mirip dulu, baru dibatasi limit
+export const findDuplicateCandidates = (
+  data: Pick<PatientFormData, 'nama' | 'nik' | 'tanggal_lahir'>,
+  excludeId?: number,
+  limit = 50
+): Patient[] =>
+  rankDuplicates(data, activePatients().filter(patient => patient.id !== excludeId))
+    .slice(0, limit)
+    .map(match => match.patient);
+
+export const getPatient = (id: number): Patient => {
+  const patient = activePatients().find(p => p.id === id);
+  if (!patient) {
+    throw new MockApiError(404, `Pasien dengan ID ${id} tidak ditemukan`);
+  }
+  return patient;
+};
+
+const getDeletedPatient = (id: number): Patient => {
+  const patient = getDb().patients.find(p => p.id === id && p.deleted_at);
+  if (!patient) {
+    throw new MockApiError(404, `Pasien dengan ID ${id} tidak ada di Sampah`);
+  }
+  return patient;
+};
+
+const ensureUniqueNik = (nik: string, ...excludeIds: number[]) => {
+  if (activePatients().some(p => p.nik === nik && !excludeIds.includes(p.id))) {
+    throw new MockApiError(409, 'NIK sudah terdaftar', ['NIK sudah terdaftar']);
+  }
+};
+
+// Validasi dengan aturan form, lalu cek NIK unik di antara pasien aktif selain excludeIds
+const validate = (data: PatientFormData, ...excludeIds: number[]) => {
+  const errors = Object.values(validatePatientForm(data));
+  if (errors.length > 0) {
+    throw new MockApiError(400, 'Validasi gagal', errors);
+  }
+  ensureUniqueNik(data.nik, ...excludeIds);
+};
+
+const ensureVersion = (patient: Patient, expectedUpdatedAt?: string) => {
+  if (expectedUpdatedAt && expectedUpdatedAt !== patient.updated_at) {
+    throw new MockApiError(409, 'Data pasien telah diubah oleh pengguna lain');
+  }
+};
+
+const recordRevision = (action: RevisionAction, before: Patient | null, after: Patient, actor: RevisionActor) => {
+  const db = getDb();
+  db.revisions.push({
+    id: db.nextRevisionId++,
+    patient_id: after.id,
+    action,
+    actor,
+    changed_at: (action === 'delete' && after.deleted_at) || after.updated_at,
+    changes: action === 'create' || action === 'update' ? diffPatientFields(before ?? {}, after) : [],
+    snapshot: toSnapshot(after),
+  });
+};
+
+const replacePatient = (patient: Patient) => {
+  const db = getDb();
+  db.patients = db.patients.map(p => (p.id === patient.id ? patient : p));
+  persist();
+};
+
+const toFormData = (data: Partial<CreatePatientData>): PatientFormData => {
+  const formData = { ...initialFormData };
+  (Object.keys(initialFormData) as (keyof PatientFormData)[]).forEach((field) => {
+    const value = data[field];
+    formData[field] = typeof value === 'string' ? value : '';
+  });
+  return formData;
+};
+
+export const createPatient = (data: Partial<CreatePatientData>, actor: RevisionActor = SYSTEM_ACTOR): Patient => {
+  const formData = toFormData(data);
+  validate(formData);
+
+  const db = getDb();
+  const now = new Date().toISOString();
+  const patient: Patient = { id: db.nextId++, ...toPatientFields(formData), created_at: now, updated_at: now };
+  db.patients.push(patient);
+  recordRevision('create', null, patient, actor);
+  persist();
+  return patient;
+};
+
+// expectedUpdatedAt berasal dari header If-Match; tolak jika record sudah berubah sejak versi itu
+export const updatePatient = (
+  id: number,
+  data: Partial<CreatePatientData>,
+  expectedUpdatedAt?: string,
+  actor: RevisionActor = SYSTEM_ACTOR
+): Patient => {
+  const existing = getPatient(id);
+  ensureVersion(existing, expectedUpdatedAt);
+  const formData = toFormData({ ...existing, ...data });
+  validate(formData, id);
+
+  const updated: Patient = { ...existing, ...toPatientFields(formData), updated_at: new Date().toISOString() };
+  // Simpan tanpa perubahan apa pun tidak perlu masuk riwayat
+  if (diffPatientFields(existing, updated).length > 0) {
+    recordRevision('update', existing, updated, actor);
+  }
+  replacePatient(updated);
+  return updated;
+};
+
+// Soft delete: pindahkan ke Sampah, bisa dipulihkan
+export const deletePatient = (id: number, actor: RevisionActor = SYSTEM_ACTOR) => {
+  const patient = getPatient(id);
+  const deleted: Patient = { ...patient, deleted_at: new Date().toISOString() };
+  recordRevision('delete', patient, deleted, actor);
+  replacePatient(deleted);
+  return { message: `Data pasien ${patient.nama} dipindahkan ke Sampah` };
+};
+
+// Gabungkan duplikat ke pasien yang dipertahankan dalam satu langkah: kunjungan & riwayat duplikat
+// dipindahkan ke pasien itu, duplikat masuk Sampah, lalu data gabungan disimpan. NIK duplikat boleh
+// dipakai karena duplikatnya tidak aktif lagi. expectedUpdatedAt (If-Match) berlaku untuk pasien yang dipertahankan.
+export const mergePatients = (
+  survivorId: number,
+  duplicateId: number,
+  data: Partial<CreatePatientData>,
+  expectedUpdatedAt?: string,
+  actor: RevisionActor = SYSTEM_ACTOR
+): Patient => {
+  if (survivorId === duplicateId) {
+    throw new MockApiError(400, 'Pasien tidak bisa digabung dengan dirinya sendiri');
+  }
+  const survivor = getPatient(survivorId);
+  const duplicate = getPatient(duplicateId);
+  ensureVersion(survivor, expectedUpdatedAt);
+  const formData = toFormData({ ...survivor, ...data });
+  validate(formData, survivorId, duplicateId);
+
+  const db = getDb();
+  const now = new Date().toISOString();
+  db.visits = db.visits.map(visit => (visit.patient_id === duplicateId ? { ...visit, patient_id: survivorId } : visit));
+  db.revisions = db.revisions.map(revision =>
+    revision.patient_id === duplicateId ? { ...revision, patient_id: survivorId } : revision
+  );
+
+  const deleted: Patient = { ...duplicate, deleted_at: now };
+  recordRevision('delete', duplicate, deleted, actor);
+  replacePatient(deleted);
+
+  const merged: Patient = { ...survivor, ...toPatientFields(formData), updated_at: now };
+  if (diffPatientFields(survivor, merged).length > 0) {
+    recordRevision('update', survivor, merged, actor);
+  }
+  replacePatient(merged);
+  return merged;
+};
+
+// Isi Sampah, terbaru dihapus lebih dulu
+export const listDeletedPatients = (params: PatientListParams) =>
+  paginate(getDb().patients.filter(p => p.deleted_at), { sortOrder: 'desc', ...params }, 'deleted_at');
+
+// NIK bisa sudah dipakai pasien baru selama record ini di Sampah
+export const restorePatient = (id: number, actor: RevisionActor = SYSTEM_ACTOR): Patient => {
+  const patient = getDeletedPatient(id);
+  ensureUniqueNik(patient.nik, id);
+  const restored: Patient = { ...patient, deleted_at: undefined, updated_at: new Date().toISOString() };
+  recordRevision('restore', patient, restored, actor);
+  replacePatient(restored);
+  return restored;
+};
+
+// Riwayat & kunjungan ikut dihapus karena berisi data pribadi pasien
+export const purgePatient = (id: number) => {
+  const patient = getDeletedPatient(id);
+  const db = getDb();
+  db.patients = db.patients.filter(p => p.id !== id);
+  db.revisions = db.revisions.filter(revision => revision.patient_id !== id);
+  db.visits = db.visits.filter(visit => visit.patient_id !== id);
+  persist();
+  return { message: `Data pasien ${patient.nama} dihapus permanen` };
+};
+
+// Riwayat pasien aktif, terbaru lebih dulu
+export const getPatientHistory = (id: number): PatientRevision[] => {
+  getPatient(id);
+  return getDb()
+    .revisions.filter(revision => revision.patient_id === id)
+    .sort((a, b) => b.id - a.id);
+};
@@ -0,0 +1,127 @@
+import { Patient, Visit, VisitStatus } from '../../types/patient';
+import { getRegions } from '../regions';
+import { getPatientField } from '../patientSchema';
+
+const FIRST_NAMES: [string, 'Laki-laki' | 'Perempuan'][] = [
+  ['Budi', 'Laki-laki'], ['Siti', 'Perempuan'], ['Agus', 'Laki-laki'], ['Dewi', 'Perempuan'],
+  ['Andi', 'Laki-laki'], ['Rina', 'Perempuan'], ['Joko', 'Laki-laki'], ['Ayu', 'Perempuan'],
+  ['Hendra', 'Laki-laki'], ['Fitri', 'Perempuan'], ['Rudi', 'Laki-laki'], ['Wulan', 'Perempuan'],
+];
+const LAST_NAMES = ['Santoso', 'Wijaya', 'Saputra', 'Lestari', 'Hidayat', 'Kurniawan', 'Pratama', 'Rahmawati'];
+const REGIONS = [
+  { code: '317101', kota: 'Jakarta Pusat' },
+  { code: '327301', kota: 'Bandung' },
+  { code: '337401', kota: 'Semarang' },
+  { code: '357801', kota: 'Surabaya' },
+  { code: '340401', kota: 'Sleman' },
+  { code: '517101', kota: 'Denpasar' },
+];
+const BLOOD_TYPES = ['A', 'B', 'AB', 'O'];
+const SEED_COUNT = 36;
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+// Alamat terstruktur di kecamatan sesuai NIK; tiap pasien ke-5 tetap alamat teks bebas (data lama)
+const seedAddress = (index: number, region: { code: string; kota: string }) => {
+  const jalan = `Jl. Merdeka No. ${index + 1}`;
+  if (index % 5 === 4) return { alamat: `${jalan}, ${region.kota}` };
+
+  const [provinsi, kabupaten, kecamatan] = [2, 4, 6].map(length =>
+    region.code.slice(0, length).match(/\d{2}/g)!.join('.')
+  );
+  const villages = getRegions('kelurahan', kecamatan);
+  const village = villages[index % villages.length];
+  const parts = {
+    provinsi_kode: provinsi,
+    kabupaten_kode: kabupaten,
+    kecamatan_kode: kecamatan,
+    kelurahan_kode: village.code,
+    jalan,
+    rt: pad((index % 9) + 1, 3),
+    rw: pad((index % 4) + 1, 3),
+    kode_pos: village.postalCode ?? '',
+  };
+  return { ...parts, alamat: getPatientField('alamat').compute!(parts) };
+};
+
+// Data contoh deterministik dengan NIK yang valid secara struktur
+export const createSeedPatients = (now: Date = new Date()): Patient[] =>
+  Array.from({ length: SEED_COUNT }, (_, index) => {
+    const [firstName, gender] = FIRST_NAMES[index % FIRST_NAMES.length];
+    const lastName = LAST_NAMES[(index * 5) % LAST_NAMES.length];
+    const region = REGIONS[index % REGIONS.length];
+    const year = 1950 + ((index * 7) % 70);
+    const month = (index % 12) + 1;
+    const day = ((index * 3) % 28) + 1;
+    const nikDay = gender === 'Perempuan' ? day + 40 : day;
+    const createdAt = new Date(now.getTime() - (SEED_COUNT - index) * 3 * 24 * 60 * 60 * 1000).toISOString();
+
+    return {
+      id: index + 1,
+      nama: `${firstName} ${lastName}`,
+      nik: `${region.code}${pad(nikDay)}${pad(month)}${pad(year % 100)}${pad(index + 1, 4)}`,
+      tanggal_lahir: `${year}-${pad(month)}-${pad(day)}`,
+      jenis_kelamin: gender,
+      ...seedAddress(index, region),
+      no_telepon: `0812${pad(10000000 + index * 7919, 8)}`,
+      email: index % 3 === 0 ? undefined : `${firstName.toLowerCase()}.${lastName.toLowerCase()}${index + 1}@example.com`,
+      golongan_darah: BLOOD_TYPES[index % BLOOD_TYPES.length],
+      created_at: createdAt,
+      updated_at: createdAt,
+    };
+  });
+
+const SEED_VISITS_TODAY = 10;
+const DOCTORS: Record<string, string> = {
+  Umum: 'dr. Andi Pratama',
+  Gigi: 'drg. Maya Sari',
+  Anak: 'dr. Rudi Hartono, Sp.A',
+};
+const COMPLAINTS = ['Demam 3 hari', 'Batuk pilek', 'Sakit gigi geraham', 'Kontrol rutin', 'Diare sejak kemarin'];
+const DIAGNOSES: [string, string][] = [
+  ['J06.9', 'Infeksi saluran pernapasan atas akut'],
+  ['K02.1', 'Karies dentin'],
+  ['A09', 'Diare dan gastroenteritis'],
+  ['I10', 'Hipertensi esensial'],
+];
+const TODAY_STATUSES: VisitStatus[] = ['selesai', 'selesai', 'diperiksa', 'menunggu', 'menunggu'];
+
+// Antrean hari ini untuk sebagian pasien, plus satu kunjungan selesai sebulan lalu
+export const createSeedVisits = (patients: Patient[], now: Date = new Date()): Visit[] => {
+  const toDate = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  const lastMonth = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
+  const queueNumbers: Record<string, number> = {};
+  const polis = Object.keys(DOCTORS);
+
+  const visits: Omit<Visit, 'id'>[] = [];
+  patients.slice(0, SEED_VISITS_TODAY).forEach((patient, index) => {
+    const [kode, teks] = DIAGNOSES[index % DIAGNOSES.length];
+    const poli = polis[index % polis.length];
+    const base = { patient_id: patient.id, poli, dokter: DOCTORS[poli], keluhan: COMPLAINTS[index % COMPLAINTS.length] };
+
+    visits.push({
+      ...base,
+      tanggal_kunjungan: toDate(lastMonth),
+      nomor_antrean: index + 1,
+      diagnosis_kode: kode,
+      diagnosis_teks: teks,
+      status: 'selesai',
+      created_at: lastMonth.toISOString(),
+      updated_at: lastMonth.toISOString(),
+    });
+
+    const status = TODAY_STATUSES[Math.floor(index / polis.length) % TODAY_STATUSES.length];
+    queueNumbers[poli] = (queueNumbers[poli] || 0) + 1;
+    visits.push({
+      ...base,
+      tanggal_kunjungan: toDate(now),
+      nomor_antrean: queueNumbers[poli],
+      ...(status === 'selesai' ? { diagnosis_kode: kode, diagnosis_teks: teks } : {}),
+      status,
+      created_at: now.toISOString(),
+      updated_at: now.toISOString(),
+    });
+  });
+
+  return visits.map((visit, index) => ({ id: index + 1, ...visit }));
+};
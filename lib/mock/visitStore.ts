@@ -0,0 +1,121 @@
+import { Visit, VisitFormData } from '../../types/patient';
+import type { VisitListParams } from '../api';
+import { initialVisitFormData, validateVisitForm } from '../visitForm';
+import { getDb, persist, getPatient, MockApiError } from './patientStore';
+
+// Kunjungan disimpan di database mock yang sama dengan pasien (lihat patientStore)
+
+const getVisit = (id: number): Visit => {
+  const visit = getDb().visits.find(v => v.id === id);
+  if (!visit) {
+    throw new MockApiError(404, `Kunjungan dengan ID ${id} tidak ditemukan`);
+  }
+  return visit;
+};
+
+const toFormData = (data: Partial<VisitFormData>): VisitFormData => {
+  const formData = initialVisitFormData();
+  (Object.keys(formData) as (keyof VisitFormData)[]).forEach((field) => {
+    const value = data[field];
+    if (typeof value === 'string') {
+      (formData as Record<keyof VisitFormData, string>)[field] = value;
+    }
+  });
+  return formData;
+};
+
+const validate = (data: VisitFormData) => {
+  const errors = Object.values(validateVisitForm(data));
+  if (errors.length > 0) {
+    throw new MockApiError(400, 'Validasi gagal', errors);
+  }
+};
+
+const toVisitFields = (data: VisitFormData) => ({
+  ...data,
+  diagnosis_kode: data.diagnosis_kode || undefined,
+  diagnosis_teks: data.diagnosis_teks || undefined,
+});
+
+const withPatient = (visit: Visit): Visit => {
+  const { id, nama, nik } = getPatient(visit.patient_id);
+  return { ...visit, patient: { id, nama, nik } };
+};
+
+export const listPatientVisits = (patientId: number): Visit[] => {
+  getPatient(patientId);
+  return getDb()
+    .visits.filter(visit => visit.patient_id === patientId)
+    .sort((a, b) => b.tanggal_kunjungan.localeCompare(a.tanggal_kunjungan) || b.id - a.id);
+};
+
+// Antrean lintas pasien; kunjungan milik pasien di Sampah tidak ditampilkan
+export const listVisits = ({ tanggal, poli, status }: VisitListParams): Visit[] => {
+  const activeIds = new Set(getDb().patients.filter(p => !p.deleted_at).map(p => p.id));
+  return getDb()
+    .visits.filter(visit =>
+      activeIds.has(visit.patient_id) &&
+      (!tanggal || visit.tanggal_kunjungan === tanggal) &&
+      (!poli || visit.poli === poli) &&
+      (!status || visit.status === status)
+    )
+    .sort((a, b) =>
+      a.tanggal_kunjungan.localeCompare(b.tanggal_kunjungan) ||
+      a.poli.localeCompare(b.poli) ||
+      a.nomor_antrean - b.nomor_antrean
+    )
+    .map(withPatient);
+};
+
+// Nomor antrean berikutnya untuk poli & tanggal tersebut
+const nextQueueNumber = (tanggal: string, poli: string) =>
+  Math.max(0, ...getDb().visits
+    .filter(visit => visit.tanggal_kunjungan === tanggal && visit.poli === poli)
+    .map(visit => visit.nomor_antrean)) + 1;
+
+export const createVisit = (patientId: number, data: Partial<VisitFormData>): Visit => {
+  getPatient(patientId);
+  const formData = toFormData(data);
+  validate(formData);
+
+  const db = getDb();
+  const now = new Date().toISOString();
+  const visit: Visit = {
+    id: db.nextVisitId++,
+    patient_id: patientId,
+    ...toVisitFields(formData),
+    nomor_antrean: nextQueueNumber(formData.tanggal_kunjungan, formData.poli),
+    created_at: now,
+    updated_at: now,
+  };
+  db.visits.push(visit);
+  persist();
+  return withPatient(visit);
+};
+
+export const updateVisit = (id: number, data: Partial<VisitFormData>): Visit => {
+  const existing = getVisit(id);
+  const formData = toFormData({ ...existing, ...data });
+  validate(formData);
+
+  // Pindah poli/tanggal berarti masuk antrean baru di belakang
+  const movedQueue = formData.poli !== existing.poli || formData.tanggal_kunjungan !== existing.tanggal_kunjungan;
+  const updated: Visit = {
+    ...existing,
+    ...toVisitFields(formData),
+    nomor_antrean: movedQueue ? nextQueueNumber(formData.tanggal_kunjungan, formData.poli) : existing.nomor_antrean,
+    updated_at: new Date().toISOString(),
+  };
+  const db = getDb();
+  db.visits = db.visits.map(v => (v.id === id ? updated : v));
+  persist();
+  return withPatient(updated);
+};
+
+export const deleteVisit = (id: number) => {
+  getVisit(id);
+  const db = getDb();
+  db.visits = db.visits.filter(v => v.id !== id);
+  persist();
+  return { message: 'Kunjungan berhasil dihapus' };
+};
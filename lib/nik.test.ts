@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { parseNik } from './nik';
+import { translate } from './i18n';
+
+const TODAY = new Date(2025, 5, 1);
+
+describe('parseNik', () => {
+  it('membaca wilayah, tanggal lahir dan jenis kelamin', () => {
+    expect(parseNik('3171010508900001', TODAY)).toEqual({
+      valid: true,
+      data: {
+        provinceCode: '31',
+        provinceName: 'DKI Jakarta',
+        regencyCode: '71',
+        districtCode: '01',
+        birthDate: '1990-08-05',
+        gender: 'Laki-laki',
+        serial: '0001',
+      },
+    });
+  });
+
+  it('tanggal lahir perempuan ditambah 40', () => {
+    const result = parseNik('3171014508900001', TODAY);
+    expect(result.valid && result.data).toMatchObject({ birthDate: '1990-08-05', gender: 'Perempuan' });
+  });
+
+  it('tahun 2 digit tidak boleh melewati tahun sekarang', () => {
+    const thisCentury = parseNik('3171010101250001', TODAY);
+    const lastCentury = parseNik('3171010101260001', TODAY);
+    expect(thisCentury.valid && thisCentury.data.birthDate).toBe('2025-01-01');
+    expect(lastCentury.valid && lastCentury.data.birthDate).toBe('1926-01-01');
+  });
+
+  it('mengabaikan spasi di awal dan akhir', () => {
+    expect(parseNik(' 3171010508900001 ', TODAY).valid).toBe(true);
+  });
+
+  it.each([
+    ['3171-01050890000', translate('nik.digitsOnly')],
+    ['317101050890001', translate('nik.length')],
+    ['9971010508900001', translate('nik.unknownProvince', { code: '99' })],
+    ['3100010508900001', translate('nik.invalidRegion')],
+    ['3171000508900001', translate('nik.invalidRegion')],
+    ['3171010508900000', translate('nik.invalidSerial')],
+    ['3171013002900001', translate('nik.invalidBirthDate')],
+    ['3171010513900001', translate('nik.invalidBirthDate')],
+    ['3171010008900001', translate('nik.invalidBirthDate')],
+  ])('menolak %s', (nik, error) => {
+    expect(parseNik(nik, TODAY)).toEqual({ valid: false, error });
+  });
+});
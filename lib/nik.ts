@@ -0,0 +1,149 @@
+// Struktur NIK (16 digit): PP KK CC DDMMYY SSSS
+// PP = provinsi, KK = kabupaten/kota, CC = kecamatan, DDMMYY = tanggal lahir
+// (tanggal + 40 untuk perempuan), SSSS = nomor urut
+
+import { translate } from './i18n';
+
+export type NikGender = 'Laki-laki' | 'Perempuan';
+
+export const PROVINCE_CODES: Record<string, string> = {
+  '11': 'Aceh',
+  '12': 'Sumatera Utara',
+  '13': 'Sumatera Barat',
+  '14': 'Riau',
+  '15': 'Jambi',
+  '16': 'Sumatera Selatan',
+  '17': 'Bengkulu',
+  '18': 'Lampung',
+  '19': 'Kepulauan Bangka Belitung',
+  '21': 'Kepulauan Riau',
+  '31': 'DKI Jakarta',
+  '32': 'Jawa Barat',
+  '33': 'Jawa Tengah',
+  '34': 'DI Yogyakarta',
+  '35': 'Jawa Timur',
+  '36': 'Banten',
+  '51': 'Bali',
+  '52': 'Nusa Tenggara Barat',
+  '53': 'Nusa Tenggara Timur',
+  '61': 'Kalimantan Barat',
+  '62': 'Kalimantan Tengah',
+  '63': 'Kalimantan Selatan',
+  '64': 'Kalimantan Timur',
+  '65': 'Kalimantan Utara',
+  '71': 'Sulawesi Utara',
+  '72': 'Sulawesi Tengah',
+  '73': 'Sulawesi Selatan',
+  '74': 'Sulawesi Tenggara',
+  '75': 'Gorontalo',
+  '76': 'Sulawesi Barat',
+  '81': 'Maluku',
+  '82': 'Maluku Utara',
+  '91': 'Papua',
+  '92': 'Papua Barat',
+  '93': 'Papua Selatan',
+  '94': 'Papua Tengah',
+  '95': 'Papua Pegunungan',
+  '96': 'Papua Barat Daya',
+};
+
+export interface ParsedNik {
+  provinceCode: string;
+  provinceName: string;
+  regencyCode: string;
+  districtCode: string;
+  birthDate: string; // YYYY-MM-DD
+  gender: NikGender;
+  serial: string;
+}
+
+export type NikParseResult =
+  | { valid: true; data: ParsedNik }
+  | { valid: false; error: string };
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Tahun 2 digit: anggap abad ini kecuali hasilnya melewati tahun sekarang
+const resolveYear = (twoDigitYear: number, today: Date): number => {
+  const currentYear = today.getFullYear();
+  const candidate = currentYear - (currentYear % 100) + twoDigitYear;
+  return candidate > currentYear ? candidate - 100 : candidate;
+};
+
+// Parse dan validasi struktur NIK
+export const parseNik = (nik: string, today: Date = new Date()): NikParseResult => {
+  const value = nik.trim();
+
+  if (!/^[0-9]+$/.test(value)) {
+    return { valid: false, error: translate('nik.digitsOnly') };
+  }
+  if (value.length !== 16) {
+    return { valid: false, error: translate('nik.length') };
+  }
+
+  const provinceCode = value.slice(0, 2);
+  const regencyCode = value.slice(2, 4);
+  const districtCode = value.slice(4, 6);
+  const rawDay = parseInt(value.slice(6, 8), 10);
+  const month = parseInt(value.slice(8, 10), 10);
+  const twoDigitYear = parseInt(value.slice(10, 12), 10);
+  const serial = value.slice(12, 16);
+
+  if (!PROVINCE_CODES[provinceCode]) {
+    return { valid: false, error: translate('nik.unknownProvince', { code: provinceCode }) };
+  }
+  if (regencyCode === '00' || districtCode === '00') {
+    return { valid: false, error: translate('nik.invalidRegion') };
+  }
+  if (serial === '0000') {
+    return { valid: false, error: translate('nik.invalidSerial') };
+  }
+
+  const gender: NikGender = rawDay > 40 ? 'Perempuan' : 'Laki-laki';
+  const day = rawDay > 40 ? rawDay - 40 : rawDay;
+  const year = resolveYear(twoDigitYear, today);
+  const date = new Date(Date.UTC(year, month - 1, day));
+
+  if (
+    month < 1 ||
+    month > 12 ||
+    day < 1 ||
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return { valid: false, error: translate('nik.invalidBirthDate') };
+  }
+
+  return {
+    valid: true,
+    data: {
+      provinceCode,
+      provinceName: PROVINCE_CODES[provinceCode],
+      regencyCode,
+      districtCode,
+      birthDate: `${year}-${pad(month)}-${pad(day)}`,
+      gender,
+      serial,
+    },
+  };
+};
+
+// Bandingkan data yang terkandung di NIK dengan tanggal lahir & jenis kelamin yang diisi
+export const getNikMismatches = (
+  parsed: ParsedNik,
+  data: { tanggal_lahir: string; jenis_kelamin: string }
+): string[] => {
+  const warnings: string[] = [];
+  const tanggalLahir = data.tanggal_lahir.split('T')[0];
+
+  // NIK hanya menyimpan 2 digit tahun, jadi cukup bandingkan DDMMYY
+  if (tanggalLahir && tanggalLahir.slice(2) !== parsed.birthDate.slice(2)) {
+    warnings.push(translate('nik.birthDateMismatch', { date: parsed.birthDate }));
+  }
+  if (data.jenis_kelamin && data.jenis_kelamin !== parsed.gender) {
+    warnings.push(translate('nik.genderMismatch', { gender: translate(`gender.${parsed.gender}`) }));
+  }
+
+  return warnings;
+};
@@ -0,0 +1,181 @@
+// Penyimpanan offline di IndexedDB: cache daftar/detail pasien & antrean mutasi yang belum terkirim.
+// Semua fungsi aman dipanggil di server (SSR): tanpa IndexedDB hasilnya kosong / no-op.
+
+import type { Patient } from '../types/patient';
+import type { PatientFields } from './patientSchema';
+
+const DB_NAME = 'patient-app';
+const DB_VERSION = 1;
+const LIST_STORE = 'lists';
+const PATIENT_STORE = 'patients';
+const MUTATION_STORE = 'mutations';
+
+// Event di window setiap kali antrean berubah, agar UI bisa memperbarui badge
+export const QUEUE_CHANGE_EVENT = 'patient-offline-queue-change';
+
+interface QueuedMutationBase {
+  id?: number; // urutan antrean (auto increment)
+  userId: number; // pengguna yang membuat perubahan; hanya dikirim & ditampilkan saat pengguna ini login
+  patientId: number; // untuk create: ID sementara, yaitu id antrean yang dinegatifkan
+  label: string; // nama pasien untuk ditampilkan
+  queuedAt: string;
+  status: 'pending' | 'rejected';
+  error?: string;
+}
+
+export type QueuedMutation =
+  | (QueuedMutationBase & { type: 'create'; data: PatientFields })
+  | (QueuedMutationBase & { type: 'update'; data: Partial<PatientFields>; expectedUpdatedAt?: string })
+  | (QueuedMutationBase & { type: 'delete' });
+
+export type MutationType = QueuedMutation['type'];
+
+type QueueFields = 'id' | 'userId' | 'queuedAt' | 'status' | 'error';
+
+// Mutasi baru sebelum masuk antrean (id, pengguna, waktu, status, dan ID sementara create diisi enqueueMutation)
+export type NewQueuedMutation = QueuedMutation extends infer M
+  ? M extends { type: 'create' } ? Omit<M, QueueFields | 'patientId'>
+  : M extends QueuedMutation ? Omit<M, QueueFields> : never
+  : never;
+
+export interface CachedList<T> {
+  key: string;
+  response: T;
+  cachedAt: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Pengguna yang sedang login (diatur AuthProvider); antrean pengguna lain tetap disimpan sampai pengguna itu login lagi
+let queueOwner: number | null = null;
+
+const isSupported = () => typeof window !== 'undefined' && typeof window.indexedDB !== 'undefined';
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(LIST_STORE, { keyPath: 'key' });
+        db.createObjectStore(PATIENT_STORE, { keyPath: 'id' });
+        db.createObjectStore(MUTATION_STORE, { keyPath: 'id', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const notifyQueueChange = () => {
+  window.dispatchEvent(new Event(QUEUE_CHANGE_EVENT));
+};
+
+// --- Cache daftar & detail pasien ---
+
+export const cacheList = async <T>(key: string, response: T) => {
+  if (!isSupported()) return;
+  await run(LIST_STORE, 'readwrite', store => store.put({ key, response, cachedAt: new Date().toISOString() }));
+};
+
+export const getCachedList = async <T>(key: string): Promise<CachedList<T> | undefined> => {
+  if (!isSupported()) return undefined;
+  return run<CachedList<T> | undefined>(LIST_STORE, 'readonly', store => store.get(key));
+};
+
+export const cachePatients = async (patients: Patient[]) => {
+  if (!isSupported()) return;
+  await Promise.all(patients.map(patient => run(PATIENT_STORE, 'readwrite', store => store.put(patient))));
+};
+
+export const getCachedPatient = async (id: number): Promise<Patient | undefined> => {
+  if (!isSupported()) return undefined;
+  return run<Patient | undefined>(PATIENT_STORE, 'readonly', store => store.get(id));
+};
+
+export const getAllCachedPatients = async (): Promise<Patient[]> => {
+  if (!isSupported()) return [];
+  return run<Patient[]>(PATIENT_STORE, 'readonly', store => store.getAll());
+};
+
+export const removeCachedPatient = async (id: number) => {
+  if (!isSupported()) return;
+  await run(PATIENT_STORE, 'readwrite', store => store.delete(id));
+};
+
+// --- Antrean mutasi ---
+
+export const setQueueOwner = (userId: number | null) => {
+  if (userId === queueOwner) return;
+  queueOwner = userId;
+  if (isSupported()) notifyQueueChange();
+};
+
+// Pasien baru memakai id antrean (unik, auto increment) yang dinegatifkan sebagai ID sementara
+export const enqueueMutation = async <M extends NewQueuedMutation>(
+  mutation: M
+): Promise<Extract<QueuedMutation, { type: M['type'] }>> => {
+  if (queueOwner === null) {
+    throw new Error('Antrean offline hanya bisa dipakai setelah login');
+  }
+  const entry = { patientId: 0, ...mutation, userId: queueOwner, queuedAt: new Date().toISOString(), status: 'pending' };
+  const id = (await run(MUTATION_STORE, 'readwrite', store => store.add(entry))) as number;
+  const queued = { ...entry, id, ...(mutation.type === 'create' ? { patientId: -id } : {}) } as QueuedMutation;
+  if (mutation.type === 'create') {
+    await run(MUTATION_STORE, 'readwrite', store => store.put(queued));
+  }
+  notifyQueueChange();
+  return queued as Extract<QueuedMutation, { type: M['type'] }>;
+};
+
+// Antrean milik pengguna yang sedang login, urut sesuai waktu masuk antrean (key auto increment)
+export const getQueuedMutations = async (): Promise<QueuedMutation[]> => {
+  if (!isSupported() || queueOwner === null) return [];
+  const userId = queueOwner;
+  const mutations = await run<QueuedMutation[]>(MUTATION_STORE, 'readonly', store => store.getAll());
+  return mutations.filter(mutation => mutation.userId === userId);
+};
+
+export const updateQueuedMutation = async (mutation: QueuedMutation) => {
+  await run(MUTATION_STORE, 'readwrite', store => store.put(mutation));
+  notifyQueueChange();
+};
+
+export const removeQueuedMutation = async (id: number) => {
+  await run(MUTATION_STORE, 'readwrite', store => store.delete(id));
+  notifyQueueChange();
+};
+
+// --- Logout ---
+
+// Hapus cache daftar & detail pasien setiap kali sesi berakhir, agar tidak terbaca pengguna berikutnya
+// di komputer yang sama. Antrean tetap disimpan: sesi yang kedaluwarsa saat offline tidak boleh
+// menghilangkan pendaftaran yang belum terkirim.
+export const clearOfflineCache = async () => {
+  if (!isSupported()) return;
+  await Promise.all([LIST_STORE, PATIENT_STORE].map(storeName => run(storeName, 'readwrite', store => store.clear())));
+};
+
+// Hanya untuk logout yang dikonfirmasi pengguna: buang antrean milik pengguna yang sedang login
+export const clearQueuedMutations = async () => {
+  const mutations = await getQueuedMutations();
+  await Promise.all(mutations.map(mutation => run(MUTATION_STORE, 'readwrite', store => store.delete(mutation.id!))));
+  notifyQueueChange();
+};
@@ -0,0 +1,78 @@
+import { sendQueuedMutation, getApiErrorMessage, ApiRequestError } from './api';
+import { getQueuedMutations, updateQueuedMutation, removeQueuedMutation, removeCachedPatient } from './offlineDb';
+import { translate } from './i18n';
+
+export interface SyncResult {
+  synced: number;
+  rejected: number;
+  // true jika berhenti di tengah karena koneksi putus lagi
+  interrupted: boolean;
+}
+
+let runningSync: Promise<SyncResult> | null = null;
+
+// Kirim ulang antrean pengguna yang login sesuai urutan masuk. Yang ditolak server ditandai 'rejected'
+// beserta alasannya dan dilewati; jika koneksi putus lagi, sisa antrean dibiarkan untuk sinkronisasi berikutnya.
+const replayQueue = async (): Promise<SyncResult> => {
+  const result: SyncResult = { synced: 0, rejected: 0, interrupted: false };
+  const queue = (await getQueuedMutations()).filter(mutation => mutation.status === 'pending');
+
+  for (let i = 0; i < queue.length; i++) {
+    const mutation = queue[i];
+
+    // Perubahan untuk pasien baru yang gagal dibuat tidak bisa dikirim
+    if (mutation.type !== 'create' && mutation.patientId < 0) {
+      await updateQueuedMutation({
+        ...mutation,
+        status: 'rejected',
+        error: translate('offline.createRejected'),
+      });
+      result.rejected++;
+      continue;
+    }
+
+    try {
+      const saved = await sendQueuedMutation(mutation);
+
+      // Ganti ID sementara dengan ID dari server untuk mutasi berikutnya pada pasien yang sama
+      if (mutation.type === 'create' && saved) {
+        for (let j = i + 1; j < queue.length; j++) {
+          if (queue[j].patientId === mutation.patientId) {
+            queue[j] = { ...queue[j], patientId: saved.id };
+            await updateQueuedMutation(queue[j]);
+          }
+        }
+      }
+      if (mutation.type === 'delete') {
+        await removeCachedPatient(mutation.patientId);
+      }
+
+      await removeQueuedMutation(mutation.id!);
+      result.synced++;
+    } catch (error) {
+      // Sesi berakhir (401): sisa antrean tetap tersimpan dan dikirim setelah pengguna login lagi
+      if (error instanceof ApiRequestError && (error.isNetworkError || error.statusCode === 401)) {
+        result.interrupted = true;
+        break;
+      }
+      await updateQueuedMutation({
+        ...mutation,
+        status: 'rejected',
+        error: getApiErrorMessage(error, translate('offline.rejectedByServer')),
+      });
+      result.rejected++;
+    }
+  }
+
+  return result;
+};
+
+// Hanya satu sinkronisasi berjalan pada satu waktu
+export const syncQueuedMutations = (): Promise<SyncResult> => {
+  if (!runningSync) {
+    runningSync = replayQueue().finally(() => {
+      runningSync = null;
+    });
+  }
+  return runningSync;
+};
@@ -0,0 +1,98 @@
+import { Patient } from '../types/patient';
+import { formatDate } from './format';
+import { CLINIC_NAME, escapeHtml } from './patientExport';
+import { getPatientById } from './api';
+import { runWithConcurrency } from './concurrency';
+import { translate, getActiveLocale, Translate } from './i18n';
+
+const CARD_FETCH_CONCURRENCY = 4;
+
+// Nomor rekam medis di kartu, contoh: RM-000123. Ini juga isi QR code kartu.
+export const formatPatientNumber = (id: number) => `RM-${String(id).padStart(6, '0')}`;
+
+// Id pasien dari hasil scan QR/barcode atau ketikan: "RM-000123", "rm000123", atau "123"
+export const parsePatientNumber = (value: string): number | null => {
+  const match = value.trim().match(/^(?:RM-?)?0*(\d{1,9})$/i);
+  const id = match ? parseInt(match[1], 10) : NaN;
+  return id > 0 ? id : null;
+};
+
+// NIK tersamar untuk kartu: kode wilayah dan 4 digit terakhir tetap terlihat, contoh: 317101******0001
+export const maskNik = (nik: string) =>
+  nik.length > 10 ? `${nik.slice(0, 6)}${'*'.repeat(nik.length - 10)}${nik.slice(-4)}` : nik;
+
+const cardHtml = (patient: Patient, qrSvg: string, t: Translate) => `
+    <div class="card">
+      <div class="card-header">
+        <span class="clinic">${escapeHtml(CLINIC_NAME)}</span>
+        <span class="title">${escapeHtml(t('card.title'))}</span>
+      </div>
+      <div class="card-body">
+        <dl>
+          <dt>${escapeHtml(t('card.name'))}</dt><dd class="name">${escapeHtml(patient.nama)}</dd>
+          <dt>${escapeHtml(t('card.number'))}</dt><dd>${escapeHtml(formatPatientNumber(patient.id))}</dd>
+          <dt>${escapeHtml(t('card.nik'))}</dt><dd>${escapeHtml(maskNik(patient.nik))}</dd>
+          <dt>${escapeHtml(t('card.birthDate'))}</dt><dd>${escapeHtml(formatDate(patient.tanggal_lahir))}</dd>
+          <dt>${escapeHtml(t('card.bloodType'))}</dt><dd>${escapeHtml(patient.golongan_darah || '-')}</dd>
+        </dl>
+        <div class="qr">${qrSvg}</div>
+      </div>
+    </div>`;
+
+// Ambil ulang pasien yang akan dicetak agar kartu memakai data terbaru di server.
+// Gagal jika salah satu pasien tidak bisa diambil (misalnya sudah dihapus).
+export const fetchCardPatients = async (ids: number[]): Promise<Patient[]> => {
+  const outcomes = await runWithConcurrency(ids, CARD_FETCH_CONCURRENCY, id => getPatientById(id));
+  return outcomes.map((outcome) => {
+    if (outcome.status === 'rejected') {
+      throw outcome.reason;
+    }
+    return outcome.value;
+  });
+};
+
+// Susun kartu pasien ukuran KTP (85,6 × 54 mm) siap cetak, beberapa kartu per halaman A4.
+// QR code berisi nomor RM sehingga bisa dipindai di halaman Pindai Kartu.
+export const buildPatientCards = async (patients: Patient[], t: Translate = translate): Promise<string> => {
+  const QRCode = await import('qrcode');
+  const cards = await Promise.all(
+    patients.map(async patient => cardHtml(
+      patient,
+      await QRCode.toString(formatPatientNumber(patient.id), { type: 'svg', margin: 0, errorCorrectionLevel: 'M' }),
+      t
+    ))
+  );
+
+  return `<!DOCTYPE html>
+<html lang="${getActiveLocale()}">
+<head>
+  <meta charset="utf-8" />
+  <title>${escapeHtml(t('card.pageTitle'))}</title>
+  <style>
+    @page { size: A4 portrait; margin: 10mm; }
+    body { font-family: -apple-system, 'Segoe UI', Roboto, sans-serif; color: #111; margin: 0; }
+    .sheet { display: flex; flex-wrap: wrap; gap: 6mm; }
+    .card {
+      width: 85.6mm; height: 54mm; box-sizing: border-box; padding: 3mm 4mm;
+      border: 0.3mm solid #555; border-radius: 3mm; overflow: hidden;
+      page-break-inside: avoid; break-inside: avoid;
+    }
+    .card-header { display: flex; justify-content: space-between; align-items: baseline; border-bottom: 0.5mm solid #1d4ed8; padding-bottom: 1.5mm; }
+    .clinic { font-size: 8pt; font-weight: bold; color: #1d4ed8; }
+    .title { font-size: 7pt; letter-spacing: 0.5mm; color: #444; }
+    .card-body { display: flex; justify-content: space-between; gap: 3mm; padding-top: 2mm; }
+    dl { display: grid; grid-template-columns: auto 1fr; column-gap: 2mm; row-gap: 0.8mm; margin: 0; font-size: 7.5pt; }
+    dt { color: #555; }
+    dd { margin: 0; font-weight: 600; }
+    dd.name { font-size: 9pt; }
+    .qr { width: 24mm; height: 24mm; flex-shrink: 0; }
+    .qr svg { width: 100%; height: 100%; }
+    * { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  </style>
+</head>
+<body>
+  <div class="sheet">${cards.join('')}
+  </div>
+</body>
+</html>`;
+};
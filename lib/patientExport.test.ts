@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import type { Patient } from '../types/patient';
+import { patientsToCsv } from './patientExport';
+import { parseCsv } from './csv';
+
+const patient: Patient = {
+  id: 1,
+  nama: '=HYPERLINK("http://contoh")',
+  nik: '3171014508900001',
+  tanggal_lahir: '1990-08-05',
+  jenis_kelamin: 'Perempuan',
+  alamat: 'Jl. Merdeka No. 1',
+  no_telepon: '+6281234567890',
+  golongan_darah: 'A',
+  email: 'siti@example.com',
+  created_at: '2025-01-01T00:00:00.000Z',
+  updated_at: '2025-01-01T00:00:00.000Z',
+};
+
+describe('patientsToCsv', () => {
+  it('menulis telepon dalam bentuk nasional tanpa pengaman rumus', () => {
+    const [header, row] = parseCsv(patientsToCsv([patient]));
+    expect(row[header.indexOf('no_telepon')]).toBe('0812-3456-7890');
+  });
+
+  it('nilai yang terbaca sebagai rumus tetap diawali tanda kutip', () => {
+    const [header, row] = parseCsv(patientsToCsv([patient]));
+    expect(row[header.indexOf('nama')]).toBe(`'=HYPERLINK("http://contoh")`);
+  });
+
+  it('telepon lama yang tidak valid ditulis apa adanya', () => {
+    const [header, row] = parseCsv(patientsToCsv([{ ...patient, no_telepon: '12345' }]));
+    expect(row[header.indexOf('no_telepon')]).toBe('12345');
+  });
+});
@@ -0,0 +1,137 @@
+import { Patient } from '../types/patient';
+import { getAllPatients, searchPatients, PatientListParams } from './api';
+import { formatDate, formatDateTime } from './format';
+import { formatPhone } from './phone';
+import { toCsv } from './csv';
+import { PATIENT_FIELD_NAMES, genderLabel } from './patientSchema';
+import { translate, getActiveLocale, MessageKey, Translate } from './i18n';
+
+const EXPORT_PAGE_SIZE = 100;
+
+export const CLINIC_NAME = process.env.NEXT_PUBLIC_CLINIC_NAME || 'Sistem Manajemen Pasien';
+
+const EXPORT_FIELDS: (keyof Patient)[] = ['id', ...PATIENT_FIELD_NAMES, 'created_at', 'updated_at'];
+
+// Ambil seluruh hasil query (semua halaman) untuk diekspor
+export const fetchAllPatients = async (
+  params: Omit<PatientListParams, 'page' | 'limit'>,
+  keyword = ''
+): Promise<Patient[]> => {
+  const patients: Patient[] = [];
+  let page = 1;
+  let totalPages = 1;
+
+  do {
+    const query = { ...params, page, limit: EXPORT_PAGE_SIZE };
+    const result = keyword ? await searchPatients(keyword, query) : await getAllPatients(query);
+    patients.push(...result.data);
+    totalPages = result.totalPages;
+    page++;
+  } while (page <= totalPages);
+
+  return patients;
+};
+
+// CSV berisi semua field pasien. Telepon ditulis dalam bentuk nasional (0812-…): bentuk E.164 diawali +
+// sehingga akan diberi ' oleh pengaman rumus, dan bentuk nasional tetap bisa diimpor ulang.
+export const patientsToCsv = (patients: Patient[]): string =>
+  toCsv([
+    EXPORT_FIELDS,
+    ...patients.map(patient => EXPORT_FIELDS.map(field =>
+      field === 'no_telepon' ? formatPhone(patient.no_telepon) : patient[field] ?? ''
+    )),
+  ]);
+
+export const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const REPORT_COLUMNS: MessageKey[] = [
+  'home.col.no',
+  'home.col.nama',
+  'home.col.nik',
+  'home.col.tanggalLahir',
+  'home.col.jenisKelamin',
+  'home.col.noTelepon',
+  'home.col.golonganDarah',
+  'field.alamat',
+  'home.col.createdAt',
+];
+
+// Susun laporan HTML siap cetak ukuran A4
+export const buildPrintableReport = (
+  patients: Patient[],
+  filterDescription: string,
+  generatedAt = new Date(),
+  t: Translate = translate
+): string => {
+  const rows = patients
+    .map((patient, index) => `
+      <tr>
+        <td>${index + 1}</td>
+        <td>${escapeHtml(patient.nama)}</td>
+        <td>${escapeHtml(patient.nik)}</td>
+        <td>${escapeHtml(formatDate(patient.tanggal_lahir))}</td>
+        <td>${escapeHtml(genderLabel(patient.jenis_kelamin, t))}</td>
+        <td>${escapeHtml(formatPhone(patient.no_telepon))}</td>
+        <td>${escapeHtml(patient.golongan_darah)}</td>
+        <td>${escapeHtml(patient.alamat)}</td>
+        <td>${escapeHtml(formatDate(patient.created_at))}</td>
+      </tr>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="${getActiveLocale()}">
+<head>
+  <meta charset="utf-8" />
+  <title>${escapeHtml(t('report.title'))}</title>
+  <style>
+    @page { size: A4 landscape; margin: 12mm; }
+    body { font-family: -apple-system, 'Segoe UI', Roboto, sans-serif; font-size: 10pt; color: #111; }
+    header { border-bottom: 2px solid #111; margin-bottom: 12px; padding-bottom: 8px; }
+    h1 { font-size: 16pt; margin: 0; }
+    h2 { font-size: 12pt; margin: 4px 0 0; font-weight: normal; }
+    .meta { font-size: 9pt; color: #444; margin-top: 4px; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { border: 1px solid #999; padding: 4px 6px; text-align: left; vertical-align: top; }
+    th { background: #eee; }
+    thead { display: table-header-group; }
+    tr { page-break-inside: avoid; }
+  </style>
+</head>
+<body>
+  <header>
+    <h1>${escapeHtml(CLINIC_NAME)}</h1>
+    <h2>${escapeHtml(t('report.title'))}</h2>
+    <p class="meta">
+      ${escapeHtml(t('report.generatedAt', { time: formatDateTime(generatedAt.toISOString()) }))}
+      &middot; ${escapeHtml(t('report.filter', { filter: filterDescription }))}
+      &middot; ${escapeHtml(t('report.count', { count: patients.length }))}
+    </p>
+  </header>
+  <table>
+    <thead>
+      <tr>
+        ${REPORT_COLUMNS.map(key => `<th>${escapeHtml(t(key))}</th>`).join('')}
+      </tr>
+    </thead>
+    <tbody>${rows}</tbody>
+  </table>
+</body>
+</html>`;
+};
+
+// Jendela cetak harus dibuka langsung dari klik pengguna (sebelum await) agar tidak diblokir pop-up blocker
+export const openPrintWindow = (): Window | null => window.open('', '_blank');
+
+// Tulis laporan ke jendela cetak lalu tampilkan dialog cetak (bisa disimpan sebagai PDF)
+export const printReport = (printWindow: Window, html: string) => {
+  printWindow.document.open();
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+};
@@ -0,0 +1,21 @@
+import { Patient, PatientFormData, FormErrors } from '../types/patient';
+import {
+  emptyPatientFormValues,
+  toPatientFormValues,
+  validatePatientFields,
+  normalizePatientFormValues,
+} from './patientSchema';
+import { translate, Translate } from './i18n';
+
+export const initialFormData: PatientFormData = emptyPatientFormValues();
+
+// Ubah data pasien dari API menjadi nilai awal form edit
+export const patientToFormData = (patient: Patient): PatientFormData => toPatientFormValues(patient);
+
+// Validasi data form pasien, mengembalikan pesan error per field dalam bahasa aktif
+export const validatePatientForm = (formData: PatientFormData, t: Translate = translate): FormErrors =>
+  validatePatientFields(formData, t);
+
+// Bentuk baku sebelum disimpan, mis. no telepon dalam format E.164
+export const normalizePatientFormData = (formData: PatientFormData): PatientFormData =>
+  normalizePatientFormValues(formData);
@@ -0,0 +1,27 @@
+import { PatientFormData } from '../types/patient';
+import type { CreatePatientData, FieldChange, RevisionAction } from './api';
+import { PATIENT_FIELD_NAMES, toPatientFormValues } from './patientSchema';
+import type { MessageKey } from './i18n';
+
+export const REVISION_ACTION_LABELS: Record<RevisionAction, MessageKey> = {
+  create: 'history.action.create',
+  update: 'history.action.update',
+  delete: 'history.action.delete',
+  restore: 'history.action.restore',
+};
+
+// Snapshot revisi -> data form (field kosong seperti email opsional menjadi '')
+export const snapshotToFormData = (snapshot: Partial<CreatePatientData>): PatientFormData =>
+  toPatientFormValues(snapshot);
+
+// Field yang nilainya berbeda antara dua versi data pasien
+export const diffPatientFields = (
+  before: Partial<CreatePatientData>,
+  after: Partial<CreatePatientData>
+): FieldChange[] => {
+  const oldData = snapshotToFormData(before);
+  const newData = snapshotToFormData(after);
+  return PATIENT_FIELD_NAMES
+    .filter(field => oldData[field] !== newData[field])
+    .map(field => ({ field, old_value: oldData[field], new_value: newData[field] }));
+};
@@ -0,0 +1,143 @@
+import { PatientFormData, FormErrors } from '../types/patient';
+import { initialFormData, validatePatientForm, normalizePatientFormData } from './patientForm';
+import { PATIENT_FIELD_NAMES, getPatientField } from './patientSchema';
+import { parseCsv, stripFormulaGuard } from './csv';
+import { translate } from './i18n';
+import type { ExistingNik } from './api';
+
+export type PatientField = keyof PatientFormData;
+
+// Nama kolom file -> field pasien. Nilai '' berarti kolom tidak dipetakan.
+export type ColumnMapping = Record<PatientField, string>;
+
+export interface SpreadsheetData {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportRow {
+  rowNumber: number; // nomor baris di file (baris 1 = header), atau nomor entry untuk Bundle FHIR
+  data: PatientFormData;
+  errors: FormErrors;
+  duplicateOfRow?: number;
+  existingPatientId?: number; // NIK sudah dipakai pasien ini di server
+}
+
+export const PATIENT_FIELDS = PATIENT_FIELD_NAMES.map(field => ({
+  field,
+  label: getPatientField(field).label,
+  aliases: getPatientField(field).importAliases,
+}));
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[._]+/g, ' ').replace(/\s+/g, ' ');
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const toIsoDate = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Baca file CSV atau Excel (sheet pertama) menjadi header + baris
+export const readSpreadsheet = async (file: File): Promise<SpreadsheetData> => {
+  let table: string[][];
+
+  if (/\.csv$/i.test(file.name)) {
+    table = parseCsv(await file.text());
+  } else {
+    // Build SheetJS 0.20.x yang diterbitkan ulang di npm; paket xlsx 0.18.x di npm punya celah (CVE-2023-30533, CVE-2024-22363)
+    const XLSX = await import('@e965/xlsx');
+    const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    const raw = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: '' });
+    table = raw
+      .map(row => row.map(cell => (cell instanceof Date ? toIsoDate(cell) : String(cell ?? '').trim())))
+      .filter(row => row.some(cell => cell !== ''));
+  }
+
+  if (table.length === 0) {
+    throw new Error(translate('import.emptyFile'));
+  }
+
+  const [headers, ...rows] = table;
+  return { headers: headers.map(header => header.trim()), rows };
+};
+
+// Tebak pemetaan kolom dari nama header
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping = { ...initialFormData } as ColumnMapping;
+  PATIENT_FIELDS.forEach(({ field, aliases }) => {
+    const match = headers.find(header => aliases.includes(normalizeHeader(header)));
+    mapping[field] = match || '';
+  });
+  return mapping;
+};
+
+// Terima YYYY-MM-DD, DD/MM/YYYY atau DD-MM-YYYY
+const normalizeDate = (value: string): string => {
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) return `${iso[1]}-${pad(Number(iso[2]))}-${pad(Number(iso[3]))}`;
+  const local = value.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+  if (local) return `${local[3]}-${pad(Number(local[2]))}-${pad(Number(local[1]))}`;
+  return value;
+};
+
+const normalizeGender = (value: string): string => {
+  const gender = value.trim().toLowerCase();
+  if (['l', 'laki-laki', 'laki laki', 'pria', 'male', 'm'].includes(gender)) return 'Laki-laki';
+  if (['p', 'perempuan', 'wanita', 'female', 'f'].includes(gender)) return 'Perempuan';
+  return value.trim();
+};
+
+// Ubah satu baris file menjadi data form pasien sesuai pemetaan kolom
+const mapRow = (row: string[], headers: string[], mapping: ColumnMapping): PatientFormData => {
+  const data = { ...initialFormData };
+  PATIENT_FIELDS.forEach(({ field }) => {
+    const columnIndex = mapping[field] ? headers.indexOf(mapping[field]) : -1;
+    data[field] = columnIndex >= 0 ? stripFormulaGuard((row[columnIndex] ?? '').trim()).trim() : '';
+  });
+
+  data.tanggal_lahir = normalizeDate(data.tanggal_lahir);
+  data.jenis_kelamin = normalizeGender(data.jenis_kelamin);
+  data.golongan_darah = data.golongan_darah.toUpperCase();
+  return normalizePatientFormData(data);
+};
+
+// Kode provinsi di kolom yang dipetakan ke provinsi, untuk memuat data wilayahnya sebelum validasi
+export const importProvinceCodes = (spreadsheet: SpreadsheetData, mapping: ColumnMapping): string[] => {
+  const columnIndex = mapping.provinsi_kode ? spreadsheet.headers.indexOf(mapping.provinsi_kode) : -1;
+  return columnIndex >= 0 ? spreadsheet.rows.map(row => (row[columnIndex] ?? '').trim()) : [];
+};
+
+// Tandai baris yang NIK-nya sudah muncul di baris sebelumnya dalam file yang sama
+export const markDuplicateNiks = (rows: ImportRow[]): ImportRow[] => {
+  const firstRowByNik = new Map<string, number>();
+
+  return rows.map((row) => {
+    if (!row.data.nik) return row;
+    const firstRow = firstRowByNik.get(row.data.nik);
+    if (firstRow) return { ...row, duplicateOfRow: firstRow };
+    firstRowByNik.set(row.data.nik, row.rowNumber);
+    return row;
+  });
+};
+
+// Tandai baris yang NIK-nya sudah terdaftar di server (hasil findExistingNiks)
+export const markExistingNiks = (rows: ImportRow[], existing: ExistingNik[]): ImportRow[] => {
+  if (existing.length === 0) return rows;
+  const patientIdByNik = new Map(existing.map(({ nik, id }) => [nik, id]));
+
+  return rows.map((row) => {
+    const existingPatientId = row.data.nik ? patientIdByNik.get(row.data.nik) : undefined;
+    return existingPatientId === undefined ? row : { ...row, existingPatientId };
+  });
+};
+
+// Petakan & validasi semua baris dengan aturan yang sama seperti form, termasuk NIK ganda di dalam file
+export const buildImportRows = (spreadsheet: SpreadsheetData, mapping: ColumnMapping): ImportRow[] =>
+  markDuplicateNiks(
+    spreadsheet.rows.map((row, index) => {
+      const data = mapRow(row, spreadsheet.headers, mapping);
+      return { rowNumber: index + 2, data, errors: validatePatientForm(data) };
+    })
+  );
+
+export const isImportRowValid = (row: ImportRow) =>
+  Object.keys(row.errors).length === 0 && row.duplicateOfRow === undefined && row.existingPatientId === undefined;
@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Patient, Visit } from '../types/patient';
+import { ApiRequestError, deletePatient, getPatientVisits, mergeDuplicatePatient, updatePatient } from './api';
+import { MergeBlockedError, mergePatients } from './patientMerge';
+import { patientToFormData } from './patientForm';
+
+vi.mock('./api', async importOriginal => ({
+  ...(await importOriginal<typeof import('./api')>()),
+  mergeDuplicatePatient: vi.fn(),
+  getPatientVisits: vi.fn(),
+  updatePatient: vi.fn(),
+  deletePatient: vi.fn(),
+}));
+
+const patient = (id: number, nik: string): Patient => ({
+  id,
+  nama: 'Siti Aminah',
+  nik,
+  tanggal_lahir: '1990-08-05',
+  jenis_kelamin: 'Perempuan',
+  alamat: 'Jl. Merdeka No. 1',
+  no_telepon: '+6281234567890',
+  golongan_darah: 'A',
+  created_at: '2025-01-01T00:00:00.000Z',
+  updated_at: '2025-01-01T00:00:00.000Z',
+});
+
+const survivor = patient(1, '3171014508900001');
+const duplicate = patient(2, '3171014508900002');
+const merged = patientToFormData(survivor);
+
+describe('mergePatients', () => {
+  beforeEach(() => {
+    vi.mocked(mergeDuplicatePatient).mockReset();
+    vi.mocked(getPatientVisits).mockReset();
+    vi.mocked(updatePatient).mockReset();
+    vi.mocked(deletePatient).mockReset();
+  });
+
+  it('menggabungkan lewat server dengan versi pasien yang dipertahankan', async () => {
+    vi.mocked(mergeDuplicatePatient).mockResolvedValue(survivor);
+    await expect(mergePatients(survivor, duplicate, merged)).resolves.toBe(survivor);
+    expect(mergeDuplicatePatient).toHaveBeenCalledWith(1, 2, merged, survivor.updated_at);
+    expect(updatePatient).not.toHaveBeenCalled();
+  });
+
+  it('tanpa endpoint merge, duplikat yang punya kunjungan tidak digabung', async () => {
+    vi.mocked(mergeDuplicatePatient).mockRejectedValue(new ApiRequestError(404, 'Not Found'));
+    vi.mocked(getPatientVisits).mockResolvedValue([{ id: 5, patient_id: 2 } as Visit]);
+    await expect(mergePatients(survivor, duplicate, merged)).rejects.toBeInstanceOf(MergeBlockedError);
+    expect(updatePatient).not.toHaveBeenCalled();
+    expect(deletePatient).not.toHaveBeenCalled();
+  });
+
+  it('tanpa endpoint merge dan tanpa kunjungan, digabung dari client', async () => {
+    vi.mocked(mergeDuplicatePatient).mockRejectedValue(new ApiRequestError(404, 'Not Found'));
+    vi.mocked(getPatientVisits).mockResolvedValue([]);
+    vi.mocked(updatePatient).mockResolvedValue(survivor);
+    vi.mocked(deletePatient).mockResolvedValue({ message: 'ok' });
+    await mergePatients(survivor, duplicate, merged);
+    expect(updatePatient).toHaveBeenCalledWith(1, merged, survivor.updated_at);
+    expect(deletePatient).toHaveBeenCalledWith(2);
+  });
+
+  it('error lain dari server diteruskan tanpa cadangan', async () => {
+    const conflict = new ApiRequestError(409, 'Data pasien telah diubah oleh pengguna lain');
+    vi.mocked(mergeDuplicatePatient).mockRejectedValue(conflict);
+    await expect(mergePatients(survivor, duplicate, merged)).rejects.toBe(conflict);
+    expect(getPatientVisits).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,116 @@
+import { Patient, PatientFormData } from '../types/patient';
+import {
+  updatePatient,
+  deletePatient,
+  getApiErrorMessage,
+  getPatientVisits,
+  isMissingEndpoint,
+  mergeDuplicatePatient,
+} from './api';
+import { patientToFormData } from './patientForm';
+import { translate } from './i18n';
+
+// Dilempar jika penggabungan berhenti di tengah dan tidak bisa dibatalkan otomatis;
+// `survivor` adalah versi terakhir pasien yang dipertahankan di server
+export class PartialMergeError extends Error {
+  survivor: Patient;
+
+  constructor(message: string, survivor: Patient) {
+    super(message);
+    Object.setPrototypeOf(this, PartialMergeError.prototype);
+    this.name = 'PartialMergeError';
+    this.survivor = survivor;
+  }
+}
+
+// Dilempar sebelum apa pun diubah jika penggabungan tidak bisa dilakukan tanpa kehilangan data
+export class MergeBlockedError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, MergeBlockedError.prototype);
+    this.name = 'MergeBlockedError';
+  }
+}
+
+export type MergeSource = 'survivor' | 'duplicate';
+
+export type MergeChoices = Record<keyof PatientFormData, MergeSource>;
+
+// Default: nilai pasien yang dipertahankan, kecuali kosong dan pasangannya terisi
+export const initialMergeChoices = (survivor: Patient, duplicate: Patient): MergeChoices => {
+  const kept = patientToFormData(survivor);
+  const other = patientToFormData(duplicate);
+  return Object.fromEntries(
+    (Object.keys(kept) as (keyof PatientFormData)[]).map(field => [
+      field,
+      !kept[field] && other[field] ? 'duplicate' : 'survivor',
+    ])
+  ) as MergeChoices;
+};
+
+export const buildMergedData = (survivor: Patient, duplicate: Patient, choices: MergeChoices): PatientFormData => {
+  const kept = patientToFormData(survivor);
+  const other = patientToFormData(duplicate);
+  const merged = { ...kept };
+  (Object.keys(merged) as (keyof PatientFormData)[]).forEach((field) => {
+    if (choices[field] === 'duplicate') {
+      merged[field] = other[field];
+    }
+  });
+  return merged;
+};
+
+// Cadangan tanpa endpoint merge: simpan gabungan ke pasien yang dipertahankan lalu pindahkan duplikatnya ke Sampah.
+// NIK harus unik di antara pasien aktif, jadi jika NIK yang dipilih milik duplikat,
+// NIK baru dipindahkan setelah duplikat masuk Sampah.
+// Jika duplikat gagal dihapus, pasien yang dipertahankan dikembalikan ke data semula; jika itu juga
+// gagal (atau NIK gagal dipindahkan), PartialMergeError menjelaskan keadaan yang tersisa.
+const mergeOnClient = async (survivor: Patient, duplicate: Patient, merged: PatientFormData): Promise<Patient> => {
+  const takesDuplicateNik = merged.nik === duplicate.nik && merged.nik !== survivor.nik;
+
+  let saved = await updatePatient(
+    survivor.id,
+    takesDuplicateNik ? { ...merged, nik: survivor.nik } : merged,
+    survivor.updated_at
+  );
+
+  try {
+    await deletePatient(duplicate.id);
+  } catch (error) {
+    const reason = getApiErrorMessage(error, translate('merge.failed'));
+    try {
+      await updatePatient(survivor.id, patientToFormData(survivor), saved.updated_at);
+    } catch (revertError) {
+      throw new PartialMergeError(translate('merge.partialNotDeleted', { id: duplicate.id, reason }), saved);
+    }
+    throw error;
+  }
+
+  if (takesDuplicateNik) {
+    try {
+      saved = await updatePatient(survivor.id, { nik: merged.nik }, saved.updated_at);
+    } catch (error) {
+      throw new PartialMergeError(translate('merge.partialNikNotMoved', { nik: merged.nik, id: duplicate.id }), saved);
+    }
+  }
+  return saved;
+};
+
+// Gabungkan lewat server (POST /patients/:id/merge) agar kunjungan & riwayat duplikat ikut pindah ke pasien
+// yang dipertahankan. Backend tanpa endpoint itu memakai mergeOnClient.
+export const mergePatients = async (survivor: Patient, duplicate: Patient, merged: PatientFormData): Promise<Patient> => {
+  try {
+    return await mergeDuplicatePatient(survivor.id, duplicate.id, merged, survivor.updated_at);
+  } catch (error) {
+    if (!isMissingEndpoint(error)) {
+      throw error;
+    }
+  }
+
+  // Kunjungan tidak bisa dipindahkan dari client dan akan terhapus jika duplikat dihapus permanen dari Sampah
+  const visits = await getPatientVisits(duplicate.id);
+  if (visits.length > 0) {
+    throw new MergeBlockedError(translate('merge.duplicateHasVisits', { id: duplicate.id, count: visits.length }));
+  }
+  return mergeOnClient(survivor, duplicate, merged);
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { defaultListState, parseListQuery, toUrlQuery } from './patientQuery';
+
+describe('parseListQuery', () => {
+  it('query kosong menghasilkan state default', () => {
+    expect(parseListQuery({})).toEqual(defaultListState);
+  });
+
+  it('membaca semua parameter yang valid', () => {
+    expect(parseListQuery({
+      page: '3',
+      limit: '50',
+      sortBy: 'nama',
+      sortOrder: 'asc',
+      q: '  siti ',
+      jenis_kelamin: 'Perempuan',
+      golongan_darah: 'A,AB',
+      umur_min: '18',
+      umur_max: '60',
+      created_from: '2025-01-01',
+      created_to: '2025-06-30',
+      email: 'kosong',
+      provinsi_kode: '31',
+    })).toEqual({
+      page: 3,
+      limit: 50,
+      sortBy: 'nama',
+      sortOrder: 'asc',
+      q: 'siti',
+      jenis_kelamin: 'Perempuan',
+      golongan_darah: 'A,AB',
+      umur_min: 18,
+      umur_max: 60,
+      created_from: '2025-01-01',
+      created_to: '2025-06-30',
+      email: 'kosong',
+      provinsi_kode: '31',
+    });
+  });
+
+  it('nilai yang tidak valid jatuh ke default', () => {
+    expect(parseListQuery({
+      page: '0',
+      limit: '30',
+      sortBy: 'alamat',
+      sortOrder: 'up',
+      umur_min: '-1',
+      umur_max: '1000',
+      created_from: '01-01-2025',
+      created_to: 'kemarin',
+      email: 'semua',
+    })).toEqual(defaultListState);
+    expect(parseListQuery({ page: '2x', limit: '1e2' })).toMatchObject({ page: 1, limit: defaultListState.limit });
+  });
+
+  it('parameter yang diulang memakai nilai pertama', () => {
+    expect(parseListQuery({ page: ['2', '5'], q: ['budi', 'siti'] })).toMatchObject({ page: 2, q: 'budi' });
+  });
+
+  it('hasil toUrlQuery terbaca kembali sebagai state yang sama', () => {
+    const state = { ...defaultListState, page: 4, sortBy: 'tanggal_lahir' as const, umur_min: 0, email: 'ada' as const };
+    expect(parseListQuery(toUrlQuery(state))).toEqual(state);
+  });
+});
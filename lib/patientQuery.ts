@@ -0,0 +1,192 @@
+import type { ParsedUrlQuery } from 'querystring';
+import type { Patient } from '../types/patient';
+import type { PatientSortField, SortOrder, PatientListParams, PatientFilterParams, EmailFilter } from './api';
+import { calculateAge } from './format';
+import { genderLabel } from './patientSchema';
+import { findRegion } from './regions';
+import { translate, Translate } from './i18n';
+
+export const PAGE_SIZE_OPTIONS = [10, 25, 50, 100];
+
+export const SORT_FIELDS: PatientSortField[] = ['nama', 'tanggal_lahir', 'created_at'];
+
+export interface PatientListState {
+  page: number;
+  limit: number;
+  sortBy: PatientSortField;
+  sortOrder: SortOrder;
+  q: string;
+  // Filter; '' / null berarti tidak difilter
+  jenis_kelamin: string;
+  golongan_darah: string; // dipisah koma, contoh: A,AB
+  umur_min: number | null;
+  umur_max: number | null;
+  created_from: string; // YYYY-MM-DD
+  created_to: string;
+  email: EmailFilter | '';
+  provinsi_kode: string;
+}
+
+export const defaultListState: PatientListState = {
+  page: 1,
+  limit: PAGE_SIZE_OPTIONS[0],
+  sortBy: 'created_at',
+  sortOrder: 'desc',
+  q: '',
+  jenis_kelamin: '',
+  golongan_darah: '',
+  umur_min: null,
+  umur_max: null,
+  created_from: '',
+  created_to: '',
+  email: '',
+  provinsi_kode: '',
+};
+
+export const FILTER_KEYS = [
+  'jenis_kelamin',
+  'golongan_darah',
+  'umur_min',
+  'umur_max',
+  'created_from',
+  'created_to',
+  'email',
+  'provinsi_kode',
+] as const;
+
+const firstValue = (value: string | string[] | undefined): string | undefined =>
+  Array.isArray(value) ? value[0] : value;
+
+const parsePositiveInt = (value: string | undefined): number | undefined => {
+  if (!value || !/^[0-9]+$/.test(value)) return undefined;
+  const parsed = parseInt(value, 10);
+  return parsed > 0 ? parsed : undefined;
+};
+
+const parseAge = (value: string | undefined): number | null =>
+  value && /^[0-9]{1,3}$/.test(value) ? parseInt(value, 10) : null;
+
+const parseIsoDate = (value: string | undefined): string =>
+  value && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : '';
+
+// Baca state tabel dari query string, nilai yang tidak valid jatuh ke default
+export const parseListQuery = (query: ParsedUrlQuery): PatientListState => {
+  const page = parsePositiveInt(firstValue(query.page));
+  const limit = parsePositiveInt(firstValue(query.limit));
+  const sortBy = firstValue(query.sortBy) as PatientSortField | undefined;
+  const sortOrder = firstValue(query.sortOrder);
+  const q = firstValue(query.q);
+  const email = firstValue(query.email);
+
+  return {
+    page: page ?? defaultListState.page,
+    limit: limit && PAGE_SIZE_OPTIONS.includes(limit) ? limit : defaultListState.limit,
+    sortBy: sortBy && SORT_FIELDS.includes(sortBy) ? sortBy : defaultListState.sortBy,
+    sortOrder: sortOrder === 'asc' || sortOrder === 'desc' ? sortOrder : defaultListState.sortOrder,
+    q: q ? q.trim() : defaultListState.q,
+    jenis_kelamin: firstValue(query.jenis_kelamin) || '',
+    golongan_darah: firstValue(query.golongan_darah) || '',
+    umur_min: parseAge(firstValue(query.umur_min)),
+    umur_max: parseAge(firstValue(query.umur_max)),
+    created_from: parseIsoDate(firstValue(query.created_from)),
+    created_to: parseIsoDate(firstValue(query.created_to)),
+    email: email === 'ada' || email === 'kosong' ? email : '',
+    provinsi_kode: firstValue(query.provinsi_kode) || '',
+  };
+};
+
+// Tulis state tabel ke query string, nilai default tidak ikut ditulis agar URL tetap ringkas
+export const toUrlQuery = (state: PatientListState): Record<string, string> => {
+  const query: Record<string, string> = {};
+  (Object.keys(state) as (keyof PatientListState)[]).forEach((key) => {
+    if (state[key] !== defaultListState[key]) {
+      query[key] = String(state[key]);
+    }
+  });
+  return query;
+};
+
+export const hasActiveFilters = (state: PatientListState) =>
+  FILTER_KEYS.some(key => state[key] !== defaultListState[key]);
+
+// Filter aktif dalam bentuk parameter API (yang kosong tidak dikirim)
+export const toFilterParams = (state: PatientListState): PatientFilterParams => {
+  const params: PatientFilterParams = {};
+  if (state.jenis_kelamin) params.jenis_kelamin = state.jenis_kelamin;
+  if (state.golongan_darah) params.golongan_darah = state.golongan_darah;
+  if (state.umur_min !== null) params.umur_min = state.umur_min;
+  if (state.umur_max !== null) params.umur_max = state.umur_max;
+  if (state.created_from) params.created_from = state.created_from;
+  if (state.created_to) params.created_to = state.created_to;
+  if (state.email) params.email = state.email;
+  if (state.provinsi_kode) params.provinsi_kode = state.provinsi_kode;
+  return params;
+};
+
+export const toListParams = (state: PatientListState): PatientListParams => ({
+  page: state.page,
+  limit: state.limit,
+  sortBy: state.sortBy,
+  sortOrder: state.sortOrder,
+  ...toFilterParams(state),
+});
+
+// Tanggal lokal (YYYY-MM-DD) dari timestamp ISO, untuk membandingkan created_at dengan filter tanggal
+const localDate = (timestamp: string) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+// Aturan filter yang sama untuk mock backend dan pencarian offline di cache
+export const matchesPatientFilters = (patient: Patient, filters: PatientFilterParams, today: Date = new Date()) => {
+  const bloodTypes = filters.golongan_darah ? filters.golongan_darah.split(',') : [];
+  const age = calculateAge(patient.tanggal_lahir, today);
+  const created = localDate(patient.created_at);
+
+  return (
+    (!filters.jenis_kelamin || patient.jenis_kelamin === filters.jenis_kelamin) &&
+    (bloodTypes.length === 0 || bloodTypes.includes(patient.golongan_darah)) &&
+    (filters.umur_min === undefined || age >= filters.umur_min) &&
+    (filters.umur_max === undefined || age <= filters.umur_max) &&
+    (!filters.created_from || created >= filters.created_from) &&
+    (!filters.created_to || created <= filters.created_to) &&
+    (!filters.email || (filters.email === 'ada') === Boolean(patient.email?.trim())) &&
+    (!filters.provinsi_kode || patient.provinsi_kode === filters.provinsi_kode)
+  );
+};
+
+// Label ringkas per filter aktif, untuk chip di daftar pasien dan keterangan laporan cetak
+export const describeFilters = (
+  state: PatientListState,
+  t: Translate = translate
+): { keys: (keyof PatientListState)[]; label: string }[] => {
+  const chips: { keys: (keyof PatientListState)[]; label: string }[] = [];
+  if (state.jenis_kelamin) {
+    chips.push({ keys: ['jenis_kelamin'], label: t('filters.gender', { value: genderLabel(state.jenis_kelamin, t) }) });
+  }
+  if (state.golongan_darah) {
+    chips.push({ keys: ['golongan_darah'], label: t('filters.bloodType', { value: state.golongan_darah.split(',').join(', ') }) });
+  }
+  if (state.umur_min !== null || state.umur_max !== null) {
+    const label = state.umur_max === null
+      ? t('filters.ageMin', { min: state.umur_min ?? 0 })
+      : state.umur_min === null
+        ? t('filters.ageMax', { max: state.umur_max })
+        : t('filters.ageRange', { min: state.umur_min, max: state.umur_max });
+    chips.push({ keys: ['umur_min', 'umur_max'], label });
+  }
+  if (state.created_from || state.created_to) {
+    chips.push({
+      keys: ['created_from', 'created_to'],
+      label: t('filters.created', { from: state.created_from || '…', to: state.created_to || '…' }),
+    });
+  }
+  if (state.email) {
+    chips.push({ keys: ['email'], label: t(state.email === 'ada' ? 'filters.hasEmail' : 'filters.missingEmail') });
+  }
+  if (state.provinsi_kode) {
+    const value = findRegion(state.provinsi_kode)?.name ?? state.provinsi_kode;
+    chips.push({ keys: ['provinsi_kode'], label: t('filters.province', { value }) });
+  }
+  return chips;
+};
@@ -0,0 +1,413 @@
+// Skema pasien: satu sumber untuk tipe TypeScript, validasi form, field yang dirender PatientForm,
+// alias kolom impor, dan validasi response API saat runtime. Menambah field (mis. rhesus atau kontak
+// darurat) cukup dengan menambah entri di PATIENT_SCHEMA beserta labelnya di katalog pesan.
+
+import type { Patient, FormErrors } from '../types/patient';
+import { parseNik } from './nik';
+import { parsePhone, normalizePhone } from './phone';
+import { RegionLevel, REGION_LEVELS, getRegions, findRegion, parentRegionCode, formatAddress } from './regions';
+import { translate, MessageKey, Translate } from './i18n';
+
+// region = select wilayah bertingkat; composed = tidak diisi langsung, dihitung lewat compute
+export type PatientFieldInput = 'text' | 'textarea' | 'date' | 'select' | 'email' | 'tel' | 'region' | 'composed';
+
+// Nilai seluruh form, untuk aturan yang bergantung pada field lain
+type FieldValues = Readonly<Record<string, string>>;
+
+export interface PatientFieldDef {
+  input: PatientFieldInput;
+  required: boolean;
+  // Wajib secara kondisional, mis. kabupaten wajib setelah provinsi dipilih
+  requiredWhen?: (values: FieldValues) => boolean;
+  label: MessageKey;
+  placeholder?: MessageKey;
+  // Default: validation.required dengan label field
+  requiredMessage?: MessageKey;
+  // Khusus select: pilihan yang disimpan apa adanya, label opsinya, dan teks opsi kosong
+  options?: readonly string[];
+  optionLabel?: (value: string, t: Translate) => string;
+  emptyOption?: MessageKey;
+  maxLength?: number;
+  rows?: number;
+  // Selebar dua kolom grid form
+  wide?: boolean;
+  // Field dengan group yang sama dirender bersama di bawah judul group
+  group?: 'address';
+  // Khusus region: tingkat wilayah yang dipilih
+  region?: RegionLevel;
+  // Dijalankan hanya jika nilai tidak kosong; kembalikan pesan error dalam bahasa aktif
+  validate?: (value: string, t: Translate, values: FieldValues) => string | undefined;
+  // Bentuk baku sebelum disimpan
+  normalize?: (value: string) => string;
+  // Khusus composed: nilai dari field lain; '' berarti nilai yang tersimpan dipertahankan
+  compute?: (values: FieldValues) => string;
+  // Nama kolom yang dikenali saat impor CSV/Excel (huruf kecil, dipisah spasi)
+  importAliases: readonly string[];
+}
+
+export const GENDER_OPTIONS = ['Laki-laki', 'Perempuan'];
+
+export const BLOOD_TYPE_OPTIONS = ['A', 'B', 'AB', 'O'];
+
+// Nilai jenis kelamin disimpan apa adanya (Laki-laki/Perempuan); yang diterjemahkan hanya labelnya
+export const genderLabel = (value: string, t: Translate = translate) =>
+  GENDER_OPTIONS.includes(value) ? t(`gender.${value}` as MessageKey) : value;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Field yang menyimpan kode wilayah untuk setiap tingkat
+export const REGION_FIELDS = {
+  provinsi: 'provinsi_kode',
+  kabupaten: 'kabupaten_kode',
+  kecamatan: 'kecamatan_kode',
+  kelurahan: 'kelurahan_kode',
+} as const satisfies Record<RegionLevel, string>;
+
+// Select wilayah: kode harus ada di data wilayah dan berada di bawah wilayah yang dipilih di atasnya
+const regionField = (level: RegionLevel, label: MessageKey, emptyOption: MessageKey, importAliases: string[]) => {
+  const parentLevel = REGION_LEVELS[REGION_LEVELS.indexOf(level) - 1] as RegionLevel | undefined;
+  const parentValue = (values: FieldValues) => (parentLevel ? values[REGION_FIELDS[parentLevel]] ?? '' : '');
+  const field: PatientFieldDef & { required: false } = {
+    input: 'region',
+    required: false,
+    // Tingkat di bawahnya hanya wajib jika data wilayah punya pilihan untuk wilayah di atasnya
+    requiredWhen: values => Boolean(parentValue(values)) && getRegions(level, parentValue(values)).length > 0,
+    label,
+    emptyOption,
+    group: 'address',
+    region: level,
+    validate: (value, t, values) => {
+      if (!findRegion(value)) return t('address.unknownRegion');
+      if (parentLevel && parentRegionCode(value) !== parentValue(values)) return t('address.regionMismatch');
+      return undefined;
+    },
+    importAliases,
+  };
+  return field;
+};
+
+// RT/RW disimpan 3 digit: 1 -> 001
+const normalizeRtRw = (value: string) => (/^\d{1,3}$/.test(value.trim()) ? value.trim().padStart(3, '0') : value.trim());
+
+const validateRtRw = (value: string, t: Translate) => (/^\d{1,3}$/.test(value.trim()) ? undefined : t('address.rtRwInvalid'));
+
+const defineSchema = <const S extends Record<string, PatientFieldDef>>(schema: S) => schema;
+
+// Urutan entri = urutan field di form, impor, ekspor CSV, dan riwayat perubahan
+export const PATIENT_SCHEMA = defineSchema({
+  nama: {
+    input: 'text',
+    required: true,
+    label: 'field.nama',
+    placeholder: 'patientForm.namaPlaceholder',
+    requiredMessage: 'validation.namaRequired',
+    importAliases: ['nama', 'nama lengkap', 'name', 'nama pasien'],
+  },
+  nik: {
+    input: 'text',
+    required: true,
+    label: 'field.nik',
+    placeholder: 'patientForm.nikPlaceholder',
+    requiredMessage: 'validation.nikRequired',
+    maxLength: 16,
+    validate: (value) => {
+      const result = parseNik(value);
+      return result.valid ? undefined : result.error;
+    },
+    importAliases: ['nik', 'no ktp', 'nomor induk kependudukan'],
+  },
+  tanggal_lahir: {
+    input: 'date',
+    required: true,
+    label: 'field.tanggal_lahir',
+    requiredMessage: 'validation.tanggalLahirRequired',
+    importAliases: ['tanggal lahir', 'tgl lahir', 'dob', 'birth date'],
+  },
+  jenis_kelamin: {
+    input: 'select',
+    required: true,
+    label: 'field.jenis_kelamin',
+    requiredMessage: 'validation.jenisKelaminRequired',
+    options: GENDER_OPTIONS,
+    optionLabel: genderLabel,
+    emptyOption: 'patientForm.selectGender',
+    importAliases: ['jenis kelamin', 'jk', 'gender', 'sex'],
+  },
+  provinsi_kode: regionField('provinsi', 'field.provinsi_kode', 'patientForm.selectProvince', ['kode provinsi']),
+  kabupaten_kode: regionField('kabupaten', 'field.kabupaten_kode', 'patientForm.selectRegency', ['kode kabupaten', 'kode kota']),
+  kecamatan_kode: regionField('kecamatan', 'field.kecamatan_kode', 'patientForm.selectDistrict', ['kode kecamatan']),
+  kelurahan_kode: regionField('kelurahan', 'field.kelurahan_kode', 'patientForm.selectVillage', ['kode kelurahan', 'kode desa']),
+  jalan: {
+    input: 'text',
+    required: false,
+    label: 'field.jalan',
+    placeholder: 'patientForm.jalanPlaceholder',
+    group: 'address',
+    wide: true,
+    importAliases: ['jalan', 'nama jalan'],
+  },
+  rt: {
+    input: 'text',
+    required: false,
+    label: 'field.rt',
+    maxLength: 3,
+    group: 'address',
+    validate: validateRtRw,
+    normalize: normalizeRtRw,
+    importAliases: ['rt'],
+  },
+  rw: {
+    input: 'text',
+    required: false,
+    label: 'field.rw',
+    maxLength: 3,
+    group: 'address',
+    validate: validateRtRw,
+    normalize: normalizeRtRw,
+    importAliases: ['rw'],
+  },
+  kode_pos: {
+    input: 'text',
+    required: false,
+    label: 'field.kode_pos',
+    maxLength: 5,
+    group: 'address',
+    validate: (value, t) => (/^\d{5}$/.test(value.trim()) ? undefined : t('address.postalCodeInvalid')),
+    importAliases: ['kode pos', 'kodepos', 'postal code'],
+  },
+  // Disusun dari field alamat terstruktur; data lama yang hanya punya teks bebas tetap dipertahankan
+  alamat: {
+    input: 'composed',
+    required: true,
+    label: 'field.alamat',
+    requiredMessage: 'validation.alamatRequired',
+    group: 'address',
+    wide: true,
+    compute: values => formatAddress({
+      jalan: values.jalan,
+      rt: values.rt,
+      rw: values.rw,
+      kelurahan: values.kelurahan_kode,
+      kecamatan: values.kecamatan_kode,
+      kabupaten: values.kabupaten_kode,
+      provinsi: values.provinsi_kode,
+      kode_pos: values.kode_pos,
+    }),
+    importAliases: ['alamat', 'address', 'alamat lengkap'],
+  },
+  no_telepon: {
+    input: 'tel',
+    required: true,
+    label: 'field.no_telepon',
+    placeholder: 'patientForm.phonePlaceholder',
+    requiredMessage: 'validation.noTeleponRequired',
+    validate: (value) => {
+      const result = parsePhone(value);
+      return result.valid ? undefined : result.error;
+    },
+    normalize: normalizePhone,
+    importAliases: ['no telepon', 'telepon', 'no hp', 'hp', 'phone'],
+  },
+  email: {
+    input: 'email',
+    required: false,
+    label: 'field.email',
+    placeholder: 'patientForm.emailPlaceholder',
+    validate: (value, t) => (EMAIL_PATTERN.test(value) ? undefined : t('validation.emailInvalid')),
+    importAliases: ['email', 'e-mail'],
+  },
+  golongan_darah: {
+    input: 'select',
+    required: true,
+    label: 'field.golongan_darah',
+    requiredMessage: 'validation.golonganDarahRequired',
+    options: BLOOD_TYPE_OPTIONS,
+    emptyOption: 'patientForm.selectBloodType',
+    importAliases: ['golongan darah', 'gol darah', 'blood type'],
+  },
+});
+
+type PatientSchema = typeof PATIENT_SCHEMA;
+
+export type PatientFieldName = keyof PatientSchema;
+
+type RequiredFieldName = {
+  [K in PatientFieldName]: PatientSchema[K]['required'] extends true ? K : never;
+}[PatientFieldName];
+
+type OptionalFieldName = Exclude<PatientFieldName, RequiredFieldName>;
+
+// Data pasien seperti dikirim ke / diterima dari API: field opsional boleh tidak ada
+export type PatientFields = { [K in RequiredFieldName]: string } & { [K in OptionalFieldName]?: string };
+
+// Nilai form: setiap field berupa string, field kosong = ''
+export type PatientFormValues = Record<PatientFieldName, string>;
+
+export const PATIENT_FIELD_NAMES = Object.keys(PATIENT_SCHEMA) as PatientFieldName[];
+
+export const getPatientField = (name: PatientFieldName): PatientFieldDef => PATIENT_SCHEMA[name];
+
+export const emptyPatientFormValues = (): PatientFormValues =>
+  Object.fromEntries(PATIENT_FIELD_NAMES.map(name => [name, ''])) as PatientFormValues;
+
+// Data pasien (dari API, snapshot revisi, dsb.) -> nilai form; tanggal ISO dipotong menjadi YYYY-MM-DD
+export const toPatientFormValues = (data: Partial<Record<PatientFieldName, unknown>>): PatientFormValues => {
+  const values = emptyPatientFormValues();
+  PATIENT_FIELD_NAMES.forEach((name) => {
+    const value = data[name];
+    const text = typeof value === 'string' ? value : '';
+    values[name] = getPatientField(name).input === 'date' ? text.split('T')[0] : text;
+  });
+  return values;
+};
+
+// Nilai untuk ditampilkan: nama wilayah untuk kode wilayah, label opsi untuk select
+export const formatPatientValue = (name: PatientFieldName, value: string, t: Translate = translate): string => {
+  const field = getPatientField(name);
+  if (!value) return value;
+  if (field.region) return findRegion(value)?.name ?? value;
+  return field.optionLabel ? field.optionLabel(value, t) : value;
+};
+
+// Isi field composed dari field lain (mis. alamat dari alamat terstruktur)
+export const withComputedFields = (values: PatientFormValues): PatientFormValues => {
+  const resolved = { ...values };
+  PATIENT_FIELD_NAMES.forEach((name) => {
+    const computed = getPatientField(name).compute?.(values);
+    if (computed) {
+      resolved[name] = computed;
+    }
+  });
+  return resolved;
+};
+
+// Validasi nilai form sesuai skema, mengembalikan pesan error per field dalam bahasa aktif
+export const validatePatientFields = (formValues: PatientFormValues, t: Translate = translate): FormErrors => {
+  const errors: FormErrors = {};
+  const values = withComputedFields(formValues);
+  PATIENT_FIELD_NAMES.forEach((name) => {
+    const field = getPatientField(name);
+    const value = values[name] ?? '';
+    if (!value.trim()) {
+      if (field.required || field.requiredWhen?.(values)) {
+        errors[name] = field.requiredMessage ? t(field.requiredMessage) : t('validation.required', { field: t(field.label) });
+      }
+      return;
+    }
+    const error = field.validate?.(value, t, values);
+    if (error) {
+      errors[name] = error;
+    }
+  });
+  return errors;
+};
+
+// Terapkan normalize setiap field (mis. no telepon ke E.164), lalu isi field composed
+export const normalizePatientFormValues = (values: PatientFormValues): PatientFormValues => {
+  const normalized = { ...values };
+  PATIENT_FIELD_NAMES.forEach((name) => {
+    const normalize = getPatientField(name).normalize;
+    if (normalize) {
+      normalized[name] = normalize(values[name]);
+    }
+  });
+  return withComputedFields(normalized);
+};
+
+// Nilai form -> data untuk disimpan: field opsional yang kosong menjadi undefined
+// (tetap ada sebagai key agar menimpa nilai lama saat digabung dengan spread)
+export const toPatientFields = (values: PatientFormValues): PatientFields => {
+  const normalized = normalizePatientFormValues(values);
+  const fields: Partial<Record<PatientFieldName, string>> = {};
+  PATIENT_FIELD_NAMES.forEach((name) => {
+    fields[name] = normalized[name] || getPatientField(name).required ? normalized[name] : undefined;
+  });
+  return fields as PatientFields;
+};
+
+// --- Validasi response API saat runtime ---
+
+// Response server tidak sesuai skema (mis. versi backend berbeda)
+export class SchemaValidationError extends Error {
+  // Daftar masalah per path dalam bahasa aktif, contoh: "data[3].nik harus berupa teks"
+  issues: string[];
+
+  constructor(message: string, issues: string[]) {
+    super(message);
+    Object.setPrototypeOf(this, SchemaValidationError.prototype);
+    this.name = 'SchemaValidationError';
+    this.issues = issues;
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Field di luar skema yang selalu dikirim server untuk setiap pasien
+const RECORD_FIELDS: { name: keyof Patient; type: 'number' | 'string'; required: boolean }[] = [
+  { name: 'id', type: 'number', required: true },
+  { name: 'created_at', type: 'string', required: true },
+  { name: 'updated_at', type: 'string', required: true },
+  { name: 'deleted_at', type: 'string', required: false },
+];
+
+const collectPatientIssues = (value: unknown, path: string): string[] => {
+  if (!isRecord(value)) {
+    return [translate('schema.notObject', { path })];
+  }
+  const checks = [
+    ...RECORD_FIELDS,
+    ...PATIENT_FIELD_NAMES.map(name => ({ name, type: 'string' as const, required: getPatientField(name).required })),
+  ];
+  return checks.flatMap(({ name, type, required }) => {
+    const fieldValue = value[name];
+    if (fieldValue === undefined || fieldValue === null) {
+      return required ? [translate('schema.required', { path: `${path}.${name}` })] : [];
+    }
+    if (typeof fieldValue !== type) {
+      return [translate(type === 'number' ? 'schema.notNumber' : 'schema.notString', { path: `${path}.${name}` })];
+    }
+    return [];
+  });
+};
+
+// Susun Patient dari field yang sudah diperiksa collectPatientIssues (RECORD_FIELDS + field skema);
+// field lain dari server dibuang, null untuk field opsional diperlakukan sama dengan tidak ada
+const toPatient = (value: Record<string, unknown>): Patient => {
+  const fields: Partial<Record<PatientFieldName, string>> = {};
+  PATIENT_FIELD_NAMES.forEach((name) => {
+    const fieldValue = value[name];
+    if (typeof fieldValue === 'string') {
+      fields[name] = fieldValue;
+    }
+  });
+  return {
+    ...(fields as PatientFields),
+    id: Number(value.id),
+    created_at: String(value.created_at),
+    updated_at: String(value.updated_at),
+    ...(typeof value.deleted_at === 'string' ? { deleted_at: value.deleted_at } : {}),
+  };
+};
+
+const throwIfIssues = (issues: string[]) => {
+  if (issues.length > 0) {
+    throw new SchemaValidationError(translate('schema.invalidResponse'), issues);
+  }
+};
+
+// Pastikan satu data pasien dari server sesuai skema
+export const parsePatient = (value: unknown): Patient => {
+  throwIfIssues(collectPatientIssues(value, 'patient'));
+  return toPatient(value as Record<string, unknown>);
+};
+
+// Pastikan daftar pasien dari server sesuai skema
+export const parsePatients = (value: unknown, path = 'data'): Patient[] => {
+  if (!Array.isArray(value)) {
+    throwIfIssues([translate('schema.notArray', { path })]);
+  }
+  const items = value as unknown[];
+  throwIfIssues(items.flatMap((item, index) => collectPatientIssues(item, `${path}[${index}]`)));
+  return items.map(item => toPatient(item as Record<string, unknown>));
+};
@@ -0,0 +1,201 @@
+import type { Patient } from '../types/patient';
+import type { PatientListState } from './patientQuery';
+import { calculateAge } from './format';
+import { GENDER_OPTIONS, BLOOD_TYPE_OPTIONS, genderLabel } from './patientSchema';
+import { todayIsoDate } from './visitForm';
+import { findRegion } from './regions';
+import { translate, intlLocale, MessageKey, Translate } from './i18n';
+
+export type StatsInterval = 'week' | 'month';
+
+export interface PatientStatsParams {
+  created_from?: string; // YYYY-MM-DD, inklusif
+  created_to?: string;
+  interval?: StatsInterval;
+}
+
+// Satu periode grafik pendaftaran. `start` adalah awal periode penuh (untuk label),
+// from..to adalah bagian periode yang masuk rentang yang dipilih.
+export interface RegistrationPeriod {
+  start: string;
+  from: string;
+  to: string;
+  count: number;
+}
+
+// Ringkasan dari GET /patients/stats. Server hanya mengirim angka; label disusun di klien
+// sesuai bahasa aktif. Semua angka selain `total` dihitung dari pasien di rentang created_at.
+export interface PatientStats {
+  total: number;
+  inRange: number;
+  averageAge: number;
+  registrations: RegistrationPeriod[];
+  ageGroups: number[]; // urutan sama dengan AGE_GROUPS
+  gender: Record<string, number>;
+  bloodType: Record<string, number>; // golongan darah di luar BLOOD_TYPE_OPTIONS masuk kunci ''
+  province: Record<string, number>; // kode provinsi; alamat lama (teks bebas) masuk kunci ''
+}
+
+// Satu batang/segmen grafik. `filter` dipakai untuk membuka daftar pasien yang sudah difilter;
+// tanpa filter berarti segmen tidak bisa diklik (misalnya golongan darah kosong).
+export interface ChartDatum {
+  key: string;
+  label: string;
+  value: number;
+  filter?: Partial<PatientListState>;
+}
+
+// Kelompok umur, batas inklusif
+export const AGE_GROUPS: { label: MessageKey; min: number; max: number | null }[] = [
+  { label: 'stats.age.toddler', min: 0, max: 5 },
+  { label: 'stats.age.child', min: 6, max: 17 },
+  { label: 'stats.age.adult', min: 18, max: 39 },
+  { label: 'stats.age.middle', min: 40, max: 59 },
+  { label: 'stats.age.senior', min: 60, max: null },
+];
+
+const fromIsoDate = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Awal periode (tanggal lokal) yang memuat `date`: Senin untuk mingguan, tanggal 1 untuk bulanan
+const periodStart = (date: Date, interval: StatsInterval) =>
+  interval === 'month'
+    ? new Date(date.getFullYear(), date.getMonth(), 1)
+    : addDays(date, -((date.getDay() + 6) % 7));
+
+const nextPeriod = (start: Date, interval: StatsInterval) =>
+  interval === 'month' ? new Date(start.getFullYear(), start.getMonth() + 1, 1) : addDays(start, 7);
+
+const countBy = (values: string[]) => {
+  const counts: Record<string, number> = {};
+  values.forEach(value => {
+    counts[value] = (counts[value] ?? 0) + 1;
+  });
+  return counts;
+};
+
+// Jumlah pendaftaran baru per minggu/bulan. Periode tanpa pendaftaran tetap ditampilkan sebagai 0.
+// Periode di ujung rentang dipotong ke from/to agar drill-down tidak keluar dari rentang yang dipilih.
+const registrationPeriods = (createdDates: string[], from: string, to: string, interval: StatsInterval) => {
+  if (createdDates.length === 0 && (!from || !to)) return [];
+
+  const sorted = [...createdDates].sort();
+  const first = fromIsoDate(from || sorted[0]);
+  const last = fromIsoDate(to || sorted[sorted.length - 1]);
+  const periods: RegistrationPeriod[] = [];
+
+  for (let start = periodStart(first, interval); start <= last; start = nextPeriod(start, interval)) {
+    const rangeFrom = todayIsoDate(start < first ? first : start);
+    const end = addDays(nextPeriod(start, interval), -1);
+    const rangeTo = todayIsoDate(end > last ? last : end);
+    periods.push({
+      start: todayIsoDate(start),
+      from: rangeFrom,
+      to: rangeTo,
+      count: sorted.filter(date => date >= rangeFrom && date <= rangeTo).length,
+    });
+  }
+
+  return periods;
+};
+
+// Hitung statistik dari semua pasien aktif (di server, atau di klien jika endpoint stats belum ada);
+// created_at dibandingkan sebagai tanggal lokal
+export const computePatientStats = (
+  patients: Patient[],
+  { created_from: from = '', created_to: to = '', interval = 'month' }: PatientStatsParams,
+  today: Date = new Date()
+): PatientStats => {
+  const inRange = patients.filter((patient) => {
+    const created = todayIsoDate(new Date(patient.created_at));
+    return (!from || created >= from) && (!to || created <= to);
+  });
+  const ages = inRange.map(patient => calculateAge(patient.tanggal_lahir, today));
+
+  return {
+    total: patients.length,
+    inRange: inRange.length,
+    averageAge: ages.length > 0 ? Math.round(ages.reduce((sum, age) => sum + age, 0) / ages.length) : 0,
+    registrations: registrationPeriods(
+      inRange.map(patient => todayIsoDate(new Date(patient.created_at))),
+      from,
+      to,
+      interval
+    ),
+    ageGroups: AGE_GROUPS.map(group =>
+      ages.filter(age => age >= group.min && (group.max === null || age <= group.max)).length
+    ),
+    gender: countBy(inRange.map(patient => patient.jenis_kelamin)),
+    bloodType: countBy(inRange.map(patient =>
+      BLOOD_TYPE_OPTIONS.includes(patient.golongan_darah) ? patient.golongan_darah : ''
+    )),
+    province: countBy(inRange.map(patient => patient.provinsi_kode || '')),
+  };
+};
+
+// Nama bulan singkat mengikuti bahasa aktif, contoh: Agu 2025 / 4 Agu
+const periodLabel = (start: Date, interval: StatsInterval) =>
+  start.toLocaleDateString(
+    intlLocale(),
+    interval === 'month' ? { month: 'short', year: 'numeric' } : { day: 'numeric', month: 'short' }
+  );
+
+export const registrationChart = (stats: PatientStats, interval: StatsInterval): ChartDatum[] =>
+  stats.registrations.map(period => ({
+    key: period.from,
+    label: periodLabel(fromIsoDate(period.start), interval),
+    value: period.count,
+    filter: { created_from: period.from, created_to: period.to },
+  }));
+
+export const ageChart = (stats: PatientStats, t: Translate = translate): ChartDatum[] =>
+  AGE_GROUPS.map((group, index) => ({
+    key: group.label,
+    label: t(group.label),
+    value: stats.ageGroups[index] ?? 0,
+    filter: { umur_min: group.min, umur_max: group.max },
+  }));
+
+export const genderChart = (stats: PatientStats, t: Translate = translate): ChartDatum[] =>
+  GENDER_OPTIONS.map(gender => ({
+    key: gender,
+    label: genderLabel(gender, t),
+    value: stats.gender[gender] ?? 0,
+    filter: { jenis_kelamin: gender },
+  }));
+
+export const bloodTypeChart = (stats: PatientStats, t: Translate = translate): ChartDatum[] => {
+  const data: ChartDatum[] = BLOOD_TYPE_OPTIONS.map(bloodType => ({
+    key: bloodType,
+    label: bloodType,
+    value: stats.bloodType[bloodType] ?? 0,
+    filter: { golongan_darah: bloodType },
+  }));
+  const unknown = stats.bloodType[''] ?? 0;
+  if (unknown > 0) {
+    data.push({ key: 'unknown', label: t('stats.unknownBloodType'), value: unknown });
+  }
+  return data;
+};
+
+// Provinsi dari alamat terstruktur, terbanyak dulu; alamat lama (teks bebas) masuk "Belum terstruktur"
+export const provinceChart = (stats: PatientStats, t: Translate = translate): ChartDatum[] => {
+  const data: ChartDatum[] = Object.entries(stats.province)
+    .filter(([code]) => code !== '')
+    .map(([code, value]) => ({
+      key: code,
+      label: findRegion(code)?.name ?? code,
+      value,
+      filter: { provinsi_kode: code },
+    }))
+    .sort((a, b) => b.value - a.value || a.label.localeCompare(b.label, intlLocale()));
+  const unstructured = stats.province[''] ?? 0;
+  if (unstructured > 0) {
+    data.push({ key: 'unstructured', label: t('stats.unstructured'), value: unstructured });
+  }
+  return data;
+};
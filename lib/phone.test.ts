@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { parsePhone } from './phone';
+import { translate } from './i18n';
+
+describe('parsePhone', () => {
+  it.each([
+    '081234567890',
+    '0812-3456-7890',
+    '+62 812 3456 7890',
+    '+62 0812 3456 7890',
+    '6281234567890',
+    '006281234567890',
+  ])('nomor seluler %s', (value) => {
+    expect(parsePhone(value)).toEqual({
+      valid: true,
+      data: { e164: '+6281234567890', national: '81234567890', type: 'mobile' },
+    });
+  });
+
+  it.each(['0811', '0828', '0838', '0859', '0878', '0889', '0895'])('awalan operator %s', (prefix) => {
+    expect(parsePhone(`${prefix}12345678`)).toMatchObject({ valid: true, data: { type: 'mobile' } });
+  });
+
+  it.each([
+    ['(021) 5555-1234', '+622155551234', '2155551234'],
+    ['0274 512345', '+62274512345', '274512345'],
+  ])('telepon rumah/kantor %s', (value, e164, national) => {
+    expect(parsePhone(value)).toEqual({ valid: true, data: { e164, national, type: 'landline' } });
+  });
+
+  it.each([
+    ['0812-abc-7890', translate('phone.invalidCharacters')],
+    ['+6012345678', translate('phone.foreign')],
+    ['81234567890', translate('phone.missingPrefix')],
+    ['081012345678', translate('phone.invalidMobile')],
+    ['0812345', translate('phone.invalidMobile')],
+    ['08123456789012', translate('phone.invalidMobile')],
+    ['0155551234', translate('phone.invalidLandline')],
+    ['021555', translate('phone.invalidLandline')],
+  ])('menolak %s', (value, error) => {
+    expect(parsePhone(value)).toEqual({ valid: false, error });
+  });
+});
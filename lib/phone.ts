@@ -0,0 +1,105 @@
+// Nomor telepon Indonesia. Disimpan dalam format E.164 (+62...), ditampilkan dalam format nasional
+// yang dikelompokkan, contoh: +6281234567890 -> 0812-3456-7890, +622155551234 -> (021) 5555-1234
+
+import { translate } from './i18n';
+
+export type PhoneType = 'mobile' | 'landline';
+
+export interface ParsedPhone {
+  e164: string;
+  // Nomor tanpa kode negara dan tanpa 0 di depan, contoh: 81234567890
+  national: string;
+  type: PhoneType;
+}
+
+export type PhoneParseResult =
+  | { valid: true; data: ParsedPhone }
+  | { valid: false; error: string };
+
+// Kode area 2 digit (kota besar); kode area lain 3 digit
+const TWO_DIGIT_AREA_CODES = ['21', '22', '24', '31', '61'];
+
+// Awalan nomor seluler (08xx tanpa 0) yang dipakai operator: Telkomsel 811-813, 821-823, 851-853;
+// Indosat 814-816, 855-858; XL 817-819, 859, 877-878; Axis 831-833, 838; Ceria 828; Smartfren 881-889; Tri 895-899
+const MOBILE_PREFIXES = [
+  '811', '812', '813', '814', '815', '816', '817', '818', '819',
+  '821', '822', '823', '828',
+  '831', '832', '833', '838',
+  '851', '852', '853', '855', '856', '857', '858', '859',
+  '877', '878',
+  '881', '882', '883', '884', '885', '886', '887', '888', '889',
+  '895', '896', '897', '898', '899',
+];
+
+// Buang pemisah yang umum dipakai: spasi, titik, tanda hubung, garis miring, kurung
+const stripSeparators = (value: string) => value.trim().replace(/[\s.\-/()]/g, '');
+
+// Parse dan validasi nomor seluler maupun telepon rumah/kantor Indonesia
+export const parsePhone = (value: string): PhoneParseResult => {
+  const compact = stripSeparators(value);
+
+  if (!/^\+?[0-9]+$/.test(compact)) {
+    return { valid: false, error: translate('phone.invalidCharacters') };
+  }
+
+  let national: string;
+  if (compact.startsWith('+62')) {
+    national = compact.slice(3);
+  } else if (compact.startsWith('+')) {
+    return { valid: false, error: translate('phone.foreign') };
+  } else if (compact.startsWith('0062')) {
+    national = compact.slice(4);
+  } else if (compact.startsWith('62')) {
+    national = compact.slice(2);
+  } else if (compact.startsWith('0')) {
+    national = compact.slice(1);
+  } else {
+    return { valid: false, error: translate('phone.missingPrefix') };
+  }
+  // "+62 0812..." masih sering ditulis
+  if (national.startsWith('0')) {
+    national = national.slice(1);
+  }
+
+  if (national.startsWith('8')) {
+    if (!MOBILE_PREFIXES.includes(national.slice(0, 3)) || national.length < 9 || national.length > 12) {
+      return { valid: false, error: translate('phone.invalidMobile') };
+    }
+    return { valid: true, data: { e164: `+62${national}`, national, type: 'mobile' } };
+  }
+
+  if (!/^[2-79]/.test(national) || national.length < 8 || national.length > 11) {
+    return { valid: false, error: translate('phone.invalidLandline') };
+  }
+  return { valid: true, data: { e164: `+62${national}`, national, type: 'landline' } };
+};
+
+// E.164 untuk disimpan; nilai yang tidak valid dikembalikan apa adanya agar validasi yang menolaknya
+export const normalizePhone = (value: string): string => {
+  const result = parsePhone(value);
+  return result.valid ? result.data.e164 : value.trim();
+};
+
+const groupDigits = (digits: string) => {
+  const groups: string[] = digits.match(/.{1,4}/g) ?? [];
+  // Hindari kelompok terakhir yang hanya 1 digit: 12345 -> 123-45
+  if (groups.length > 1 && groups[groups.length - 1].length === 1) {
+    const last = groups.pop() as string;
+    const previous = groups.pop() as string;
+    groups.push(previous.slice(0, -1), previous.slice(-1) + last);
+  }
+  return groups.join('-');
+};
+
+// Format tampilan; nilai lama yang belum bisa dinormalisasi ditampilkan apa adanya
+export const formatPhone = (value: string): string => {
+  const result = parsePhone(value);
+  if (!result.valid) return value;
+
+  const { national, type } = result.data;
+  if (type === 'mobile') {
+    return `0${national.slice(0, 3)}-${groupDigits(national.slice(3))}`;
+  }
+  const areaLength = TWO_DIGIT_AREA_CODES.includes(national.slice(0, 2)) ? 2 : 3;
+  return `(0${national.slice(0, areaLength)}) ${groupDigits(national.slice(areaLength))}`;
+};
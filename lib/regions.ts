@@ -0,0 +1,150 @@
+// Wilayah administratif untuk alamat terstruktur: provinsi -> kabupaten/kota -> kecamatan -> kelurahan/desa.
+// Kode bertingkat dipisah titik, contoh: 31 -> 31.71 -> 31.71.01 -> 31.71.01.1001
+//
+// Data lengkap Kemendagri (lib/regionData, dibangun dengan `npm run regions:generate`) dipecah per provinsi
+// dan dimuat saat dibutuhkan lewat loadRegionData. Sebelum dimuat, getRegions/findRegion hanya mengenal
+// provinsi; halaman yang menampilkan atau memvalidasi wilayah di bawahnya harus memuatnya lebih dulu.
+
+import { PROVINCE_CODES, ParsedNik } from './nik';
+
+export type RegionLevel = 'provinsi' | 'kabupaten' | 'kecamatan' | 'kelurahan';
+
+export const REGION_LEVELS: RegionLevel[] = ['provinsi', 'kabupaten', 'kecamatan', 'kelurahan'];
+
+export interface Region {
+  code: string;
+  name: string;
+  // Hanya kelurahan/desa, jika kode posnya diketahui
+  postalCode?: string;
+}
+
+// Kelurahan/desa: kode 4 digit -> [nama, kode pos]. Dataset Kemendagri tidak memuat kode pos,
+// jadi kode pos hanya ada untuk wilayah di scripts/region-postal-codes.json.
+export type VillageData = Record<string, [string, string?]>;
+
+export interface DistrictData {
+  name: string;
+  villages: VillageData;
+}
+
+export interface RegencyData {
+  name: string;
+  districts: Record<string, DistrictData>;
+}
+
+// Isi satu berkas lib/regionData/<kode provinsi>.json: kode kabupaten/kota 2 digit -> data
+export type ProvinceRegionData = Record<string, RegencyData>;
+
+const loadedProvinces: Record<string, ProvinceRegionData> = {};
+const pendingProvinces: Record<string, Promise<void>> = {};
+
+const provinceOf = (code?: string) => code?.split('.')[0] ?? '';
+
+// Kode provinsi yang dikenal dari kumpulan kode wilayah (tingkat apa pun), tanpa duplikat
+export const regionProvinces = (codes: (string | undefined)[]): string[] =>
+  Array.from(new Set(codes.map(provinceOf))).filter(code => Boolean(PROVINCE_CODES[code])).sort();
+
+export const isRegionDataLoaded = (codes: (string | undefined)[]): boolean =>
+  regionProvinces(codes).every(code => Boolean(loadedProvinces[code]));
+
+// Muat data wilayah provinsi-provinsi dari kode wilayah; kode kosong atau tidak dikenal diabaikan.
+// Tiap provinsi hanya diunduh sekali; jika gagal (misalnya offline), pemanggilan berikutnya mencoba lagi.
+export const loadRegionData = async (codes: (string | undefined)[]): Promise<void> => {
+  await Promise.all(regionProvinces(codes).map((province) => {
+    pendingProvinces[province] ??= import(`./regionData/${province}.json`)
+      .then((module: { default: ProvinceRegionData }) => {
+        loadedProvinces[province] = module.default;
+      })
+      .catch((error) => {
+        delete pendingProvinces[province];
+        throw error;
+      });
+    return pendingProvinces[province];
+  }));
+};
+
+// Semua provinsi, untuk server (mock) yang memvalidasi alamat dari mana saja
+export const loadAllRegionData = () => loadRegionData(Object.keys(PROVINCE_CODES));
+
+export const regionLevelOf = (code: string): RegionLevel | undefined => REGION_LEVELS[code.split('.').length - 1];
+
+export const parentRegionCode = (code: string) => code.split('.').slice(0, -1).join('.');
+
+// Kunci seperti "10" diurutkan JavaScript sebagai angka sebelum "01", jadi urutan kode dipulihkan di sini
+const byCode = (a: Region, b: Region) => a.code.localeCompare(b.code);
+
+// Pilihan wilayah satu tingkat di bawah parentCode (provinsi tidak butuh parent), urut kode
+export const getRegions = (level: RegionLevel, parentCode = ''): Region[] => {
+  const [province, regency, district] = parentCode.split('.');
+  switch (level) {
+    case 'provinsi':
+      return Object.entries(PROVINCE_CODES).map(([code, name]) => ({ code, name }));
+    case 'kabupaten':
+      return Object.entries(loadedProvinces[province] ?? {}).map(([code, data]) => ({
+        code: `${province}.${code}`,
+        name: data.name,
+      })).sort(byCode);
+    case 'kecamatan':
+      return Object.entries(loadedProvinces[province]?.[regency]?.districts ?? {}).map(([code, data]) => ({
+        code: `${province}.${regency}.${code}`,
+        name: data.name,
+      })).sort(byCode);
+    case 'kelurahan':
+      return Object.entries(loadedProvinces[province]?.[regency]?.districts[district]?.villages ?? {}).map(
+        ([code, [name, postalCode]]) => ({ code: `${province}.${regency}.${district}.${code}`, name, postalCode })
+      ).sort(byCode);
+  }
+};
+
+export const findRegion = (code: string): Region | undefined => {
+  const level = regionLevelOf(code);
+  return level ? getRegions(level, parentRegionCode(code)).find(region => region.code === code) : undefined;
+};
+
+// Provinsi, kabupaten/kota, dan kecamatan dari kode wilayah NIK, sejauh ada di data wilayah yang sudah dimuat
+export const regionCodesFromNik = (nik: ParsedNik): Partial<Record<RegionLevel, string>> => {
+  const codes: Partial<Record<RegionLevel, string>> = {};
+  const candidates: [RegionLevel, string][] = [
+    ['provinsi', nik.provinceCode],
+    ['kabupaten', `${nik.provinceCode}.${nik.regencyCode}`],
+    ['kecamatan', `${nik.provinceCode}.${nik.regencyCode}.${nik.districtCode}`],
+  ];
+  for (const [level, code] of candidates) {
+    if (!findRegion(code)) break;
+    codes[level] = code;
+  }
+  return codes;
+};
+
+export interface AddressParts {
+  jalan?: string;
+  rt?: string;
+  rw?: string;
+  kelurahan?: string;
+  kecamatan?: string;
+  kabupaten?: string;
+  provinsi?: string;
+  kode_pos?: string;
+}
+
+// Alamat satu baris dari bagian-bagiannya (kode wilayah), contoh:
+// "Jl. Merdeka No. 10, RT 001/RW 002, Kel. Gambir, Kec. Gambir, Kota Administrasi Jakarta Pusat, DKI Jakarta 10110"
+// Mengembalikan '' jika tidak ada bagian yang diisi.
+export const formatAddress = (parts: AddressParts): string => {
+  const regionName = (code?: string) => (code ? findRegion(code)?.name : undefined);
+  const village = regionName(parts.kelurahan);
+  // Nomor 2xxx adalah desa, 1xxx kelurahan
+  const villagePrefix = parts.kelurahan?.split('.')[3]?.startsWith('2') ? 'Desa' : 'Kel.';
+  const district = regionName(parts.kecamatan);
+  const rtRw = [parts.rt && `RT ${parts.rt}`, parts.rw && `RW ${parts.rw}`].filter(Boolean).join('/');
+
+  const segments = [
+    parts.jalan?.trim(),
+    rtRw,
+    village && `${villagePrefix} ${village}`,
+    district && `Kec. ${district}`,
+    regionName(parts.kabupaten),
+    [regionName(parts.provinsi), parts.kode_pos?.trim()].filter(Boolean).join(' '),
+  ];
+  return segments.filter(Boolean).join(', ');
+};
@@ -0,0 +1,100 @@
+import { Visit, VisitFormData, VisitStatus, FormErrors } from '../types/patient';
+import { translate, MessageKey, Translate } from './i18n';
+
+export const POLI_OPTIONS = ['Umum', 'Gigi', 'Anak', 'Kandungan', 'Penyakit Dalam', 'Mata', 'THT'];
+
+// Nama poli disimpan apa adanya (bahasa Indonesia); yang diterjemahkan hanya labelnya
+export const poliLabel = (value: string, t: Translate = translate) =>
+  POLI_OPTIONS.includes(value) ? t(`poli.${value}` as MessageKey) : value;
+
+export const VISIT_STATUS_LABELS: Record<VisitStatus, MessageKey> = {
+  menunggu: 'visitStatus.menunggu',
+  diperiksa: 'visitStatus.diperiksa',
+  selesai: 'visitStatus.selesai',
+  batal: 'visitStatus.batal',
+};
+
+// Warna badge status di tabel kunjungan & antrean
+export const VISIT_STATUS_STYLES: Record<VisitStatus, string> = {
+  menunggu: 'bg-yellow-100 text-yellow-800',
+  diperiksa: 'bg-blue-100 text-blue-800',
+  selesai: 'bg-green-100 text-green-800',
+  batal: 'bg-gray-200 text-gray-600',
+};
+
+// Langkah berikutnya di antrean: menunggu -> diperiksa -> selesai
+export const NEXT_VISIT_STATUS: Partial<Record<VisitStatus, VisitStatus>> = {
+  menunggu: 'diperiksa',
+  diperiksa: 'selesai',
+};
+
+export const VISIT_FIELD_LABELS: Record<keyof VisitFormData, MessageKey> = {
+  tanggal_kunjungan: 'visitField.tanggal_kunjungan',
+  poli: 'visitField.poli',
+  keluhan: 'visitField.keluhan',
+  diagnosis_kode: 'visitField.diagnosis_kode',
+  diagnosis_teks: 'visitField.diagnosis_teks',
+  dokter: 'visitField.dokter',
+  status: 'visitField.status',
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Tanggal lokal hari ini dalam format YYYY-MM-DD
+export const todayIsoDate = (today: Date = new Date()) =>
+  `${today.getFullYear()}-${pad(today.getMonth() + 1)}-${pad(today.getDate())}`;
+
+export const initialVisitFormData = (): VisitFormData => ({
+  tanggal_kunjungan: todayIsoDate(),
+  poli: '',
+  keluhan: '',
+  diagnosis_kode: '',
+  diagnosis_teks: '',
+  dokter: '',
+  status: 'menunggu',
+});
+
+export const visitToFormData = (visit: Visit): VisitFormData => ({
+  tanggal_kunjungan: visit.tanggal_kunjungan.split('T')[0],
+  poli: visit.poli,
+  keluhan: visit.keluhan,
+  diagnosis_kode: visit.diagnosis_kode || '',
+  diagnosis_teks: visit.diagnosis_teks || '',
+  dokter: visit.dokter,
+  status: visit.status,
+});
+
+// Kategori ICD-10 (huruf + 2 digit), opsional dengan subkategori setelah titik, contoh: A09, J06.9, S52.52
+const ICD10_PATTERN = /^[A-Z]\d{2}(\.[0-9A-Z]{1,4})?$/;
+
+// Validasi data form kunjungan, mengembalikan pesan error per field
+export const validateVisitForm = (formData: VisitFormData, t: Translate = translate): FormErrors => {
+  const newErrors: FormErrors = {};
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(formData.tanggal_kunjungan)) {
+    newErrors.tanggal_kunjungan = t('visitValidation.dateRequired');
+  }
+  if (!POLI_OPTIONS.includes(formData.poli)) {
+    newErrors.poli = t('visitValidation.poliRequired');
+  }
+  if (!formData.keluhan.trim()) {
+    newErrors.keluhan = t('visitValidation.keluhanRequired');
+  }
+  if (!formData.dokter.trim()) {
+    newErrors.dokter = t('visitValidation.dokterRequired');
+  }
+  if (!(formData.status in VISIT_STATUS_LABELS)) {
+    newErrors.status = t('visitValidation.statusInvalid');
+  }
+  if (formData.diagnosis_kode && !ICD10_PATTERN.test(formData.diagnosis_kode)) {
+    newErrors.diagnosis_kode = t('visitValidation.icd10Invalid');
+  }
+  if (formData.diagnosis_kode && !formData.diagnosis_teks.trim()) {
+    newErrors.diagnosis_teks = t('visitValidation.diagnosisTextRequired');
+  }
+  if (formData.status === 'selesai' && !formData.diagnosis_kode) {
+    newErrors.diagnosis_kode = t('visitValidation.diagnosisRequired');
+  }
+
+  return newErrors;
+};
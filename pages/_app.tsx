@@ -1,6 +1,30 @@
 import type { AppProps } from 'next/app';
+import type { NextPage } from 'next';
+import { AuthProvider } from '../components/AuthProvider';
+import { LocaleProvider } from '../components/LocaleProvider';
+import AuthGuard from '../components/AuthGuard';
+import UserBar from '../components/UserBar';
+import OfflineStatus from '../components/OfflineStatus';
+import { UndoToastProvider } from '../components/UndoToast';
+import { PageAuth } from '../types/auth';
 import '../styles/globals.css';
 
-export default function App({ Component, pageProps }: AppProps) {
-  return <Component {...pageProps} />;
+type AppPropsWithAuth = AppProps & {
+  Component: NextPage & { auth?: PageAuth };
+};
+
+export default function App({ Component, pageProps }: AppPropsWithAuth) {
+  return (
+    <AuthProvider>
+      <LocaleProvider>
+        <UndoToastProvider>
+          <AuthGuard auth={Component.auth}>
+            <UserBar />
+            <OfflineStatus />
+            <Component {...pageProps} />
+          </AuthGuard>
+        </UndoToastProvider>
+      </LocaleProvider>
+    </AuthProvider>
+  );
 }
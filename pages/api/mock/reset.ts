@@ -0,0 +1,12 @@
+import { withMockApi, methodNotAllowed } from '../../../lib/mock/handler';
+import { resetMockDb } from '../../../lib/mock/patientStore';
+
+// POST /mock/reset: kembalikan data mock ke seed awal sebelum test otomatis
+export default withMockApi((req, res) => {
+  if (req.method !== 'POST') {
+    methodNotAllowed(req, res, ['POST']);
+    return;
+  }
+  resetMockDb();
+  res.status(200).json({ message: 'Data mock dikembalikan ke seed awal' });
+});
@@ -0,0 +1,22 @@
+import { withMockApi, methodNotAllowed, parseId, parseIfMatch, getRequestActor, requireAdmin } from '../../../lib/mock/handler';
+import { getPatient, updatePatient, deletePatient } from '../../../lib/mock/patientStore';
+
+// GET, PATCH, DELETE /patients/:id
+export default withMockApi((req, res) => {
+  const id = parseId(req.query.id);
+
+  switch (req.method) {
+    case 'GET':
+      res.status(200).json(getPatient(id));
+      break;
+    case 'PATCH':
+      res.status(200).json(updatePatient(id, req.body, parseIfMatch(req), getRequestActor(req)));
+      break;
+    case 'DELETE':
+      requireAdmin(req);
+      res.status(200).json(deletePatient(id, getRequestActor(req)));
+      break;
+    default:
+      methodNotAllowed(req, res, ['GET', 'PATCH', 'DELETE']);
+  }
+});
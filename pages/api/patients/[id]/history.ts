@@ -0,0 +1,11 @@
+import { withMockApi, methodNotAllowed, parseId } from '../../../../lib/mock/handler';
+import { getPatientHistory } from '../../../../lib/mock/patientStore';
+
+// GET /patients/:id/history
+export default withMockApi((req, res) => {
+  if (req.method !== 'GET') {
+    methodNotAllowed(req, res, ['GET']);
+    return;
+  }
+  res.status(200).json(getPatientHistory(parseId(req.query.id)));
+});
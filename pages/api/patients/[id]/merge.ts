@@ -0,0 +1,18 @@
+import { withMockApi, methodNotAllowed, parseId, parseIfMatch, getRequestActor, requireAdmin } from '../../../../lib/mock/handler';
+import { mergePatients, MockApiError } from '../../../../lib/mock/patientStore';
+
+// POST /patients/:id/merge { duplicate_id, data } (If-Match: versi pasien :id) -> pasien hasil gabungan
+export default withMockApi((req, res) => {
+  if (req.method !== 'POST') {
+    methodNotAllowed(req, res, ['POST']);
+    return;
+  }
+  requireAdmin(req);
+  const duplicateId: unknown = req.body?.duplicate_id;
+  if (typeof duplicateId !== 'number' || typeof req.body?.data !== 'object' || req.body.data === null) {
+    throw new MockApiError(400, 'duplicate_id harus berupa angka dan data berupa objek');
+  }
+  res.status(200).json(
+    mergePatients(parseId(req.query.id), duplicateId, req.body.data, parseIfMatch(req), getRequestActor(req))
+  );
+});
@@ -0,0 +1,18 @@
+import { withMockApi, methodNotAllowed, parseId } from '../../../../lib/mock/handler';
+import { listPatientVisits, createVisit } from '../../../../lib/mock/visitStore';
+
+// GET, POST /patients/:id/visits
+export default withMockApi((req, res) => {
+  const id = parseId(req.query.id);
+
+  switch (req.method) {
+    case 'GET':
+      res.status(200).json(listPatientVisits(id));
+      break;
+    case 'POST':
+      res.status(201).json(createVisit(id, req.body));
+      break;
+    default:
+      methodNotAllowed(req, res, ['GET', 'POST']);
+  }
+});
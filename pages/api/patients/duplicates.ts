@@ -0,0 +1,18 @@
+import { withMockApi, methodNotAllowed } from '../../../lib/mock/handler';
+import { findDuplicateCandidates } from '../../../lib/mock/patientStore';
+
+// GET /patients/duplicates?nama=&nik=&tanggal_lahir=&exclude_id=&limit= -> { data: Patient[] }
+export default withMockApi((req, res) => {
+  if (req.method !== 'GET') {
+    methodNotAllowed(req, res, ['GET']);
+    return;
+  }
+  const value = (key: string) => {
+    const raw = req.query[key];
+    return ((Array.isArray(raw) ? raw[0] : raw) ?? '').trim();
+  };
+  const data = { nama: value('nama'), nik: value('nik'), tanggal_lahir: value('tanggal_lahir') };
+  const excludeId = Number(value('exclude_id')) || undefined;
+  const limit = Number(value('limit')) || undefined;
+  res.status(200).json({ data: findDuplicateCandidates(data, excludeId, limit) });
+});
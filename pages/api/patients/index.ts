@@ -0,0 +1,17 @@
+import { withMockApi, methodNotAllowed, getRequestActor } from '../../../lib/mock/handler';
+import { listPatients, createPatient } from '../../../lib/mock/patientStore';
+import { parseListQuery, toListParams } from '../../../lib/patientQuery';
+
+// GET /patients, POST /patients
+export default withMockApi((req, res) => {
+  switch (req.method) {
+    case 'GET':
+      res.status(200).json(listPatients(toListParams(parseListQuery(req.query))));
+      break;
+    case 'POST':
+      res.status(201).json(createPatient(req.body, getRequestActor(req)));
+      break;
+    default:
+      methodNotAllowed(req, res, ['GET', 'POST']);
+  }
+});
@@ -0,0 +1,15 @@
+import { withMockApi, methodNotAllowed } from '../../../lib/mock/handler';
+import { findExistingNiks, MockApiError } from '../../../lib/mock/patientStore';
+
+// POST /patients/nik-check { nik: string[] } -> { data: { nik, id }[] }
+export default withMockApi((req, res) => {
+  if (req.method !== 'POST') {
+    methodNotAllowed(req, res, ['POST']);
+    return;
+  }
+  const niks: unknown = req.body?.nik;
+  if (!Array.isArray(niks) || !niks.every(nik => typeof nik === 'string')) {
+    throw new MockApiError(400, 'nik harus berupa array string');
+  }
+  res.status(200).json({ data: findExistingNiks(niks) });
+});
@@ -0,0 +1,13 @@
+import { withMockApi, methodNotAllowed } from '../../../lib/mock/handler';
+import { searchPatients } from '../../../lib/mock/patientStore';
+import { parseListQuery, toListParams } from '../../../lib/patientQuery';
+
+// GET /patients/search?q=
+export default withMockApi((req, res) => {
+  if (req.method !== 'GET') {
+    methodNotAllowed(req, res, ['GET']);
+    return;
+  }
+  const state = parseListQuery(req.query);
+  res.status(200).json(searchPatients(state.q, toListParams(state)));
+});
@@ -0,0 +1,14 @@
+import { withMockApi, methodNotAllowed } from '../../../lib/mock/handler';
+import { getPatientStats } from '../../../lib/mock/patientStore';
+import { parseListQuery } from '../../../lib/patientQuery';
+
+// GET /patients/stats?created_from=&created_to=&interval=week|month
+export default withMockApi((req, res) => {
+  if (req.method !== 'GET') {
+    methodNotAllowed(req, res, ['GET']);
+    return;
+  }
+  const { created_from, created_to } = parseListQuery(req.query);
+  const interval = req.query.interval === 'week' ? 'week' : 'month';
+  res.status(200).json(getPatientStats({ created_from, created_to, interval }));
+});
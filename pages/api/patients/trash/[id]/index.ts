@@ -0,0 +1,12 @@
+import { withMockApi, methodNotAllowed, parseId, requireAdmin } from '../../../../../lib/mock/handler';
+import { purgePatient } from '../../../../../lib/mock/patientStore';
+
+// DELETE /patients/trash/:id (hapus permanen)
+export default withMockApi((req, res) => {
+  if (req.method !== 'DELETE') {
+    methodNotAllowed(req, res, ['DELETE']);
+    return;
+  }
+  requireAdmin(req);
+  res.status(200).json(purgePatient(parseId(req.query.id)));
+});
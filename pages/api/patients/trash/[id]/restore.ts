@@ -0,0 +1,11 @@
+import { withMockApi, methodNotAllowed, parseId, getRequestActor } from '../../../../../lib/mock/handler';
+import { restorePatient } from '../../../../../lib/mock/patientStore';
+
+// POST /patients/trash/:id/restore
+export default withMockApi((req, res) => {
+  if (req.method !== 'POST') {
+    methodNotAllowed(req, res, ['POST']);
+    return;
+  }
+  res.status(200).json(restorePatient(parseId(req.query.id), getRequestActor(req)));
+});
@@ -0,0 +1,13 @@
+import { withMockApi, methodNotAllowed } from '../../../../lib/mock/handler';
+import { listDeletedPatients } from '../../../../lib/mock/patientStore';
+import { parseListQuery } from '../../../../lib/patientQuery';
+
+// GET /patients/trash
+export default withMockApi((req, res) => {
+  if (req.method !== 'GET') {
+    methodNotAllowed(req, res, ['GET']);
+    return;
+  }
+  const { page, limit } = parseListQuery(req.query);
+  res.status(200).json(listDeletedPatients({ page, limit }));
+});
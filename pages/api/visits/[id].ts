@@ -0,0 +1,19 @@
+import { withMockApi, methodNotAllowed, parseId, requireAdmin } from '../../../lib/mock/handler';
+import { updateVisit, deleteVisit } from '../../../lib/mock/visitStore';
+
+// PATCH, DELETE /visits/:id
+export default withMockApi((req, res) => {
+  const id = parseId(req.query.id);
+
+  switch (req.method) {
+    case 'PATCH':
+      res.status(200).json(updateVisit(id, req.body));
+      break;
+    case 'DELETE':
+      requireAdmin(req);
+      res.status(200).json(deleteVisit(id));
+      break;
+    default:
+      methodNotAllowed(req, res, ['PATCH', 'DELETE']);
+  }
+});
@@ -0,0 +1,18 @@
+import { withMockApi, methodNotAllowed } from '../../../lib/mock/handler';
+import { listVisits } from '../../../lib/mock/visitStore';
+import { VisitStatus } from '../../../types/patient';
+
+const queryValue = (value: string | string[] | undefined) => (Array.isArray(value) ? value[0] : value) || undefined;
+
+// GET /visits?tanggal=&poli=&status=
+export default withMockApi((req, res) => {
+  if (req.method !== 'GET') {
+    methodNotAllowed(req, res, ['GET']);
+    return;
+  }
+  res.status(200).json(listVisits({
+    tanggal: queryValue(req.query.tanggal),
+    poli: queryValue(req.query.poli),
+    status: queryValue(req.query.status) as VisitStatus | undefined,
+  }));
+});
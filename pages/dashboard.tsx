@@ -0,0 +1,244 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import axios from 'axios';
+import { getPatientStats, getApiErrorMessage } from '../lib/api';
+import { defaultListState, toUrlQuery } from '../lib/patientQuery';
+import {
+  ChartDatum,
+  PatientStats,
+  StatsInterval,
+  registrationChart,
+  ageChart,
+  genderChart,
+  bloodTypeChart,
+  provinceChart,
+} from '../lib/patientStats';
+import { todayIsoDate } from '../lib/visitForm';
+import { formatDate } from '../lib/format';
+import { translate, MessageKey } from '../lib/i18n';
+import BarChart from '../components/BarChart';
+import { useI18n } from '../components/LocaleProvider';
+
+const queryValue = (value: string | string[] | undefined) => (Array.isArray(value) ? value[0] : value) || '';
+
+const isIsoDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const daysAgo = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return todayIsoDate(date);
+};
+
+const RANGE_PRESETS: { label: MessageKey; range: () => { dari: string; sampai: string } }[] = [
+  { label: 'dashboard.range.30days', range: () => ({ dari: daysAgo(29), sampai: todayIsoDate() }) },
+  {
+    label: 'dashboard.range.12months',
+    range: () => {
+      const today = new Date();
+      return { dari: todayIsoDate(new Date(today.getFullYear() - 1, today.getMonth() + 1, 1)), sampai: todayIsoDate() };
+    },
+  },
+  { label: 'dashboard.range.thisYear', range: () => ({ dari: `${new Date().getFullYear()}-01-01`, sampai: todayIsoDate() }) },
+  { label: 'common.all', range: () => ({ dari: '', sampai: '' }) },
+];
+
+// Population statistics of all active patients; the date range (kept in the URL) applies to created_at
+export default function Dashboard() {
+  const router = useRouter();
+  const { t } = useI18n();
+  const [stats, setStats] = useState<PatientStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const dari = isIsoDate(queryValue(router.query.dari)) ? queryValue(router.query.dari) : '';
+  const sampai = isIsoDate(queryValue(router.query.sampai)) ? queryValue(router.query.sampai) : '';
+  const interval: StatsInterval = queryValue(router.query.interval) === 'week' ? 'week' : 'month';
+
+  const updateQuery = (changes: Record<string, string>) => {
+    const query = Object.fromEntries(
+      Object.entries({ dari, sampai, interval, ...changes }).filter(([key, value]) =>
+        value && !(key === 'interval' && value === 'month')
+      )
+    );
+    router.replace({ pathname: router.pathname, query }, undefined, { shallow: true });
+  };
+
+  // The server aggregates over the selected range, so only the counts are downloaded
+  const fetchStats = useCallback(async (signal?: AbortSignal) => {
+    try {
+      setLoading(true);
+      setErrorMessage('');
+      setStats(await getPatientStats({ created_from: dari || undefined, created_to: sampai || undefined, interval }, signal));
+    } catch (error) {
+      if (axios.isCancel(error)) return;
+      setStats(null);
+      setErrorMessage(getApiErrorMessage(error, translate('dashboard.fetchFailed')));
+    } finally {
+      if (!signal?.aborted) {
+        setLoading(false);
+      }
+    }
+  }, [dari, sampai, interval]);
+
+  useEffect(() => {
+    if (!router.isReady) return;
+    const controller = new AbortController();
+    fetchStats(controller.signal);
+    return () => controller.abort();
+  }, [router.isReady, fetchStats]);
+
+  const charts = useMemo(() => stats && {
+    registrations: registrationChart(stats, interval),
+    age: ageChart(stats, t),
+    gender: genderChart(stats, t),
+    bloodType: bloodTypeChart(stats, t),
+    province: provinceChart(stats, t),
+  }, [stats, interval, t]);
+
+  // Open the patient list filtered to the clicked segment, within the selected date range
+  const openSegment = (datum: ChartDatum) => {
+    router.push({
+      pathname: '/',
+      query: toUrlQuery({ ...defaultListState, created_from: dari, created_to: sampai, ...datum.filter }),
+    });
+  };
+
+  const rangeLabel = dari || sampai
+    ? `${dari ? formatDate(dari) : t('dashboard.rangeStart')} – ${sampai ? formatDate(sampai) : t('dashboard.rangeNow')}`
+    : t('dashboard.allTime');
+
+  return (
+    <>
+      <Head>
+        <title>{t('dashboard.pageTitle')} - {t('app.title')}</title>
+      </Head>
+
+      <main className="min-h-screen bg-gray-100 py-8">
+        <div className="max-w-7xl mx-auto px-4">
+          <Link href="/" className="inline-block text-blue-600 hover:text-blue-800 font-medium mb-4">
+            ← {t('common.backToList')}
+          </Link>
+
+          <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+            <h1 className="text-2xl font-bold text-gray-800 mb-1">{t('dashboard.title')}</h1>
+            <p className="text-gray-600 text-sm">
+              {t('dashboard.description', { range: rangeLabel })}
+            </p>
+          </div>
+
+          {errorMessage && (
+            <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg mb-4">
+              ❌ {errorMessage}{' '}
+              <button onClick={() => fetchStats()} className="font-medium underline">{t('common.retry')}</button>
+            </div>
+          )}
+
+          {/* Date range */}
+          <div className="bg-white rounded-lg shadow-md p-4 mb-6 flex flex-col md:flex-row gap-4 md:items-end">
+            <div className="flex flex-wrap gap-2">
+              {RANGE_PRESETS.map(preset => {
+                const range = preset.range();
+                const active = range.dari === dari && range.sampai === sampai;
+                return (
+                  <button
+                    key={preset.label}
+                    onClick={() => updateQuery(range)}
+                    className={active ? 'btn-primary' : 'btn-secondary'}
+                  >
+                    {t(preset.label)}
+                  </button>
+                );
+              })}
+            </div>
+            <div>
+              <label className="block text-gray-700 text-sm font-medium mb-1">{t('dashboard.from')}</label>
+              <input
+                type="date"
+                value={dari}
+                max={sampai || undefined}
+                onChange={(e) => updateQuery({ dari: e.target.value })}
+                className="input-field"
+              />
+            </div>
+            <div>
+              <label className="block text-gray-700 text-sm font-medium mb-1">{t('dashboard.to')}</label>
+              <input
+                type="date"
+                value={sampai}
+                min={dari || undefined}
+                onChange={(e) => updateQuery({ sampai: e.target.value })}
+                className="input-field"
+              />
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="bg-white rounded-lg shadow-md p-8 text-center text-gray-500">
+              <div className="animate-spin inline-block w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full mb-2"></div>
+              <p>{t('common.loading')}</p>
+            </div>
+          ) : stats && charts && (
+            <>
+              {/* Totals */}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                {[
+                  { label: t('dashboard.totalPatients'), value: stats.total },
+                  { label: t('dashboard.inRange'), value: stats.inRange },
+                  ...charts.gender.map(datum => ({ label: datum.label, value: datum.value })),
+                ].map(card => (
+                  <div key={card.label} className="bg-white rounded-lg shadow-md p-4">
+                    <p className="text-sm text-gray-500">{card.label}</p>
+                    <p className="text-3xl font-bold text-gray-800">{card.value}</p>
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div className="bg-white rounded-lg shadow-md p-6 lg:col-span-2">
+                  <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-lg font-semibold text-gray-800">{t('dashboard.registrations')}</h2>
+                    <div className="flex gap-2 text-sm">
+                      {(['week', 'month'] as StatsInterval[]).map(option => (
+                        <button
+                          key={option}
+                          onClick={() => updateQuery({ interval: option })}
+                          className={`px-3 py-1 rounded ${interval === option ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+                        >
+                          {option === 'week' ? t('dashboard.perWeek') : t('dashboard.perMonth')}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <BarChart data={charts.registrations} orientation="vertical" onSelect={openSegment} />
+                </div>
+
+                <div className="bg-white rounded-lg shadow-md p-6">
+                  <h2 className="text-lg font-semibold text-gray-800 mb-1">{t('dashboard.ageGroups')}</h2>
+                  <p className="text-sm text-gray-500 mb-4">{t('dashboard.averageAge', { age: stats.averageAge })}</p>
+                  <BarChart data={charts.age} barClassName="bg-green-500" onSelect={openSegment} />
+                </div>
+
+                <div className="bg-white rounded-lg shadow-md p-6">
+                  <h2 className="text-lg font-semibold text-gray-800 mb-4">{t('field.jenis_kelamin')}</h2>
+                  <BarChart data={charts.gender} barClassName="bg-purple-500" onSelect={openSegment} />
+                </div>
+
+                <div className="bg-white rounded-lg shadow-md p-6">
+                  <h2 className="text-lg font-semibold text-gray-800 mb-4">{t('field.golongan_darah')}</h2>
+                  <BarChart data={charts.bloodType} barClassName="bg-red-500" onSelect={openSegment} />
+                </div>
+
+                <div className="bg-white rounded-lg shadow-md p-6 lg:col-span-2">
+                  <h2 className="text-lg font-semibold text-gray-800 mb-4">{t('field.provinsi_kode')}</h2>
+                  <BarChart data={charts.province} barClassName="bg-yellow-500" onSelect={openSegment} />
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,364 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import axios from 'axios';
+import { createPatient, findExistingNiks, getApiErrorMessage, ExistingNik } from '../lib/api';
+import {
+  readSpreadsheet,
+  guessColumnMapping,
+  buildImportRows,
+  isImportRowValid,
+  markExistingNiks,
+  importProvinceCodes,
+  PATIENT_FIELDS,
+  ColumnMapping,
+  ImportRow,
+  SpreadsheetData,
+} from '../lib/patientImport';
+import { parseFhirImport } from '../lib/fhir';
+import { runWithConcurrency } from '../lib/concurrency';
+import { toCsv } from '../lib/csv';
+import { downloadCsv } from '../lib/download';
+import { translate } from '../lib/i18n';
+import useRegionData from '../hooks/useRegionData';
+import { useI18n } from '../components/LocaleProvider';
+import { PageAuth } from '../types/auth';
+
+const IMPORT_CONCURRENCY = 4;
+
+interface FailedRow {
+  row: ImportRow;
+  reason: string;
+}
+
+export default function ImportPatients() {
+  const { t } = useI18n();
+  const [fileName, setFileName] = useState('');
+  const [spreadsheet, setSpreadsheet] = useState<SpreadsheetData | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  // FHIR Bundles need no column mapping; each entry becomes one preview row
+  const [fhirRows, setFhirRows] = useState<ImportRow[] | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState({ completed: 0, total: 0 });
+  const [result, setResult] = useState<{ created: number; failed: FailedRow[] } | null>(null);
+  const [errorMessage, setErrorMessage] = useState('');
+  // NIKs already registered on the server; rows using them are not imported
+  const [existingNiks, setExistingNiks] = useState<ExistingNik[]>([]);
+  const [checkingNiks, setCheckingNiks] = useState(false);
+  const [nikCheckError, setNikCheckError] = useState('');
+
+  // Region codes can only be validated once the region data of their provinces is loaded
+  const provinceCodes = useMemo(
+    () => (spreadsheet && mapping ? importProvinceCodes(spreadsheet, mapping) : []),
+    [spreadsheet, mapping]
+  );
+  const regionsReady = useRegionData(provinceCodes);
+
+  const parsedRows = useMemo(
+    () => fhirRows ?? (spreadsheet && mapping && regionsReady ? buildImportRows(spreadsheet, mapping) : []),
+    [fhirRows, spreadsheet, mapping, regionsReady]
+  );
+  // Well-formed NIKs in the file, joined so that remapping other columns does not trigger another check
+  const nikList = useMemo(
+    () => Array.from(new Set(parsedRows.filter(row => row.data.nik && !row.errors.nik).map(row => row.data.nik))).sort().join(','),
+    [parsedRows]
+  );
+  const importRows = useMemo(() => markExistingNiks(parsedRows, existingNiks), [parsedRows, existingNiks]);
+  const hasPreview = fhirRows !== null || (spreadsheet !== null && mapping !== null);
+  const isFhir = fhirRows !== null;
+  // Spreadsheets are counted in rows, FHIR Bundles in entries
+  const rowLabel = isFhir ? t('import.col.entry') : t('import.col.row');
+  const rowUnit = isFhir ? t('import.unit.entry') : t('import.unit.row');
+  const validRows = importRows.filter(isImportRowValid);
+  const invalidRows = importRows.filter(row => !isImportRowValid(row));
+
+  const checkExistingNiks = useCallback(async (niks: string[], signal: AbortSignal) => {
+    try {
+      setExistingNiks(await findExistingNiks(niks, signal));
+    } catch (error) {
+      if (axios.isCancel(error)) return;
+      setNikCheckError(getApiErrorMessage(error, translate('import.nikCheckFailed')));
+    } finally {
+      if (!signal.aborted) {
+        setCheckingNiks(false);
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    setExistingNiks([]);
+    setNikCheckError('');
+    if (!nikList) {
+      setCheckingNiks(false);
+      return;
+    }
+    const controller = new AbortController();
+    setCheckingNiks(true);
+    checkExistingNiks(nikList.split(','), controller.signal);
+    return () => controller.abort();
+  }, [nikList, checkExistingNiks]);
+
+  // Handle file upload
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setErrorMessage('');
+    setResult(null);
+    setSpreadsheet(null);
+    setMapping(null);
+    setFhirRows(null);
+    try {
+      setFileName(file.name);
+      if (/\.json$/i.test(file.name)) {
+        setFhirRows(await parseFhirImport(await file.text()));
+      } else {
+        const data = await readSpreadsheet(file);
+        setSpreadsheet(data);
+        setMapping(guessColumnMapping(data.headers));
+      }
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : t('import.readFailed'));
+    }
+  };
+
+  // Create every valid row, a few at a time
+  const handleImport = async () => {
+    setImporting(true);
+    setResult(null);
+    setProgress({ completed: 0, total: validRows.length });
+
+    const outcomes = await runWithConcurrency(
+      validRows,
+      IMPORT_CONCURRENCY,
+      row => createPatient(row.data),
+      (completed, total) => setProgress({ completed, total })
+    );
+
+    const failed: FailedRow[] = [];
+    outcomes.forEach((outcome, index) => {
+      if (outcome.status === 'rejected') {
+        failed.push({
+          row: validRows[index],
+          reason: getApiErrorMessage(outcome.reason, t('home.saveFailed')),
+        });
+      }
+    });
+
+    setResult({ created: validRows.length - failed.length, failed });
+    setImporting(false);
+  };
+
+  // Report of every row that was not imported: invalid in the preview or rejected by the server
+  const handleDownloadReport = () => {
+    const failedRows: FailedRow[] = [
+      ...invalidRows.map(row => ({
+        row,
+        reason: row.duplicateOfRow
+          ? t('import.duplicateNik', { unit: rowUnit, row: row.duplicateOfRow })
+          : row.existingPatientId
+            ? t('import.existingNik', { id: row.existingPatientId })
+            : Object.values(row.errors).join('; '),
+      })),
+      ...(result?.failed ?? []),
+    ].sort((a, b) => a.row.rowNumber - b.row.rowNumber);
+
+    const csv = toCsv([
+      [rowUnit, ...PATIENT_FIELDS.map(({ field }) => field), t('import.reportReason')],
+      ...failedRows.map(({ row, reason }) => [
+        row.rowNumber,
+        ...PATIENT_FIELDS.map(({ field }) => row.data[field]),
+        reason,
+      ]),
+    ]);
+    downloadCsv(csv, `${t('import.reportFileName')}-${fileName.replace(/\.[^.]+$/, '')}.csv`);
+  };
+
+  return (
+    <>
+      <Head>
+        <title>{t('import.pageTitle')} - {t('app.title')}</title>
+      </Head>
+
+      <main className="min-h-screen bg-gray-100 py-8">
+        <div className="max-w-7xl mx-auto px-4">
+          <Link href="/" className="inline-block text-blue-600 hover:text-blue-800 font-medium mb-4">
+            ← {t('common.backToList')}
+          </Link>
+
+          {/* Header */}
+          <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+            <h1 className="text-3xl font-bold text-gray-800 mb-2">{t('import.title')}</h1>
+            <p className="text-gray-600">{t('import.description')}</p>
+          </div>
+
+          {nikCheckError && (
+            <div className="bg-yellow-100 border border-yellow-400 text-yellow-800 px-4 py-3 rounded-lg mb-4">
+              ⚠️ {nikCheckError}
+            </div>
+          )}
+
+          {errorMessage && (
+            <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg mb-4">
+              ❌ {errorMessage}
+            </div>
+          )}
+
+          {/* Upload */}
+          <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+            <h2 className="text-xl font-semibold mb-4">{t('import.step.file')}</h2>
+            <input
+              type="file"
+              accept=".csv,.xlsx,.xls,.json"
+              onChange={handleFileChange}
+              disabled={importing}
+              className="block text-sm text-gray-700"
+            />
+            {spreadsheet && (
+              <p className="text-sm text-gray-500 mt-2">
+                {fileName}: {t('import.spreadsheetSummary', { rows: spreadsheet.rows.length, columns: spreadsheet.headers.length })}
+              </p>
+            )}
+            {fhirRows && (
+              <p className="text-sm text-gray-500 mt-2">
+                {fileName}: {t('import.bundleSummary', { count: fhirRows.length })}
+              </p>
+            )}
+          </div>
+
+          {/* Column mapping */}
+          {spreadsheet && mapping && (
+            <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+              <h2 className="text-xl font-semibold mb-4">{t('import.step.mapping')}</h2>
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                {PATIENT_FIELDS.map(({ field, label }) => (
+                  <div key={field}>
+                    <label className="block text-gray-700 font-medium mb-2">{t(label)}</label>
+                    <select
+                      value={mapping[field]}
+                      onChange={(e) => setMapping({ ...mapping, [field]: e.target.value })}
+                      disabled={importing}
+                      className="input-field"
+                    >
+                      <option value="">{t('import.noColumn')}</option>
+                      {spreadsheet.headers.map((header) => (
+                        <option key={header} value={header}>{header}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Preview */}
+          {hasPreview && (
+            <div className="bg-white rounded-lg shadow-md overflow-hidden mb-6">
+              <div className="p-4 bg-gray-50 border-b flex flex-col md:flex-row gap-4 justify-between md:items-center">
+                <h2 className="text-xl font-semibold">
+                  {t('import.step.preview', { step: isFhir ? 2 : 3, valid: validRows.length, invalid: invalidRows.length })}
+                </h2>
+                <button
+                  onClick={handleImport}
+                  disabled={importing || checkingNiks || result !== null || validRows.length === 0}
+                  className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {importing
+                    ? t('import.importing')
+                    : checkingNiks
+                      ? t('import.checkingNiks')
+                      : t(isFhir ? 'import.submitEntries' : 'import.submitRows', { count: validRows.length })}
+                </button>
+              </div>
+
+              {(importing || result) && (
+                <div className="p-4 border-b">
+                  <div className="w-full bg-gray-200 rounded-full h-3">
+                    <div
+                      className="bg-blue-600 h-3 rounded-full transition-all"
+                      style={{ width: `${progress.total ? (progress.completed / progress.total) * 100 : 0}%` }}
+                    />
+                  </div>
+                  <p className="text-sm text-gray-600 mt-2">
+                    {t('import.progress', { completed: progress.completed, total: progress.total, unit: rowUnit })}
+                  </p>
+                  {result && (
+                    <div className="mt-2 flex flex-col md:flex-row gap-4 md:items-center">
+                      <p className="text-sm">
+                        ✅ {t('import.created', { count: result.created })}
+                        {result.failed.length > 0 && <>, ❌ {t('import.rejected', { count: result.failed.length })}</>}
+                      </p>
+                      {(result.failed.length > 0 || invalidRows.length > 0) && (
+                        <button onClick={handleDownloadReport} className="btn-secondary text-sm">
+                          {t(isFhir ? 'import.reportEntries' : 'import.reportRows')}
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {!regionsReady && (
+                <p className="p-4 border-b text-sm text-gray-500">{t('import.loadingRegions')}</p>
+              )}
+
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-100">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-sm font-semibold text-gray-600">{rowLabel}</th>
+                      {PATIENT_FIELDS.map(({ field, label }) => (
+                        <th key={field} className="px-4 py-3 text-left text-sm font-semibold text-gray-600">{t(label)}</th>
+                      ))}
+                      <th className="px-4 py-3 text-left text-sm font-semibold text-gray-600">{t('import.col.status')}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {importRows.map((row) => {
+                      const valid = isImportRowValid(row);
+                      return (
+                        <tr key={row.rowNumber} className={valid ? '' : 'bg-red-50'}>
+                          <td className="px-4 py-3 text-sm text-gray-700">{row.rowNumber}</td>
+                          {PATIENT_FIELDS.map(({ field }) => (
+                            <td
+                              key={field}
+                              className={`px-4 py-3 text-sm ${row.errors[field] ? 'text-red-700 font-medium' : 'text-gray-700'}`}
+                              title={row.errors[field]}
+                            >
+                              {row.data[field] || '-'}
+                            </td>
+                          ))}
+                          <td className="px-4 py-3 text-sm">
+                            {valid ? (
+                              <span className="text-green-700">{t('import.valid')}</span>
+                            ) : (
+                              <ul className="text-red-700 list-disc list-inside">
+                                {row.duplicateOfRow && <li>{t('import.duplicateNik', { unit: rowUnit, row: row.duplicateOfRow })}</li>}
+                                {row.existingPatientId && (
+                                  <li>
+                                    <Link href={`/patients/${row.existingPatientId}`} className="underline">
+                                      {t('import.existingNik', { id: row.existingPatientId })}
+                                    </Link>
+                                  </li>
+                                )}
+                                {Object.values(row.errors).map((error) => (
+                                  <li key={error}>{error}</li>
+                                ))}
+                              </ul>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+    </>
+  );
+}
+
+ImportPatients.auth = { permission: 'patient:create' } satisfies PageAuth;
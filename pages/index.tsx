@@ -1,180 +1,386 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import Head from 'next/head';
-import { Patient, PatientFormData, FormErrors } from '../types/patient';
-import { getAllPatients, createPatient, updatePatient, deletePatient } from '../lib/api';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { Patient, PatientFormData } from '../types/patient';
+import {
+  getAllPatients,
+  searchPatients,
+  createPatient,
+  deletePatient,
+  restorePatient,
+  getApiErrorMessage,
+  getFormErrorMessage,
+  PatientSortField,
+} from '../lib/api';
+import { patientToFormData } from '../lib/patientForm';
+import { genderLabel } from '../lib/patientSchema';
+import { EditConflictError } from '../lib/editConflict';
+import { findPossibleDuplicates, DuplicateMatch } from '../lib/duplicates';
+import { formatDate, formatDateTime, formatNumber } from '../lib/format';
+import { formatPhone } from '../lib/phone';
+import { QUEUE_CHANGE_EVENT } from '../lib/offlineDb';
+import { translate } from '../lib/i18n';
+import {
+  fetchAllPatients,
+  patientsToCsv,
+  buildPrintableReport,
+  openPrintWindow,
+  printReport,
+} from '../lib/patientExport';
+import { downloadCsv, downloadFile } from '../lib/download';
+import { toFhirBundle, FHIR_MIME_TYPE } from '../lib/fhir';
+import { loadRegionData } from '../lib/regions';
+import { pickFilters, FilterValues } from '../lib/filterPresets';
+import {
+  parseListQuery,
+  toUrlQuery,
+  toListParams,
+  toFilterParams,
+  describeFilters,
+  defaultListState,
+  FILTER_KEYS,
+  PatientListState,
+} from '../lib/patientQuery';
+import useDebounce from '../hooks/useDebounce';
+import usePatientUpdate from '../hooks/usePatientUpdate';
+import usePrintCards from '../hooks/usePrintCards';
+import Pagination from '../components/Pagination';
+import SortableHeader from '../components/SortableHeader';
+import Highlight from '../components/Highlight';
+import PatientForm from '../components/PatientForm';
+import ConflictDialog from '../components/ConflictDialog';
+import DuplicateWarningDialog from '../components/DuplicateWarningDialog';
+import PatientFilterPanel from '../components/PatientFilterPanel';
+import { useAuth } from '../components/AuthProvider';
+import { useUndoToast } from '../components/UndoToast';
+import { useI18n } from '../components/LocaleProvider';
 import axios from 'axios';
 
-const initialFormData: PatientFormData = {
-  nama: '',
-  nik: '',
-  tanggal_lahir: '',
-  jenis_kelamin: '',
-  alamat: '',
-  no_telepon: '',
-  email: '',
-  golongan_darah: '',
-};
+const SEARCH_DEBOUNCE_MS = 400;
 
 export default function Home() {
+  const router = useRouter();
+  const { can } = useAuth();
+  const { showUndo } = useUndoToast();
+  const { t } = useI18n();
   const [patients, setPatients] = useState<Patient[]>([]);
+  const [total, setTotal] = useState(0);
+  const [totalPages, setTotalPages] = useState(1);
+  const [cachedAt, setCachedAt] = useState<string | undefined>();
   const [loading, setLoading] = useState(true);
-  const [formData, setFormData] = useState<PatientFormData>(initialFormData);
-  const [errors, setErrors] = useState<FormErrors>({});
-  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editingPatient, setEditingPatient] = useState<Patient | null>(null);
   const [showForm, setShowForm] = useState(false);
   const [successMessage, setSuccessMessage] = useState('');
   const [errorMessage, setErrorMessage] = useState('');
   const [searchKeyword, setSearchKeyword] = useState('');
+  const [exporting, setExporting] = useState(false);
+  const [showFilters, setShowFilters] = useState(false);
+  // Patients picked for batch card printing; kept across pages and searches
+  // Ids only: the cards are printed from freshly fetched records
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const { printCards, printing: printingCards } = usePrintCards(setErrorMessage);
+  const { conflict, save: savePatient, clearConflict } = usePatientUpdate();
+  const [resolvingConflict, setResolvingConflict] = useState(false);
+  const [duplicateCheck, setDuplicateCheck] = useState<{ data: PatientFormData; matches: DuplicateMatch[] } | null>(null);
+  const [creatingAnyway, setCreatingAnyway] = useState(false);
+  const debouncedKeyword = useDebounce(searchKeyword.trim(), SEARCH_DEBOUNCE_MS);
+  const searchInitialized = useRef(false);
+  const fetchController = useRef<AbortController | null>(null);
+
+  // Pagination, sorting, filters and the search keyword live in the URL query string
+  const listState = useMemo(() => parseListQuery(router.query), [router.query]);
+  const { page, limit, sortBy, sortOrder, q } = listState;
+
+  const updateListState = useCallback((changes: Partial<PatientListState>, replace = false) => {
+    const url = { pathname: router.pathname, query: toUrlQuery({ ...listState, ...changes }) };
+    if (replace) {
+      router.replace(url, undefined, { shallow: true });
+    } else {
+      router.push(url, undefined, { shallow: true });
+    }
+  }, [router, listState]);
+
+  // Fetch the current page of patients, cancelling any request still in flight
+  const fetchPatients = useCallback(async () => {
+    fetchController.current?.abort();
+    const controller = new AbortController();
+    fetchController.current = controller;
 
-  // Fetch all patients
-  const fetchPatients = async () => {
     try {
       setLoading(true);
-      const data = await getAllPatients();
-      setPatients(data);
+      const params = toListParams(listState);
+      const result = q
+        ? await searchPatients(q, params, controller.signal)
+        : await getAllPatients(params, controller.signal);
+      setPatients(result.data);
+      setTotal(result.total);
+      setTotalPages(Math.max(1, result.totalPages));
+      setCachedAt(result.cachedAt);
     } catch (error) {
-      setErrorMessage('Gagal mengambil data pasien. Pastikan backend sudah berjalan.');
+      if (axios.isCancel(error)) {
+        return;
+      }
+      // translate() instead of t so that switching the language does not refetch
+      setErrorMessage(translate('home.fetchFailed'));
     } finally {
-      setLoading(false);
+      if (!controller.signal.aborted) {
+        setLoading(false);
+      }
     }
-  };
+  }, [listState, q]);
 
+  // The undo toast can outlive the render that deleted the row, so it refreshes through this ref
+  const latestFetchPatients = useRef(fetchPatients);
   useEffect(() => {
-    fetchPatients();
-  }, []);
+    latestFetchPatients.current = fetchPatients;
+  }, [fetchPatients]);
 
-  // Validate form
-  const validateForm = (): boolean => {
-    const newErrors: FormErrors = {};
-
-    if (!formData.nama.trim()) {
-      newErrors.nama = 'Nama tidak boleh kosong';
-    }
-    if (!formData.nik.trim()) {
-      newErrors.nik = 'NIK tidak boleh kosong';
-    } else if (!/^[0-9]+$/.test(formData.nik)) {
-      newErrors.nik = 'NIK hanya boleh berisi angka';
-    }
-    if (!formData.tanggal_lahir) {
-      newErrors.tanggal_lahir = 'Tanggal lahir tidak boleh kosong';
-    }
-    if (!formData.jenis_kelamin) {
-      newErrors.jenis_kelamin = 'Jenis kelamin tidak boleh kosong';
-    }
-    if (!formData.alamat.trim()) {
-      newErrors.alamat = 'Alamat tidak boleh kosong';
+  useEffect(() => {
+    if (router.isReady) {
+      fetchPatients();
     }
-    if (!formData.no_telepon.trim()) {
-      newErrors.no_telepon = 'No telepon tidak boleh kosong';
+    return () => fetchController.current?.abort();
+  }, [router.isReady, fetchPatients]);
+
+  // Refresh when the offline queue changes so queued and freshly synced rows show up
+  useEffect(() => {
+    window.addEventListener(QUEUE_CHANGE_EVENT, fetchPatients);
+    return () => window.removeEventListener(QUEUE_CHANGE_EVENT, fetchPatients);
+  }, [fetchPatients]);
+
+  // Seed the search box once from a bookmarked URL
+  useEffect(() => {
+    if (router.isReady && !searchInitialized.current) {
+      searchInitialized.current = true;
+      setSearchKeyword(q);
     }
-    if (!formData.golongan_darah) {
-      newErrors.golongan_darah = 'Golongan darah tidak boleh kosong';
+  }, [router.isReady, q]);
+
+  // The keyword effect below runs only when the keyword settles; it reads the URL state through this ref
+  // so that navigating (e.g. paging) does not push a stale keyword back
+  const latestListState = useRef({ q, updateListState });
+  useEffect(() => {
+    latestListState.current = { q, updateListState };
+  }, [q, updateListState]);
+
+  // Push the debounced keyword to the URL, which triggers the server-side search
+  useEffect(() => {
+    const { q: currentKeyword, updateListState: update } = latestListState.current;
+    if (searchInitialized.current && debouncedKeyword !== currentKeyword) {
+      update({ q: debouncedKeyword, page: 1 }, true);
     }
-    if (formData.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.email)) {
-      newErrors.email = 'Format email tidak valid';
+  }, [debouncedKeyword]);
+
+  // Jump back to the last page when it no longer exists (e.g. after deleting its last row)
+  useEffect(() => {
+    if (!loading && page > totalPages) {
+      updateListState({ page: totalPages });
     }
+  }, [loading, page, totalPages, updateListState]);
 
-    setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
+  // Toggle direction on the active column, otherwise sort ascending by the new column
+  const handleSort = (field: PatientSortField) => {
+    updateListState({
+      sortBy: field,
+      sortOrder: field === sortBy && sortOrder === 'asc' ? 'desc' : 'asc',
+      page: 1,
+    });
   };
 
   // Handle form submit
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const handleSubmit = async (formData: PatientFormData) => {
     setSuccessMessage('');
     setErrorMessage('');
 
-    if (!validateForm()) {
-      return;
-    }
-
     try {
-      if (editingId) {
-        await updatePatient(editingId, formData);
-        setSuccessMessage('Data pasien berhasil diperbarui!');
+      if (!editingPatient) {
+        // A failed check must not block registration, the backend still rejects an exact NIK match
+        const matches = await findPossibleDuplicates(formData).catch(() => []);
+        if (matches.length > 0) {
+          setDuplicateCheck({ data: formData, matches });
+          return;
+        }
+      }
+
+      const saved = editingPatient
+        ? await savePatient(editingPatient, formData)
+        : await createPatient(formData);
+      if (saved.pendingSync) {
+        setSuccessMessage(t('offline.queued'));
       } else {
-        await createPatient(formData);
-        setSuccessMessage('Pasien baru berhasil ditambahkan!');
+        setSuccessMessage(t(editingPatient ? 'home.updated' : 'home.created'));
       }
-      
-      setFormData(initialFormData);
-      setEditingId(null);
-      setShowForm(false);
+
+      closeForm();
       fetchPatients();
     } catch (error) {
-      if (axios.isAxiosError(error) && error.response) {
-        const apiError = error.response.data;
-        if (apiError.errors && Array.isArray(apiError.errors)) {
-          setErrorMessage(apiError.errors.join(', '));
-        } else {
-          setErrorMessage(apiError.message || 'Terjadi kesalahan');
-        }
+      if (error instanceof EditConflictError) {
+        setErrorMessage(error.message);
       } else {
-        setErrorMessage('Terjadi kesalahan saat menyimpan data');
+        setErrorMessage(getFormErrorMessage(error, t('home.saveFailed')));
+      }
+      throw error;
+    }
+  };
+
+  // The receptionist confirmed the new patient is not one of the likely duplicates
+  const handleCreateAnyway = async () => {
+    if (!duplicateCheck) return;
+    try {
+      setCreatingAnyway(true);
+      const saved = await createPatient(duplicateCheck.data);
+      setErrorMessage('');
+      setSuccessMessage(t(saved.pendingSync ? 'offline.queued' : 'home.created'));
+      closeForm();
+      fetchPatients();
+    } catch (error) {
+      setErrorMessage(getApiErrorMessage(error, t('home.saveFailed')));
+    } finally {
+      setCreatingAnyway(false);
+      setDuplicateCheck(null);
+    }
+  };
+
+  // Save the merged values on top of the version that won; another concurrent edit reopens the dialog
+  const handleResolveConflict = async (merged: PatientFormData) => {
+    if (!conflict) return;
+    try {
+      setResolvingConflict(true);
+      const saved = await savePatient(conflict.latest, merged);
+      setErrorMessage('');
+      setSuccessMessage(t(saved.pendingSync ? 'offline.queued' : 'home.updated'));
+      closeForm();
+      fetchPatients();
+    } catch (error) {
+      if (!(error instanceof EditConflictError)) {
+        clearConflict();
+        setErrorMessage(getFormErrorMessage(error, t('home.saveFailed')));
       }
+    } finally {
+      setResolvingConflict(false);
     }
   };
 
+  // Drop my edits and show the other user's version
+  const handleKeepTheirs = () => {
+    clearConflict();
+    closeForm();
+    setErrorMessage('');
+    setSuccessMessage(t('home.keptTheirs'));
+    fetchPatients();
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingPatient(null);
+  };
+
   // Handle edit
   const handleEdit = (patient: Patient) => {
-    setFormData({
-      nama: patient.nama,
-      nik: patient.nik,
-      tanggal_lahir: patient.tanggal_lahir.split('T')[0],
-      jenis_kelamin: patient.jenis_kelamin,
-      alamat: patient.alamat,
-      no_telepon: patient.no_telepon,
-      email: patient.email || '',
-      golongan_darah: patient.golongan_darah,
-    });
-    setEditingId(patient.id);
+    if (!can('patient:edit')) return;
+    setEditingPatient(patient);
     setShowForm(true);
-    setErrors({});
   };
 
-  // Handle delete
-  const handleDelete = async (id: number, nama: string) => {
-    if (window.confirm(`Apakah Anda yakin ingin menghapus data pasien ${nama}?`)) {
-      try {
-        await deletePatient(id);
-        setSuccessMessage('Data pasien berhasil dihapus!');
-        fetchPatients();
-      } catch (error) {
-        setErrorMessage('Gagal menghapus data pasien');
+  // Move the patient to the trash; the toast offers an undo instead of asking for confirmation first
+  const handleDelete = async (patient: Patient) => {
+    if (!can('patient:delete')) return;
+    setSuccessMessage('');
+    setErrorMessage('');
+    try {
+      const result = await deletePatient(patient.id);
+      fetchPatients();
+      if (result.queued) {
+        setSuccessMessage(t('offline.queued'));
+        return;
       }
+      showUndo({
+        message: t('home.movedToTrash', { nama: patient.nama }),
+        onUndo: async () => {
+          await restorePatient(patient.id);
+          latestFetchPatients.current();
+        },
+      });
+    } catch (error) {
+      setErrorMessage(getApiErrorMessage(error, t('home.deleteFailed')));
     }
   };
 
-  // Handle input change
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
-    const { name, value } = e.target;
-    setFormData(prev => ({ ...prev, [name]: value }));
-    if (errors[name]) {
-      setErrors(prev => ({ ...prev, [name]: '' }));
+  const filterChips = describeFilters(listState, t);
+
+  const applyFilters = (filters: FilterValues) => updateListState({ ...filters, page: 1 });
+
+  const clearFilters = (keys: readonly (keyof PatientListState)[]) =>
+    updateListState({ ...Object.fromEntries(keys.map(key => [key, defaultListState[key]])), page: 1 });
+
+  // Export every patient matching the current search and sort, not just the visible page
+  const handleExport = async (format: 'csv' | 'fhir' | 'print') => {
+    setErrorMessage('');
+    const printWindow = format === 'print' ? openPrintWindow() : null;
+    if (format === 'print' && !printWindow) {
+      setErrorMessage(t('home.popupBlocked'));
+      return;
+    }
+
+    try {
+      setExporting(true);
+      const allPatients = await fetchAllPatients({ sortBy, sortOrder, ...toFilterParams(listState) }, q);
+      if (printWindow) {
+        const description = [q ? t('home.printSearch', { q }) : t('home.printAll'), ...filterChips.map(chip => chip.label)].join(' · ');
+        printReport(printWindow, buildPrintableReport(allPatients, description));
+      } else {
+        const date = new Date().toISOString().split('T')[0];
+        if (format === 'fhir') {
+          // Region names are included when their data loads; the codes are exported either way
+          await loadRegionData(allPatients.map(patient => patient.provinsi_kode)).catch(() => undefined);
+          downloadFile(JSON.stringify(toFhirBundle(allPatients), null, 2), `${t('home.exportFileName')}-${date}.fhir.json`, FHIR_MIME_TYPE);
+        } else {
+          downloadCsv(patientsToCsv(allPatients), `${t('home.exportFileName')}-${date}.csv`);
+        }
+      }
+    } catch (error) {
+      printWindow?.close();
+      setErrorMessage(getApiErrorMessage(error, t('home.exportFailed')));
+    } finally {
+      setExporting(false);
     }
   };
 
-  // Filter patients by search
-  const filteredPatients = patients.filter(patient =>
-    patient.nama.toLowerCase().includes(searchKeyword.toLowerCase()) ||
-    patient.nik.includes(searchKeyword)
-  );
+  // Cards need a real id, so rows still waiting to be created or deleted offline are left out
+  const cardPatientsOnPage = patients.filter(patient => patient.pendingSync !== 'create' && patient.pendingSync !== 'delete');
+  const pageSelected = cardPatientsOnPage.length > 0 && cardPatientsOnPage.every(patient => selectedIds.has(patient.id));
+
+  const toggleSelected = (id: number) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
 
-  // Format date for display
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    return date.toLocaleDateString('id-ID', {
-      day: 'numeric',
-      month: 'long',
-      year: 'numeric'
+  const togglePageSelected = (checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      cardPatientsOnPage.forEach(patient => (checked ? next.add(patient.id) : next.delete(patient.id)));
+      return next;
     });
   };
 
+  const handlePrintCards = (ids: number[]) => {
+    setErrorMessage('');
+    printCards(ids);
+  };
+
   return (
     <>
       <Head>
-        <title>Sistem Manajemen Pasien</title>
-        <meta name="description" content="CRUD Pasien dengan NestJS dan NextJS" />
+        <title>{t('app.title')}</title>
+        <meta name="description" content={t('app.metaDescription')} />
         <link rel="icon" href="/favicon.ico" />
       </Head>
 
@@ -183,9 +389,9 @@ export default function Home() {
           {/* Header */}
           <div className="bg-white rounded-lg shadow-md p-6 mb-6">
             <h1 className="text-3xl font-bold text-gray-800 mb-2">
-              🏥 Sistem Manajemen Pasien
+              🏥 {t('app.title')}
             </h1>
-            <p className="text-gray-600">Kelola data pasien dengan mudah</p>
+            <p className="text-gray-600">{t('app.tagline')}</p>
           </div>
 
           {/* Success/Error Messages */}
@@ -202,254 +408,297 @@ export default function Home() {
 
           {/* Action Bar */}
           <div className="bg-white rounded-lg shadow-md p-4 mb-6 flex flex-col md:flex-row gap-4 justify-between items-center">
-            <button
-              onClick={() => {
-                setShowForm(!showForm);
-                setFormData(initialFormData);
-                setEditingId(null);
-                setErrors({});
-              }}
-              className="btn-primary w-full md:w-auto"
-            >
-              {showForm ? '✕ Tutup Form' : '+ Tambah Pasien Baru'}
-            </button>
+            <div className="flex flex-col md:flex-row gap-2 w-full md:w-auto">
+              {can('patient:create') && (
+                <>
+                  <button
+                    onClick={() => {
+                      setShowForm(!showForm);
+                      setEditingPatient(null);
+                    }}
+                    className="btn-primary w-full md:w-auto"
+                  >
+                    {showForm ? t('home.closeForm') : t('home.addPatient')}
+                  </button>
+                  <Link href="/import" className="btn-secondary w-full md:w-auto text-center">
+                    {t('home.import')}
+                  </Link>
+                </>
+              )}
+              <Link href="/queue" className="btn-secondary w-full md:w-auto text-center">
+                {t('home.queue')}
+              </Link>
+              <Link href="/dashboard" className="btn-secondary w-full md:w-auto text-center">
+                {t('home.dashboard')}
+              </Link>
+              <Link href="/scan" className="btn-secondary w-full md:w-auto text-center">
+                {t('home.scan')}
+              </Link>
+              {can('patient:edit') && (
+                <Link href="/normalize-phones" className="btn-secondary w-full md:w-auto text-center">
+                  {t('home.normalizePhones')}
+                </Link>
+              )}
+              {can('patient:delete') && (
+                <Link href="/trash" className="btn-secondary w-full md:w-auto text-center">
+                  {t('home.trash')}
+                </Link>
+              )}
+            </div>
             
-            <div className="w-full md:w-96">
+            <div className="w-full md:w-auto flex gap-2">
+              <button
+                onClick={() => setShowFilters(!showFilters)}
+                className="btn-secondary whitespace-nowrap"
+                aria-expanded={showFilters}
+              >
+                {t('home.filter')}{filterChips.length > 0 && ` (${filterChips.length})`}
+              </button>
               <input
                 type="text"
-                placeholder="Cari berdasarkan nama atau NIK..."
+                placeholder={t('home.searchPlaceholder')}
                 value={searchKeyword}
                 onChange={(e) => setSearchKeyword(e.target.value)}
-                className="input-field"
+                className="input-field md:w-96"
               />
             </div>
           </div>
 
+          {showFilters && <PatientFilterPanel filters={pickFilters(listState)} onApply={applyFilters} />}
+
+          {/* Active filters, e.g. from a dashboard drill-down */}
+          {filterChips.length > 0 && (
+            <div className="bg-white rounded-lg shadow-md p-4 mb-6 flex flex-wrap gap-2 items-center">
+              <span className="text-sm text-gray-600">{t('home.filterLabel')}</span>
+              {filterChips.map(chip => (
+                <span
+                  key={chip.label}
+                  className="inline-flex items-center gap-1 px-3 py-1 rounded-full bg-blue-100 text-blue-800 text-sm"
+                >
+                  {chip.label}
+                  <button
+                    onClick={() => clearFilters(chip.keys)}
+                    className="text-blue-600 hover:text-blue-900 font-bold"
+                    aria-label={t('home.removeFilter', { label: chip.label })}
+                  >
+                    ×
+                  </button>
+                </span>
+              ))}
+              <button onClick={() => clearFilters(FILTER_KEYS)} className="text-sm text-blue-600 hover:text-blue-800 font-medium">
+                {t('home.resetFilters')}
+              </button>
+            </div>
+          )}
+
           {/* Form */}
           {showForm && (
             <div className="bg-white rounded-lg shadow-md p-6 mb-6">
               <h2 className="text-xl font-semibold mb-4">
-                {editingId ? '✏️ Edit Data Pasien' : '📝 Form Tambah Pasien'}
+                {editingPatient ? t('home.editTitle') : t('home.addTitle')}
               </h2>
               
-              <form onSubmit={handleSubmit}>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  {/* Nama */}
-                  <div>
-                    <label className="block text-gray-700 font-medium mb-2">
-                      Nama Lengkap <span className="text-red-500">*</span>
-                    </label>
-                    <input
-                      type="text"
-                      name="nama"
-                      value={formData.nama}
-                      onChange={handleInputChange}
-                      className={`input-field ${errors.nama ? 'input-error' : ''}`}
-                      placeholder="Masukkan nama lengkap"
-                    />
-                    {errors.nama && <p className="error-message">{errors.nama}</p>}
-                  </div>
-
-                  {/* NIK */}
-                  <div>
-                    <label className="block text-gray-700 font-medium mb-2">
-                      NIK <span className="text-red-500">*</span>
-                    </label>
-                    <input
-                      type="text"
-                      name="nik"
-                      value={formData.nik}
-                      onChange={handleInputChange}
-                      className={`input-field ${errors.nik ? 'input-error' : ''}`}
-                      placeholder="Masukkan NIK (16 digit)"
-                      maxLength={16}
-                    />
-                    {errors.nik && <p className="error-message">{errors.nik}</p>}
-                  </div>
-
-                  {/* Tanggal Lahir */}
-                  <div>
-                    <label className="block text-gray-700 font-medium mb-2">
-                      Tanggal Lahir <span className="text-red-500">*</span>
-                    </label>
-                    <input
-                      type="date"
-                      name="tanggal_lahir"
-                      value={formData.tanggal_lahir}
-                      onChange={handleInputChange}
-                      className={`input-field ${errors.tanggal_lahir ? 'input-error' : ''}`}
-                    />
-                    {errors.tanggal_lahir && <p className="error-message">{errors.tanggal_lahir}</p>}
-                  </div>
-
-                  {/* Jenis Kelamin */}
-                  <div>
-                    <label className="block text-gray-700 font-medium mb-2">
-                      Jenis Kelamin <span className="text-red-500">*</span>
-                    </label>
-                    <select
-                      name="jenis_kelamin"
-                      value={formData.jenis_kelamin}
-                      onChange={handleInputChange}
-                      className={`input-field ${errors.jenis_kelamin ? 'input-error' : ''}`}
-                    >
-                      <option value="">Pilih Jenis Kelamin</option>
-                      <option value="Laki-laki">Laki-laki</option>
-                      <option value="Perempuan">Perempuan</option>
-                    </select>
-                    {errors.jenis_kelamin && <p className="error-message">{errors.jenis_kelamin}</p>}
-                  </div>
-
-                  {/* No Telepon */}
-                  <div>
-                    <label className="block text-gray-700 font-medium mb-2">
-                      No. Telepon <span className="text-red-500">*</span>
-                    </label>
-                    <input
-                      type="text"
-                      name="no_telepon"
-                      value={formData.no_telepon}
-                      onChange={handleInputChange}
-                      className={`input-field ${errors.no_telepon ? 'input-error' : ''}`}
-                      placeholder="Contoh: 081234567890"
-                    />
-                    {errors.no_telepon && <p className="error-message">{errors.no_telepon}</p>}
-                  </div>
-
-                  {/* Golongan Darah */}
-                  <div>
-                    <label className="block text-gray-700 font-medium mb-2">
-                      Golongan Darah <span className="text-red-500">*</span>
-                    </label>
-                    <select
-                      name="golongan_darah"
-                      value={formData.golongan_darah}
-                      onChange={handleInputChange}
-                      className={`input-field ${errors.golongan_darah ? 'input-error' : ''}`}
-                    >
-                      <option value="">Pilih Golongan Darah</option>
-                      <option value="A">A</option>
-                      <option value="B">B</option>
-                      <option value="AB">AB</option>
-                      <option value="O">O</option>
-                    </select>
-                    {errors.golongan_darah && <p className="error-message">{errors.golongan_darah}</p>}
-                  </div>
-
-                  {/* Email */}
-                  <div>
-                    <label className="block text-gray-700 font-medium mb-2">
-                      Email
-                    </label>
-                    <input
-                      type="email"
-                      name="email"
-                      value={formData.email}
-                      onChange={handleInputChange}
-                      className={`input-field ${errors.email ? 'input-error' : ''}`}
-                      placeholder="Contoh: email@example.com"
-                    />
-                    {errors.email && <p className="error-message">{errors.email}</p>}
-                  </div>
-
-                  {/* Alamat */}
-                  <div className="md:col-span-2">
-                    <label className="block text-gray-700 font-medium mb-2">
-                      Alamat <span className="text-red-500">*</span>
-                    </label>
-                    <textarea
-                      name="alamat"
-                      value={formData.alamat}
-                      onChange={handleInputChange}
-                      className={`input-field ${errors.alamat ? 'input-error' : ''}`}
-                      placeholder="Masukkan alamat lengkap"
-                      rows={3}
-                    />
-                    {errors.alamat && <p className="error-message">{errors.alamat}</p>}
-                  </div>
-                </div>
-
-                <div className="flex gap-4 mt-6">
-                  <button type="submit" className="btn-primary">
-                    {editingId ? '💾 Update Data' : '💾 Simpan Data'}
-                  </button>
-                  <button
-                    type="button"
-                    onClick={() => {
-                      setShowForm(false);
-                      setFormData(initialFormData);
-                      setEditingId(null);
-                      setErrors({});
-                    }}
-                    className="btn-secondary"
-                  >
-                    Batal
-                  </button>
-                </div>
-              </form>
+              <PatientForm
+                key={editingPatient?.id ?? 'new'}
+                initialData={editingPatient ? patientToFormData(editingPatient) : undefined}
+                isEditing={editingPatient !== null}
+                onSubmit={handleSubmit}
+                onCancel={closeForm}
+              />
             </div>
           )}
 
+          {conflict && (
+            <ConflictDialog
+              key={conflict.latest.updated_at}
+              conflicts={conflict.conflicts}
+              mine={conflict.mine}
+              latest={conflict.latest}
+              saving={resolvingConflict}
+              onResolve={handleResolveConflict}
+              onKeepTheirs={handleKeepTheirs}
+              onCancel={clearConflict}
+            />
+          )}
+
+          {duplicateCheck && (
+            <DuplicateWarningDialog
+              data={duplicateCheck.data}
+              matches={duplicateCheck.matches}
+              saving={creatingAnyway}
+              onCreateAnyway={handleCreateAnyway}
+              onCancel={() => setDuplicateCheck(null)}
+            />
+          )}
+
           {/* Patient List */}
           <div className="bg-white rounded-lg shadow-md overflow-hidden">
-            <div className="p-4 bg-gray-50 border-b">
+            <div className="p-4 bg-gray-50 border-b flex flex-col md:flex-row gap-2 justify-between md:items-center">
               <h2 className="text-xl font-semibold">
-                📋 Daftar Pasien ({filteredPatients.length})
+                {t('home.listTitle', { total: formatNumber(total) })}
               </h2>
+              <div className="flex flex-wrap gap-2">
+                {selectedIds.size > 0 && (
+                  <button onClick={() => setSelectedIds(new Set())} className="text-sm text-blue-600 hover:text-blue-800 font-medium">
+                    {t('home.clearSelection')}
+                  </button>
+                )}
+                <button
+                  onClick={() => handlePrintCards(Array.from(selectedIds))}
+                  disabled={printingCards || selectedIds.size === 0}
+                  className="btn-secondary text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {t('home.printCards', { count: selectedIds.size })}
+                </button>
+                <button
+                  onClick={() => handleExport('csv')}
+                  disabled={exporting || total === 0}
+                  className="btn-secondary text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {t('home.exportCsv')}
+                </button>
+                <button
+                  onClick={() => handleExport('fhir')}
+                  disabled={exporting || total === 0}
+                  className="btn-secondary text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {t('home.exportFhir')}
+                </button>
+                <button
+                  onClick={() => handleExport('print')}
+                  disabled={exporting || total === 0}
+                  className="btn-secondary text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {t('home.print')}
+                </button>
+              </div>
             </div>
 
+            {cachedAt && !loading && (
+              <div className="px-4 py-2 bg-yellow-50 border-b text-sm text-yellow-800">
+                {t('home.cachedNotice', { time: formatDateTime(cachedAt) })}
+              </div>
+            )}
+
             {loading ? (
               <div className="p-8 text-center text-gray-500">
                 <div className="animate-spin inline-block w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full mb-2"></div>
-                <p>Memuat data...</p>
+                <p>{t('common.loading')}</p>
               </div>
-            ) : filteredPatients.length === 0 ? (
+            ) : patients.length === 0 ? (
               <div className="p-8 text-center text-gray-500">
-                <p className="text-lg">Tidak ada data pasien</p>
-                <p className="text-sm">Klik "Tambah Pasien Baru" untuk menambahkan data</p>
+                {q || filterChips.length > 0 ? (
+                  <p className="text-lg">
+                    {!q
+                      ? t('home.noMatchFilters')
+                      : filterChips.length > 0
+                        ? t('home.noMatchSearchAndFilters', { q })
+                        : t('home.noMatchSearch', { q })}
+                  </p>
+                ) : (
+                  <>
+                    <p className="text-lg">{t('home.empty')}</p>
+                    <p className="text-sm">{t('home.emptyHint')}</p>
+                  </>
+                )}
               </div>
             ) : (
               <div className="overflow-x-auto">
                 <table className="w-full">
                   <thead className="bg-gray-100">
                     <tr>
-                      <th className="px-4 py-3 text-left text-sm font-semibold text-gray-600">No</th>
-                      <th className="px-4 py-3 text-left text-sm font-semibold text-gray-600">Nama</th>
-                      <th className="px-4 py-3 text-left text-sm font-semibold text-gray-600">NIK</th>
-                      <th className="px-4 py-3 text-left text-sm font-semibold text-gray-600">Tgl Lahir</th>
-                      <th className="px-4 py-3 text-left text-sm font-semibold text-gray-600">Jenis Kelamin</th>
-                      <th className="px-4 py-3 text-left text-sm font-semibold text-gray-600">No. Telp</th>
-                      <th className="px-4 py-3 text-left text-sm font-semibold text-gray-600">Gol. Darah</th>
-                      <th className="px-4 py-3 text-center text-sm font-semibold text-gray-600">Aksi</th>
+                      <th className="px-4 py-3 text-left">
+                        <input
+                          type="checkbox"
+                          checked={pageSelected}
+                          onChange={(e) => togglePageSelected(e.target.checked)}
+                          disabled={cardPatientsOnPage.length === 0}
+                          aria-label={t('home.selectPage')}
+                        />
+                      </th>
+                      <th className="px-4 py-3 text-left text-sm font-semibold text-gray-600">{t('home.col.no')}</th>
+                      <SortableHeader label={t('home.col.nama')} field="nama" sortBy={sortBy} sortOrder={sortOrder} onSort={handleSort} />
+                      <th className="px-4 py-3 text-left text-sm font-semibold text-gray-600">{t('home.col.nik')}</th>
+                      <SortableHeader label={t('home.col.tanggalLahir')} field="tanggal_lahir" sortBy={sortBy} sortOrder={sortOrder} onSort={handleSort} />
+                      <th className="px-4 py-3 text-left text-sm font-semibold text-gray-600">{t('home.col.jenisKelamin')}</th>
+                      <th className="px-4 py-3 text-left text-sm font-semibold text-gray-600">{t('home.col.noTelepon')}</th>
+                      <th className="px-4 py-3 text-left text-sm font-semibold text-gray-600">{t('home.col.golonganDarah')}</th>
+                      <SortableHeader label={t('home.col.createdAt')} field="created_at" sortBy={sortBy} sortOrder={sortOrder} onSort={handleSort} />
+                      <th className="px-4 py-3 text-center text-sm font-semibold text-gray-600">{t('home.col.actions')}</th>
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-gray-200">
-                    {filteredPatients.map((patient, index) => (
-                      <tr key={patient.id} className="hover:bg-gray-50">
-                        <td className="px-4 py-3 text-sm text-gray-700">{index + 1}</td>
-                        <td className="px-4 py-3 text-sm font-medium text-gray-900">{patient.nama}</td>
-                        <td className="px-4 py-3 text-sm text-gray-700">{patient.nik}</td>
+                    {patients.map((patient, index) => (
+                      <tr key={patient.id} className={patient.pendingSync === 'delete' ? 'bg-gray-50 text-gray-400 line-through' : 'hover:bg-gray-50'}>
+                        <td className="px-4 py-3">
+                          {patient.pendingSync !== 'create' && patient.pendingSync !== 'delete' && (
+                            <input
+                              type="checkbox"
+                              checked={selectedIds.has(patient.id)}
+                              onChange={() => toggleSelected(patient.id)}
+                              aria-label={t('home.selectPatient', { name: patient.nama })}
+                            />
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-700">{(page - 1) * limit + index + 1}</td>
+                        <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                          <Link href={`/patients/${patient.id}`} className="hover:text-blue-600 hover:underline">
+                            <Highlight text={patient.nama} keyword={q} />
+                          </Link>
+                          {patient.pendingSync && (
+                            <span className="ml-2 px-2 py-0.5 bg-blue-100 text-blue-800 rounded-full text-xs font-medium no-underline">
+                              ⏳ {t('common.pendingSync')}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-700">
+                          <Highlight text={patient.nik} keyword={q} />
+                        </td>
                         <td className="px-4 py-3 text-sm text-gray-700">{formatDate(patient.tanggal_lahir)}</td>
-                        <td className="px-4 py-3 text-sm text-gray-700">{patient.jenis_kelamin}</td>
-                        <td className="px-4 py-3 text-sm text-gray-700">{patient.no_telepon}</td>
+                        <td className="px-4 py-3 text-sm text-gray-700">{genderLabel(patient.jenis_kelamin, t)}</td>
+                        <td className="px-4 py-3 text-sm text-gray-700">{formatPhone(patient.no_telepon)}</td>
                         <td className="px-4 py-3 text-sm text-gray-700">
                           <span className="px-2 py-1 bg-red-100 text-red-800 rounded-full text-xs font-medium">
                             {patient.golongan_darah}
                           </span>
                         </td>
-                        <td className="px-4 py-3 text-center">
-                          <button
-                            onClick={() => handleEdit(patient)}
-                            className="text-blue-600 hover:text-blue-800 font-medium text-sm mr-3"
-                          >
-                            ✏️ Edit
-                          </button>
-                          <button
-                            onClick={() => handleDelete(patient.id, patient.nama)}
-                            className="text-red-600 hover:text-red-800 font-medium text-sm"
-                          >
-                            🗑️ Hapus
-                          </button>
+                        <td className="px-4 py-3 text-sm text-gray-700">{formatDate(patient.created_at)}</td>
+                        <td className="px-4 py-3 text-center whitespace-nowrap">
+                          {patient.pendingSync === 'create' || patient.pendingSync === 'delete' ? (
+                            <span className="text-xs text-gray-500">{t('home.availableAfterSync')}</span>
+                          ) : (
+                            <>
+                              <Link
+                                href={`/patients/${patient.id}`}
+                                className="text-gray-600 hover:text-gray-800 font-medium text-sm mr-3"
+                              >
+                                {t('home.detail')}
+                              </Link>
+                              <button
+                                onClick={() => handlePrintCards([patient.id])}
+                                disabled={printingCards}
+                                className="text-gray-600 hover:text-gray-800 font-medium text-sm mr-3 disabled:opacity-50"
+                              >
+                                {t('home.printCard')}
+                              </button>
+                              {can('patient:edit') && (
+                                <button
+                                  onClick={() => handleEdit(patient)}
+                                  className="text-blue-600 hover:text-blue-800 font-medium text-sm mr-3"
+                                >
+                                  {t('home.edit')}
+                                </button>
+                              )}
+                              {can('patient:delete') && (
+                                <button
+                                  onClick={() => handleDelete(patient)}
+                                  className="text-red-600 hover:text-red-800 font-medium text-sm"
+                                >
+                                  {t('home.delete')}
+                                </button>
+                              )}
+                            </>
+                          )}
                         </td>
                       </tr>
                     ))}
@@ -457,11 +706,22 @@ export default function Home() {
                 </table>
               </div>
             )}
+
+            {!loading && total > 0 && (
+              <Pagination
+                page={page}
+                limit={limit}
+                total={total}
+                totalPages={totalPages}
+                onPageChange={(newPage) => updateListState({ page: newPage })}
+                onLimitChange={(newLimit) => updateListState({ limit: newLimit, page: 1 })}
+              />
+            )}
           </div>
 
           {/* Footer */}
           <div className="text-center mt-6 text-gray-500 text-sm">
-            <p>Patient Management System © 2025</p>
+            <p>{t('app.footer')}</p>
           </div>
         </div>
       </main>
@@ -0,0 +1,109 @@
+import { useState, useEffect } from 'react';
+import Head from 'next/head';
+import { useRouter } from 'next/router';
+import { useAuth } from '../components/AuthProvider';
+import { USE_STUB_AUTH } from '../lib/auth';
+import { useI18n } from '../components/LocaleProvider';
+import { PageAuth } from '../types/auth';
+
+// Only allow redirects back into this app
+const getNextPath = (next: string | string[] | undefined) => {
+  const path = Array.isArray(next) ? next[0] : next;
+  return path && path.startsWith('/') && !path.startsWith('//') ? path : '/';
+};
+
+export default function Login() {
+  const router = useRouter();
+  const { user, login } = useAuth();
+  const { t } = useI18n();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  useEffect(() => {
+    if (user && router.isReady) {
+      router.replace(getNextPath(router.query.next));
+    }
+  }, [user, router]);
+
+  // Handle form submit
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrorMessage('');
+
+    if (!username.trim() || !password) {
+      setErrorMessage(t('login.required'));
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      await login(username.trim(), password);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : t('login.failed'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <Head>
+        <title>{t('login.title')} - {t('app.title')}</title>
+      </Head>
+
+      <main className="min-h-screen bg-gray-100 py-16">
+        <div className="max-w-md mx-auto px-4">
+          <div className="bg-white rounded-lg shadow-md p-6">
+            <h1 className="text-2xl font-bold text-gray-800 mb-2">🏥 {t('app.title')}</h1>
+            <p className="text-gray-600 mb-6">{t('login.subtitle')}</p>
+
+            {errorMessage && (
+              <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg mb-4">
+                ❌ {errorMessage}
+              </div>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label className="block text-gray-700 font-medium mb-2">{t('login.username')}</label>
+                <input
+                  type="text"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  className="input-field"
+                  autoComplete="username"
+                  autoFocus
+                />
+              </div>
+              <div>
+                <label className="block text-gray-700 font-medium mb-2">{t('login.password')}</label>
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="input-field"
+                  autoComplete="current-password"
+                />
+              </div>
+              <button type="submit" className="btn-primary w-full" disabled={submitting}>
+                {submitting ? t('login.submitting') : t('login.submit')}
+              </button>
+            </form>
+
+            {USE_STUB_AUTH && (
+              <div className="mt-6 text-sm text-gray-500 border-t pt-4">
+                <p className="font-medium mb-1">{t('login.stubMode')}</p>
+                <p>{t('role.admin')}: <code>admin</code> / <code>admin123</code></p>
+                <p>{t('role.front-desk')}: <code>resepsionis</code> / <code>resepsionis123</code></p>
+              </div>
+            )}
+          </div>
+        </div>
+      </main>
+    </>
+  );
+}
+
+Login.auth = { public: true } satisfies PageAuth;
@@ -0,0 +1,285 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { Patient } from '../types/patient';
+import { updatePatient, getApiErrorMessage } from '../lib/api';
+import { fetchAllPatients } from '../lib/patientExport';
+import { parsePhone, formatPhone } from '../lib/phone';
+import { runWithConcurrency } from '../lib/concurrency';
+import { translate } from '../lib/i18n';
+import { useI18n } from '../components/LocaleProvider';
+import { PageAuth } from '../types/auth';
+
+const UPDATE_CONCURRENCY = 4;
+
+interface PhoneChange {
+  patient: Patient;
+  e164: string;
+}
+
+type RowStatus = { state: 'done' } | { state: 'failed'; reason: string };
+
+// Parsed at render time so the message follows the selected language
+const phoneError = (value: string) => {
+  const parsed = parsePhone(value);
+  return parsed.valid ? '' : parsed.error;
+};
+
+// One-off clean-up of phone numbers saved before they were normalized to E.164
+export default function NormalizePhones() {
+  const { t } = useI18n();
+  const [patients, setPatients] = useState<Patient[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [errorMessage, setErrorMessage] = useState('');
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [statuses, setStatuses] = useState<Record<number, RowStatus>>({});
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [result, setResult] = useState<{ updated: number; failed: number } | null>(null);
+
+  const fetchPatients = useCallback(async () => {
+    try {
+      setLoading(true);
+      setErrorMessage('');
+      setPatients(await fetchAllPatients({ sortBy: 'nama', sortOrder: 'asc' }));
+    } catch (error) {
+      // translate() instead of t so that switching the language does not refetch
+      setErrorMessage(getApiErrorMessage(error, translate('phoneTool.fetchFailed')));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPatients();
+  }, [fetchPatients]);
+
+  // Numbers that parse but are not stored as E.164 yet, and numbers that need a manual fix
+  const { changes, invalid } = useMemo(() => {
+    const changes: PhoneChange[] = [];
+    const invalid: Patient[] = [];
+    patients.forEach(patient => {
+      const parsed = parsePhone(patient.no_telepon);
+      if (!parsed.valid) {
+        invalid.push(patient);
+      } else if (parsed.data.e164 !== patient.no_telepon) {
+        changes.push({ patient, e164: parsed.data.e164 });
+      }
+    });
+    return { changes, invalid };
+  }, [patients]);
+
+  // Preselect every pending change whenever the data is (re)loaded
+  useEffect(() => {
+    setSelected(new Set(changes.map(change => change.patient.id)));
+    setStatuses({});
+    setResult(null);
+  }, [changes]);
+
+  const pending = changes.filter(change => selected.has(change.patient.id) && statuses[change.patient.id]?.state !== 'done');
+  const applying = progress !== null;
+
+  const toggle = (id: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = (checked: boolean) => {
+    setSelected(checked ? new Set(changes.map(change => change.patient.id)) : new Set());
+  };
+
+  // Save only the phone field; If-Match keeps edits made since loading this page from being overwritten
+  const handleApply = async () => {
+    if (pending.length === 0 || !window.confirm(t('phoneTool.confirm', { count: pending.length }))) return;
+    setResult(null);
+    setProgress({ completed: 0, total: pending.length });
+
+    const outcomes = await runWithConcurrency(
+      pending,
+      UPDATE_CONCURRENCY,
+      ({ patient, e164 }) => updatePatient(patient.id, { no_telepon: e164 }, patient.updated_at),
+      (completed, total) => setProgress({ completed, total })
+    );
+
+    const nextStatuses: Record<number, RowStatus> = {};
+    outcomes.forEach((outcome, index) => {
+      nextStatuses[pending[index].patient.id] = outcome.status === 'fulfilled'
+        ? { state: 'done' }
+        : { state: 'failed', reason: getApiErrorMessage(outcome.reason, t('home.saveFailed')) };
+    });
+    const failed = outcomes.filter(outcome => outcome.status === 'rejected').length;
+
+    setStatuses(prev => ({ ...prev, ...nextStatuses }));
+    setResult({ updated: outcomes.length - failed, failed });
+    setProgress(null);
+  };
+
+  return (
+    <>
+      <Head>
+        <title>{t('phoneTool.title')} - {t('app.title')}</title>
+      </Head>
+
+      <main className="min-h-screen bg-gray-100 py-8">
+        <div className="max-w-7xl mx-auto px-4">
+          <Link href="/" className="inline-block text-blue-600 hover:text-blue-800 font-medium mb-4">
+            {t('phoneTool.back')}
+          </Link>
+
+          <div className="bg-white rounded-lg shadow-md p-6 mb-6 flex flex-col md:flex-row gap-4 justify-between md:items-center">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-800 mb-1">{t('phoneTool.title')}</h1>
+              <p className="text-gray-600 text-sm">{t('phoneTool.description')}</p>
+            </div>
+            <button onClick={fetchPatients} disabled={loading || applying} className="btn-secondary disabled:opacity-50">
+              {t('phoneTool.reload')}
+            </button>
+          </div>
+
+          {errorMessage && (
+            <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg mb-4">
+              ❌ {errorMessage}
+            </div>
+          )}
+          {result && (
+            <div
+              className={`${result.failed > 0 ? 'bg-yellow-100 border-yellow-400 text-yellow-800' : 'bg-green-100 border-green-400 text-green-700'} border px-4 py-3 rounded-lg mb-4`}
+            >
+              {t('phoneTool.result', { updated: result.updated })}
+              {result.failed > 0 && ` ${t('phoneTool.resultFailed', { failed: result.failed })}`}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="bg-white rounded-lg shadow-md p-8 text-center text-gray-500">
+              <div className="animate-spin inline-block w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full mb-2"></div>
+              <p>{t('common.loading')}</p>
+            </div>
+          ) : !errorMessage && (
+            <>
+              <p className="text-gray-700 mb-4">
+                {t('phoneTool.summary', { total: patients.length, changes: changes.length, invalid: invalid.length })}
+              </p>
+
+              {changes.length === 0 && invalid.length === 0 && (
+                <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded-lg mb-4">
+                  ✅ {t('phoneTool.nothingToDo')}
+                </div>
+              )}
+
+              {changes.length > 0 && (
+                <div className="bg-white rounded-lg shadow-md overflow-hidden mb-6">
+                  <div className="p-4 bg-gray-50 border-b flex flex-col md:flex-row gap-2 justify-between md:items-center">
+                    <h2 className="text-xl font-semibold">{t('phoneTool.changesTitle', { count: changes.length })}</h2>
+                    <button
+                      onClick={handleApply}
+                      disabled={pending.length === 0 || applying}
+                      className="btn-primary disabled:opacity-50"
+                    >
+                      {progress
+                        ? t('phoneTool.applying', { done: progress.completed, total: progress.total })
+                        : t('phoneTool.apply', { count: pending.length })}
+                    </button>
+                  </div>
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead className="bg-gray-100">
+                        <tr>
+                          <th className="px-4 py-3 text-left">
+                            <input
+                              type="checkbox"
+                              checked={selected.size === changes.length}
+                              onChange={(e) => toggleAll(e.target.checked)}
+                              disabled={applying}
+                              aria-label={t('phoneTool.selectAll')}
+                            />
+                          </th>
+                          <th className="px-4 py-3 text-left text-sm font-semibold text-gray-600">{t('home.col.nama')}</th>
+                          <th className="px-4 py-3 text-left text-sm font-semibold text-gray-600">{t('phoneTool.colCurrent')}</th>
+                          <th className="px-4 py-3 text-left text-sm font-semibold text-gray-600">{t('phoneTool.colNew')}</th>
+                          <th className="px-4 py-3 text-left text-sm font-semibold text-gray-600"></th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200">
+                        {changes.map(({ patient, e164 }) => {
+                          const status = statuses[patient.id];
+                          return (
+                            <tr key={patient.id} className="hover:bg-gray-50">
+                              <td className="px-4 py-3">
+                                <input
+                                  type="checkbox"
+                                  checked={selected.has(patient.id)}
+                                  onChange={() => toggle(patient.id)}
+                                  disabled={applying || status?.state === 'done'}
+                                />
+                              </td>
+                              <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                                <Link href={`/patients/${patient.id}`} className="text-blue-600 hover:text-blue-800">
+                                  {patient.nama}
+                                </Link>
+                              </td>
+                              <td className="px-4 py-3 text-sm text-gray-700 font-mono">{patient.no_telepon}</td>
+                              <td className="px-4 py-3 text-sm text-gray-700">
+                                <span className="font-mono">{e164}</span>
+                                <span className="text-gray-500"> ({formatPhone(e164)})</span>
+                              </td>
+                              <td className="px-4 py-3 text-sm">
+                                {status?.state === 'done' && <span className="text-green-700">{t('phoneTool.done')}</span>}
+                                {status?.state === 'failed' && <span className="text-red-600">❌ {status.reason}</span>}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+
+              {invalid.length > 0 && (
+                <div className="bg-white rounded-lg shadow-md overflow-hidden">
+                  <div className="p-4 bg-gray-50 border-b">
+                    <h2 className="text-xl font-semibold">{t('phoneTool.invalidTitle', { count: invalid.length })}</h2>
+                    <p className="text-sm text-gray-500">{t('phoneTool.invalidHint')}</p>
+                  </div>
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead className="bg-gray-100">
+                        <tr>
+                          <th className="px-4 py-3 text-left text-sm font-semibold text-gray-600">{t('home.col.nama')}</th>
+                          <th className="px-4 py-3 text-left text-sm font-semibold text-gray-600">{t('phoneTool.colCurrent')}</th>
+                          <th className="px-4 py-3 text-left text-sm font-semibold text-gray-600">{t('phoneTool.colProblem')}</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200">
+                        {invalid.map(patient => (
+                          <tr key={patient.id} className="hover:bg-gray-50">
+                            <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                              <Link href={`/patients/${patient.id}`} className="text-blue-600 hover:text-blue-800">
+                                {patient.nama}
+                              </Link>
+                            </td>
+                            <td className="px-4 py-3 text-sm text-gray-700 font-mono">{patient.no_telepon || '-'}</td>
+                            <td className="px-4 py-3 text-sm text-red-600">{phoneError(patient.no_telepon)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </main>
+    </>
+  );
+}
+
+NormalizePhones.auth = { permission: 'patient:edit' } satisfies PageAuth;
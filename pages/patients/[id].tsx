@@ -0,0 +1,370 @@
+import { useState, useEffect, useCallback } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { Patient, PatientFormData } from '../../types/patient';
+import {
+  getPatientById,
+  deletePatient,
+  restorePatient,
+  getFormErrorMessage,
+  getApiErrorMessage,
+  ApiRequestError,
+} from '../../lib/api';
+import { patientToFormData } from '../../lib/patientForm';
+import { genderLabel } from '../../lib/patientSchema';
+import { EditConflictError } from '../../lib/editConflict';
+import { formatDate, formatDateTime, calculateAge } from '../../lib/format';
+import { formatPhone } from '../../lib/phone';
+import { downloadFile } from '../../lib/download';
+import { toFhirPatient, FHIR_MIME_TYPE } from '../../lib/fhir';
+import { loadRegionData } from '../../lib/regions';
+import { formatPatientNumber } from '../../lib/patientCard';
+import { findPossibleDuplicates, DuplicateMatch, DUPLICATE_REASON_LABELS } from '../../lib/duplicates';
+import usePatientUpdate from '../../hooks/usePatientUpdate';
+import usePrintCards from '../../hooks/usePrintCards';
+import PatientForm from '../../components/PatientForm';
+import ConflictDialog from '../../components/ConflictDialog';
+import PatientHistory from '../../components/PatientHistory';
+import PatientVisits from '../../components/PatientVisits';
+import { useAuth } from '../../components/AuthProvider';
+import { useUndoToast } from '../../components/UndoToast';
+import { useI18n } from '../../components/LocaleProvider';
+import { MessageKey } from '../../lib/i18n';
+
+type LoadState = 'loading' | 'loaded' | 'not-found' | 'error';
+
+export default function PatientDetail() {
+  const router = useRouter();
+  const { can } = useAuth();
+  const { t } = useI18n();
+  const { showUndo } = useUndoToast();
+  const id = Number(router.query.id);
+  const [patient, setPatient] = useState<Patient | null>(null);
+  const [loadState, setLoadState] = useState<LoadState>('loading');
+  const [isEditing, setIsEditing] = useState(false);
+  const [successMessage, setSuccessMessage] = useState('');
+  const [errorMessage, setErrorMessage] = useState('');
+  const { conflict, save: savePatient, clearConflict } = usePatientUpdate();
+  const [resolvingConflict, setResolvingConflict] = useState(false);
+  const [duplicates, setDuplicates] = useState<DuplicateMatch[] | null>(null);
+  const [checkingDuplicates, setCheckingDuplicates] = useState(false);
+  const { printCards, printing: printingCard } = usePrintCards(setErrorMessage);
+
+  // Fetch the patient, telling a missing record apart from other failures
+  const fetchPatient = useCallback(async () => {
+    if (!Number.isInteger(id) || id <= 0) {
+      setLoadState('not-found');
+      return;
+    }
+
+    try {
+      setLoadState('loading');
+      setDuplicates(null);
+      const data = await getPatientById(id);
+      setPatient(data);
+      setLoadState('loaded');
+    } catch (error) {
+      if (error instanceof ApiRequestError && error.statusCode === 404) {
+        setLoadState('not-found');
+      } else {
+        setLoadState('error');
+      }
+    }
+  }, [id]);
+
+  useEffect(() => {
+    if (router.isReady) {
+      fetchPatient();
+    }
+  }, [router.isReady, fetchPatient]);
+
+  // Handle form submit
+  const handleSubmit = async (formData: PatientFormData) => {
+    setSuccessMessage('');
+    setErrorMessage('');
+
+    if (!patient) return;
+    try {
+      const updated = await savePatient(patient, formData);
+      setPatient(updated);
+      setIsEditing(false);
+      setSuccessMessage(updated.pendingSync ? t('offline.queued') : t('home.updated'));
+    } catch (error) {
+      if (error instanceof EditConflictError) {
+        setErrorMessage(error.message);
+      } else {
+        setErrorMessage(getFormErrorMessage(error, t('home.saveFailed')));
+      }
+      throw error;
+    }
+  };
+
+  // Revert a field or the whole record from the history; a concurrent edit opens the conflict dialog
+  const handleRevert = async (data: PatientFormData) => {
+    if (!patient) return;
+    setSuccessMessage('');
+    setErrorMessage('');
+    try {
+      const updated = await savePatient(patient, data);
+      setPatient(updated);
+      setSuccessMessage(updated.pendingSync ? t('offline.queued') : t('detail.reverted'));
+    } catch (error) {
+      if (error instanceof EditConflictError) {
+        setErrorMessage(error.message);
+      } else {
+        setErrorMessage(getApiErrorMessage(error, t('detail.revertFailed')));
+      }
+      throw error;
+    }
+  };
+
+  // Save the merged values on top of the version that won; another concurrent edit reopens the dialog
+  const handleResolveConflict = async (merged: PatientFormData) => {
+    if (!conflict) return;
+    try {
+      setResolvingConflict(true);
+      const updated = await savePatient(conflict.latest, merged);
+      setPatient(updated);
+      setIsEditing(false);
+      setErrorMessage('');
+      setSuccessMessage(updated.pendingSync ? t('offline.queued') : t('home.updated'));
+    } catch (error) {
+      if (!(error instanceof EditConflictError)) {
+        clearConflict();
+        setErrorMessage(getFormErrorMessage(error, t('home.saveFailed')));
+      }
+    } finally {
+      setResolvingConflict(false);
+    }
+  };
+
+  // Drop my edits and show the other user's version
+  const handleKeepTheirs = () => {
+    if (!conflict) return;
+    setPatient(conflict.latest);
+    clearConflict();
+    setIsEditing(false);
+    setErrorMessage('');
+    setSuccessMessage(t('home.keptTheirs'));
+  };
+
+  // Move the patient to the trash and go back to the list; undo reopens this page
+  const handleDelete = async () => {
+    if (!patient || !can('patient:delete')) return;
+    try {
+      const result = await deletePatient(patient.id);
+      if (!result.queued) {
+        showUndo({
+          message: t('home.movedToTrash', { nama: patient.nama }),
+          onUndo: async () => {
+            await restorePatient(patient.id);
+            router.push(`/patients/${patient.id}`);
+          },
+        });
+      }
+      router.push('/');
+    } catch (error) {
+      setErrorMessage(getApiErrorMessage(error, t('home.deleteFailed')));
+    }
+  };
+
+  // FHIR R4 Patient resource for exchange with SATUSEHAT/FHIR-based systems
+  const handleDownloadFhir = async () => {
+    if (!patient) return;
+    // Region names are included when their data loads; the codes are exported either way
+    await loadRegionData([patient.provinsi_kode]).catch(() => undefined);
+    downloadFile(JSON.stringify(toFhirPatient(patient), null, 2), `${t('detail.fhirFileName')}-${patient.id}.fhir.json`, FHIR_MIME_TYPE);
+  };
+
+  // Look for other records of the same person that could be merged into this one
+  const handleCheckDuplicates = async () => {
+    if (!patient) return;
+    try {
+      setCheckingDuplicates(true);
+      setDuplicates(await findPossibleDuplicates(patient, patient.id));
+    } catch (error) {
+      setErrorMessage(getApiErrorMessage(error, t('detail.duplicatesFailed')));
+    } finally {
+      setCheckingDuplicates(false);
+    }
+  };
+
+  const fields: { label: MessageKey; value: string }[] = patient
+    ? [
+        { label: 'field.nama', value: patient.nama },
+        { label: 'detail.patientNumber', value: formatPatientNumber(patient.id) },
+        { label: 'field.nik', value: patient.nik },
+        { label: 'field.tanggal_lahir', value: formatDate(patient.tanggal_lahir) },
+        { label: 'detail.age', value: t('detail.ageYears', { age: calculateAge(patient.tanggal_lahir) }) },
+        { label: 'field.jenis_kelamin', value: genderLabel(patient.jenis_kelamin, t) },
+        { label: 'field.golongan_darah', value: patient.golongan_darah },
+        { label: 'field.no_telepon', value: formatPhone(patient.no_telepon) },
+        { label: 'field.email', value: patient.email || '-' },
+        { label: 'field.alamat', value: patient.alamat },
+      ]
+    : [];
+
+  return (
+    <>
+      <Head>
+        <title>{`${patient ? patient.nama : t('detail.pageTitle')} - ${t('app.title')}`}</title>
+      </Head>
+
+      <main className="min-h-screen bg-gray-100 py-8">
+        <div className="max-w-4xl mx-auto px-4">
+          <Link href="/" className="inline-block text-blue-600 hover:text-blue-800 font-medium mb-4">
+            ← {t('common.backToList')}
+          </Link>
+
+          {/* Success/Error Messages */}
+          {successMessage && (
+            <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded-lg mb-4">
+              ✅ {successMessage}
+            </div>
+          )}
+          {errorMessage && (
+            <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg mb-4">
+              ❌ {errorMessage}
+            </div>
+          )}
+
+          {loadState === 'loading' && (
+            <div className="bg-white rounded-lg shadow-md p-8 text-center text-gray-500">
+              <div className="animate-spin inline-block w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full mb-2"></div>
+              <p>{t('common.loading')}</p>
+            </div>
+          )}
+
+          {loadState === 'not-found' && (
+            <div className="bg-white rounded-lg shadow-md p-8 text-center text-gray-500">
+              <p className="text-lg font-semibold text-gray-700">{t('detail.notFound')}</p>
+              <p className="text-sm">{t('detail.notFoundHint', { id: String(router.query.id ?? '') })}</p>
+            </div>
+          )}
+
+          {loadState === 'error' && (
+            <div className="bg-white rounded-lg shadow-md p-8 text-center">
+              <p className="text-red-700 mb-4">❌ {t('home.fetchFailed')}</p>
+              <button onClick={fetchPatient} className="btn-primary">
+                {t('common.retry')}
+              </button>
+            </div>
+          )}
+
+          {conflict && (
+            <ConflictDialog
+              key={conflict.latest.updated_at}
+              conflicts={conflict.conflicts}
+              mine={conflict.mine}
+              latest={conflict.latest}
+              saving={resolvingConflict}
+              onResolve={handleResolveConflict}
+              onKeepTheirs={handleKeepTheirs}
+              onCancel={clearConflict}
+            />
+          )}
+
+          {loadState === 'loaded' && patient && (
+            <div className="bg-white rounded-lg shadow-md p-6">
+              <div className="flex flex-col md:flex-row gap-4 justify-between md:items-center mb-6">
+                <h1 className="text-2xl font-bold text-gray-800">
+                  {isEditing ? t('home.editTitle') : `👤 ${patient.nama}`}
+                </h1>
+                {!isEditing && (
+                  <div className="flex gap-2">
+                    {can('patient:edit') && (
+                      <button onClick={() => setIsEditing(true)} className="btn-primary">
+                        {t('home.edit')}
+                      </button>
+                    )}
+                    {patient.pendingSync !== 'create' && (
+                      <button onClick={() => printCards([patient.id])} disabled={printingCard} className="btn-secondary">
+                        {t('detail.printCard')}
+                      </button>
+                    )}
+                    <button onClick={handleDownloadFhir} className="btn-secondary">
+                      ⬇️ FHIR
+                    </button>
+                    {can('patient:merge') && (
+                      <button onClick={handleCheckDuplicates} disabled={checkingDuplicates} className="btn-secondary">
+                        {checkingDuplicates ? t('scan.searching') : t('detail.checkDuplicates')}
+                      </button>
+                    )}
+                    {can('patient:delete') && (
+                      <button onClick={handleDelete} className="btn-danger">
+                        {t('home.delete')}
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {isEditing && can('patient:edit') ? (
+                <PatientForm
+                  initialData={patientToFormData(patient)}
+                  isEditing
+                  onSubmit={handleSubmit}
+                  onCancel={() => setIsEditing(false)}
+                />
+              ) : (
+                <>
+                  <dl className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {fields.map((field) => (
+                      <div key={field.label}>
+                        <dt className="text-sm text-gray-500">{t(field.label)}</dt>
+                        <dd className="text-gray-900 font-medium break-words">{field.value}</dd>
+                      </div>
+                    ))}
+                  </dl>
+
+                  <div className="border-t mt-6 pt-4 text-sm text-gray-500 flex flex-col md:flex-row gap-2 md:gap-6">
+                    <p>{t('detail.createdAt', { time: formatDateTime(patient.created_at) })}</p>
+                    <p>{t('detail.updatedAt', { time: formatDateTime(patient.updated_at) })}</p>
+                  </div>
+
+                  {duplicates && (
+                    <div className="border-t mt-6 pt-4">
+                      <h2 className="text-lg font-semibold text-gray-800 mb-2">{t('detail.duplicatesTitle')}</h2>
+                      {duplicates.length === 0 ? (
+                        <p className="text-sm text-gray-500">{t('detail.noDuplicates')}</p>
+                      ) : (
+                        <ul className="divide-y divide-gray-200">
+                          {duplicates.map(({ patient: match, reasons }) => (
+                            <li key={match.id} className="py-2 flex flex-col md:flex-row gap-2 justify-between md:items-center text-sm">
+                              <div>
+                                <Link href={`/patients/${match.id}`} className="font-medium text-gray-900 hover:text-blue-600 hover:underline">
+                                  {match.nama}
+                                </Link>
+                                <span className="text-gray-600"> — {t('detail.duplicateDetails', { nik: match.nik, date: formatDate(match.tanggal_lahir) })}</span>
+                                <span className="block text-xs text-yellow-800">
+                                  {reasons.map(reason => t(DUPLICATE_REASON_LABELS[reason])).join(', ')}
+                                </span>
+                              </div>
+                              {match.pendingSync !== 'create' && (
+                                <Link
+                                  href={{ pathname: '/patients/merge', query: { ids: `${patient.id},${match.id}` } }}
+                                  className="text-blue-600 hover:text-blue-800 font-medium"
+                                >
+                                  {t('detail.merge')}
+                                </Link>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+
+                  <PatientVisits patientId={patient.id} />
+
+                  <PatientHistory patient={patient} canRevert={can('patient:edit')} onRevert={handleRevert} />
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,242 @@
+import { useState, useEffect, useCallback } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { Patient, PatientFormData } from '../../types/patient';
+import { getPatientById, getApiErrorMessage, ApiRequestError } from '../../lib/api';
+import { patientToFormData } from '../../lib/patientForm';
+import { formatPatientValue, getPatientField } from '../../lib/patientSchema';
+import {
+  initialMergeChoices,
+  buildMergedData,
+  mergePatients,
+  MergeChoices,
+  MergeSource,
+  PartialMergeError,
+  MergeBlockedError,
+} from '../../lib/patientMerge';
+import { formatDateTime } from '../../lib/format';
+import useRegionData from '../../hooks/useRegionData';
+import { useI18n } from '../../components/LocaleProvider';
+import { PageAuth } from '../../types/auth';
+
+type LoadState = 'loading' | 'loaded' | 'not-found' | 'error';
+
+// /patients/merge?ids=12,34 — pick per-field values from two records, keep one and move the other to the trash
+export default function MergePatients() {
+  const router = useRouter();
+  const { t } = useI18n();
+  const [records, setRecords] = useState<[Patient, Patient] | null>(null);
+  const [survivorId, setSurvivorId] = useState<number | null>(null);
+  const [choices, setChoices] = useState<MergeChoices | null>(null);
+  const [loadState, setLoadState] = useState<LoadState>('loading');
+  const [merging, setMerging] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+  // Set when the merge stopped halfway; the records on screen are then out of date
+  const [partialSurvivor, setPartialSurvivor] = useState<Patient | null>(null);
+  // Region fields are shown by name, which needs the region data of both records
+  useRegionData(records ? records.map(record => record.provinsi_kode) : []);
+
+  const ids = String(router.query.ids ?? '').split(',').map(Number);
+
+  const survivor = records?.find(p => p.id === survivorId) ?? null;
+  const duplicate = records?.find(p => p.id !== survivorId) ?? null;
+
+  const fetchRecords = useCallback(async (first: number, second: number) => {
+    if (![first, second].every(id => Number.isInteger(id) && id > 0) || first === second) {
+      setLoadState('not-found');
+      return;
+    }
+
+    try {
+      setLoadState('loading');
+      const [a, b] = await Promise.all([getPatientById(first), getPatientById(second)]);
+      // Keep the older registration by default
+      const older = a.created_at <= b.created_at ? a : b;
+      setRecords([a, b]);
+      setSurvivorId(older.id);
+      setChoices(initialMergeChoices(older, older === a ? b : a));
+      setLoadState('loaded');
+    } catch (error) {
+      if (error instanceof ApiRequestError && error.statusCode === 404) {
+        setLoadState('not-found');
+      } else {
+        setLoadState('error');
+      }
+    }
+  }, []);
+
+  const [firstId, secondId] = ids;
+  useEffect(() => {
+    if (router.isReady) {
+      fetchRecords(firstId, secondId);
+    }
+  }, [router.isReady, firstId, secondId, fetchRecords]);
+
+  const handleSurvivorChange = (id: number) => {
+    if (!records) return;
+    const kept = records.find(p => p.id === id)!;
+    const other = records.find(p => p.id !== id)!;
+    setSurvivorId(id);
+    setChoices(initialMergeChoices(kept, other));
+  };
+
+  const handleMerge = async () => {
+    if (!survivor || !duplicate || !choices) return;
+    if (!navigator.onLine) {
+      setErrorMessage(t('merge.needsOnline'));
+      return;
+    }
+    if (!window.confirm(t('merge.confirm', { nama: duplicate.nama, id: duplicate.id, survivorId: survivor.id }))) {
+      return;
+    }
+
+    try {
+      setMerging(true);
+      setErrorMessage('');
+      const saved = await mergePatients(survivor, duplicate, buildMergedData(survivor, duplicate, choices));
+      router.push(`/patients/${saved.id}`);
+    } catch (error) {
+      if (error instanceof PartialMergeError) {
+        setPartialSurvivor(error.survivor);
+        setErrorMessage(error.message);
+        return;
+      }
+      setErrorMessage(error instanceof MergeBlockedError ? error.message : getApiErrorMessage(error, t('merge.failed')));
+      setMerging(false);
+    }
+  };
+
+  const kept = survivor ? patientToFormData(survivor) : null;
+  const other = duplicate ? patientToFormData(duplicate) : null;
+
+  return (
+    <>
+      <Head>
+        <title>{t('merge.pageTitle')} - {t('app.title')}</title>
+      </Head>
+
+      <main className="min-h-screen bg-gray-100 py-8">
+        <div className="max-w-5xl mx-auto px-4">
+          <Link href="/" className="inline-block text-blue-600 hover:text-blue-800 font-medium mb-4">
+            ← {t('common.backToList')}
+          </Link>
+
+          {errorMessage && (
+            <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg mb-4">
+              ❌ {errorMessage}
+              {partialSurvivor && (
+                <Link href={`/patients/${partialSurvivor.id}`} className="block mt-2 font-medium underline">
+                  {t('merge.openSurvivor')}
+                </Link>
+              )}
+            </div>
+          )}
+
+          {loadState === 'loading' && (
+            <div className="bg-white rounded-lg shadow-md p-8 text-center text-gray-500">
+              <div className="animate-spin inline-block w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full mb-2"></div>
+              <p>{t('common.loading')}</p>
+            </div>
+          )}
+
+          {loadState === 'not-found' && (
+            <div className="bg-white rounded-lg shadow-md p-8 text-center text-gray-500">
+              <p className="text-lg font-semibold text-gray-700">{t('detail.notFound')}</p>
+              <p className="text-sm">{t('merge.notFoundHint')}</p>
+            </div>
+          )}
+
+          {loadState === 'error' && (
+            <div className="bg-white rounded-lg shadow-md p-8 text-center">
+              <p className="text-red-700 mb-4">❌ {t('home.fetchFailed')}</p>
+              <button onClick={() => fetchRecords(firstId, secondId)} className="btn-primary">
+                {t('common.retry')}
+              </button>
+            </div>
+          )}
+
+          {loadState === 'loaded' && records && survivor && duplicate && choices && kept && other && (
+            <div className="bg-white rounded-lg shadow-md p-6">
+              <h1 className="text-2xl font-bold text-gray-800 mb-2">{t('merge.title')}</h1>
+              <p className="text-gray-600 text-sm mb-6">
+                {t('merge.description')}
+              </p>
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-100">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-semibold text-gray-600">{t('conflict.field')}</th>
+                      {records.map(patient => (
+                        <th key={patient.id} className="px-3 py-2 text-left font-semibold text-gray-600">
+                          <label className="flex items-center gap-2 cursor-pointer">
+                            <input
+                              type="radio"
+                              name="survivor"
+                              checked={patient.id === survivorId}
+                              onChange={() => handleSurvivorChange(patient.id)}
+                            />
+                            <span>
+                              {t(patient.id === survivorId ? 'merge.kept' : 'merge.toTrash', { id: patient.id })}
+                              <span className="block text-xs font-normal text-gray-500">
+                                {t('merge.registeredAt', { time: formatDateTime(patient.created_at) })}
+                              </span>
+                            </span>
+                          </label>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {(Object.keys(kept) as (keyof PatientFormData)[]).map((field) => {
+                      const same = kept[field] === other[field];
+                      return (
+                        <tr key={field} className={same ? 'text-gray-500' : ''}>
+                          <td className="px-3 py-2 font-medium text-gray-700">{t(getPatientField(field).label)}</td>
+                          {records.map((patient) => {
+                            const source: MergeSource = patient.id === survivorId ? 'survivor' : 'duplicate';
+                            const value = source === 'survivor' ? kept[field] : other[field];
+                            return (
+                              <td key={patient.id} className="px-3 py-2">
+                                {same ? (
+                                  <span className="break-words">{formatPatientValue(field, value, t) || '-'}</span>
+                                ) : (
+                                  <label className="flex items-start gap-2 cursor-pointer">
+                                    <input
+                                      type="radio"
+                                      name={`merge-${field}`}
+                                      checked={choices[field] === source}
+                                      onChange={() => setChoices({ ...choices, [field]: source })}
+                                      className="mt-1"
+                                    />
+                                    <span className="break-words">{formatPatientValue(field, value, t) || '-'}</span>
+                                  </label>
+                                )}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="border-t mt-6 pt-4 flex flex-col md:flex-row gap-2 md:justify-end">
+                <Link href={`/patients/${survivor.id}`} className="btn-secondary text-center">
+                  {t('common.cancel')}
+                </Link>
+                <button onClick={handleMerge} disabled={merging} className="btn-danger">
+                  {merging ? t('merge.merging') : t('merge.submit', { id: duplicate.id })}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+    </>
+  );
+}
+
+MergePatients.auth = { permission: 'patient:merge' } satisfies PageAuth;
@@ -0,0 +1,284 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { Visit, VisitFormData, VisitStatus } from '../types/patient';
+import { getVisits, updateVisit, getApiErrorMessage } from '../lib/api';
+import {
+  POLI_OPTIONS,
+  VISIT_STATUS_LABELS,
+  VISIT_STATUS_STYLES,
+  NEXT_VISIT_STATUS,
+  todayIsoDate,
+  visitToFormData,
+  poliLabel,
+} from '../lib/visitForm';
+import { formatDate } from '../lib/format';
+import { translate } from '../lib/i18n';
+import VisitForm from '../components/VisitForm';
+import { useAuth } from '../components/AuthProvider';
+import { useI18n } from '../components/LocaleProvider';
+import axios from 'axios';
+
+const REFRESH_INTERVAL_MS = 30000;
+
+const queryValue = (value: string | string[] | undefined) => (Array.isArray(value) ? value[0] : value) || '';
+
+// Queue of visits across all patients for one day, filterable by poli and status (kept in the URL)
+export default function Queue() {
+  const router = useRouter();
+  const { can } = useAuth();
+  const { t } = useI18n();
+  const [visits, setVisits] = useState<Visit[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [finishing, setFinishing] = useState<Visit | null>(null);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const tanggal = queryValue(router.query.tanggal) || todayIsoDate();
+  const poli = queryValue(router.query.poli);
+  const status = queryValue(router.query.status) as VisitStatus | '';
+
+  const updateFilters = (changes: Record<string, string>) => {
+    const query = Object.fromEntries(
+      Object.entries({ tanggal, poli, status, ...changes }).filter(([key, value]) =>
+        value && !(key === 'tanggal' && value === todayIsoDate())
+      )
+    );
+    router.replace({ pathname: router.pathname, query }, undefined, { shallow: true });
+  };
+
+  const fetchQueue = useCallback(async (signal?: AbortSignal) => {
+    try {
+      const result = await getVisits({ tanggal, poli: poli || undefined, status: status || undefined }, signal);
+      setVisits(result);
+      setErrorMessage('');
+    } catch (error) {
+      if (axios.isCancel(error)) return;
+      setErrorMessage(getApiErrorMessage(error, translate('queue.fetchFailed')));
+    } finally {
+      if (!signal?.aborted) {
+        setLoading(false);
+      }
+    }
+  }, [tanggal, poli, status]);
+
+  // Load on filter change and keep the screen fresh while it stays open
+  useEffect(() => {
+    if (!router.isReady) return;
+    const controller = new AbortController();
+    setLoading(true);
+    fetchQueue(controller.signal);
+    const timer = setInterval(() => fetchQueue(controller.signal), REFRESH_INTERVAL_MS);
+    return () => {
+      controller.abort();
+      clearInterval(timer);
+    };
+  }, [router.isReady, fetchQueue]);
+
+  const counts = useMemo(() => {
+    const result = { menunggu: 0, diperiksa: 0, selesai: 0, batal: 0 } as Record<VisitStatus, number>;
+    visits.forEach(visit => result[visit.status]++);
+    return result;
+  }, [visits]);
+
+  const changeStatus = async (visit: Visit, newStatus: VisitStatus) => {
+    try {
+      setBusyId(visit.id);
+      setErrorMessage('');
+      await updateVisit(visit.id, { status: newStatus });
+      fetchQueue();
+    } catch (error) {
+      setErrorMessage(getApiErrorMessage(error, t('queue.statusFailed')));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  // Finishing a visit needs a diagnosis, so it goes through the form
+  const handleFinish = async (data: VisitFormData) => {
+    if (!finishing) return;
+    try {
+      await updateVisit(finishing.id, data);
+      setFinishing(null);
+      fetchQueue();
+    } catch (error) {
+      setErrorMessage(getApiErrorMessage(error, t('visits.saveFailed')));
+      throw error;
+    }
+  };
+
+  return (
+    <>
+      <Head>
+        <title>{t('queue.pageTitle')} - {t('app.title')}</title>
+      </Head>
+
+      <main className="min-h-screen bg-gray-100 py-8">
+        <div className="max-w-7xl mx-auto px-4">
+          <Link href="/" className="inline-block text-blue-600 hover:text-blue-800 font-medium mb-4">
+            ← {t('common.backToList')}
+          </Link>
+
+          {errorMessage && (
+            <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg mb-4">
+              ❌ {errorMessage}
+            </div>
+          )}
+
+          {/* Filters */}
+          <div className="bg-white rounded-lg shadow-md p-4 mb-6 flex flex-col md:flex-row gap-4 md:items-end">
+            <div>
+              <label className="block text-gray-700 text-sm font-medium mb-1">{t('visits.col.date')}</label>
+              <input
+                type="date"
+                value={tanggal}
+                onChange={(e) => updateFilters({ tanggal: e.target.value })}
+                className="input-field"
+              />
+            </div>
+            <div>
+              <label className="block text-gray-700 text-sm font-medium mb-1">{t('visitField.poli')}</label>
+              <select value={poli} onChange={(e) => updateFilters({ poli: e.target.value })} className="input-field">
+                <option value="">{t('queue.allPoli')}</option>
+                {POLI_OPTIONS.map(option => (
+                  <option key={option} value={option}>{poliLabel(option, t)}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-gray-700 text-sm font-medium mb-1">{t('visitField.status')}</label>
+              <select value={status} onChange={(e) => updateFilters({ status: e.target.value })} className="input-field">
+                <option value="">{t('queue.allStatus')}</option>
+                {Object.entries(VISIT_STATUS_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{t(label)}</option>
+                ))}
+              </select>
+            </div>
+            <button onClick={() => fetchQueue()} className="btn-secondary">
+              {t('common.reload')}
+            </button>
+          </div>
+
+          {finishing && (
+            <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+              <h2 className="text-xl font-semibold mb-4">
+                {t('queue.finishTitle', {
+                  nama: finishing.patient?.nama ?? `ID ${finishing.patient_id}`,
+                  poli: poliLabel(finishing.poli, t),
+                  number: finishing.nomor_antrean,
+                })}
+              </h2>
+              <VisitForm
+                key={finishing.id}
+                initialData={{ ...visitToFormData(finishing), status: 'selesai' }}
+                isEditing
+                onSubmit={handleFinish}
+                onCancel={() => setFinishing(null)}
+              />
+            </div>
+          )}
+
+          <div className="bg-white rounded-lg shadow-md overflow-hidden">
+            <div className="p-4 bg-gray-50 border-b flex flex-col md:flex-row gap-2 justify-between md:items-center">
+              <h1 className="text-xl font-semibold">
+                {tanggal === todayIsoDate() ? t('queue.titleToday') : t('queue.titleDate', { date: formatDate(tanggal) })}
+                {poli && ` — ${t('queue.poliSuffix', { poli: poliLabel(poli, t) })}`} ({visits.length})
+              </h1>
+              <div className="flex flex-wrap gap-2 text-xs">
+                {(Object.keys(counts) as VisitStatus[]).map(key => (
+                  <span key={key} className={`px-2 py-1 rounded-full font-medium ${VISIT_STATUS_STYLES[key]}`}>
+                    {t(VISIT_STATUS_LABELS[key])}: {counts[key]}
+                  </span>
+                ))}
+              </div>
+            </div>
+
+            {loading ? (
+              <div className="p-8 text-center text-gray-500">
+                <div className="animate-spin inline-block w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full mb-2"></div>
+                <p>{t('common.loading')}</p>
+              </div>
+            ) : visits.length === 0 ? (
+              <div className="p-8 text-center text-gray-500">
+                <p className="text-lg">{t('queue.empty')}</p>
+                <p className="text-sm">{t('queue.emptyHint')}</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-100">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-sm font-semibold text-gray-600">{t('home.col.no')}</th>
+                      <th className="px-4 py-3 text-left text-sm font-semibold text-gray-600">{t('visitField.poli')}</th>
+                      <th className="px-4 py-3 text-left text-sm font-semibold text-gray-600">{t('queue.col.patient')}</th>
+                      <th className="px-4 py-3 text-left text-sm font-semibold text-gray-600">{t('visitField.keluhan')}</th>
+                      <th className="px-4 py-3 text-left text-sm font-semibold text-gray-600">{t('visitField.dokter')}</th>
+                      <th className="px-4 py-3 text-left text-sm font-semibold text-gray-600">{t('visitField.status')}</th>
+                      <th className="px-4 py-3 text-center text-sm font-semibold text-gray-600">{t('home.col.actions')}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {visits.map((visit) => {
+                      const next = NEXT_VISIT_STATUS[visit.status];
+                      return (
+                        <tr key={visit.id} className="hover:bg-gray-50">
+                          <td className="px-4 py-3 text-lg font-bold text-gray-800">{visit.nomor_antrean}</td>
+                          <td className="px-4 py-3 text-sm text-gray-700">{poliLabel(visit.poli, t)}</td>
+                          <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                            {visit.patient ? (
+                              <Link href={`/patients/${visit.patient.id}`} className="hover:text-blue-600 hover:underline">
+                                {visit.patient.nama}
+                              </Link>
+                            ) : `ID ${visit.patient_id}`}
+                            <span className="block text-xs text-gray-500">{visit.patient?.nik}</span>
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-700">{visit.keluhan}</td>
+                          <td className="px-4 py-3 text-sm text-gray-700">{visit.dokter}</td>
+                          <td className="px-4 py-3 text-sm">
+                            <span className={`px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap ${VISIT_STATUS_STYLES[visit.status]}`}>
+                              {t(VISIT_STATUS_LABELS[visit.status])}
+                            </span>
+                          </td>
+                          <td className="px-4 py-3 text-center whitespace-nowrap text-sm">
+                            {can('visit:edit') && next === 'diperiksa' && (
+                              <button
+                                onClick={() => changeStatus(visit, 'diperiksa')}
+                                disabled={busyId !== null}
+                                className="text-blue-600 hover:text-blue-800 font-medium mr-3 disabled:opacity-50"
+                              >
+                                {t('queue.call')}
+                              </button>
+                            )}
+                            {can('visit:edit') && next === 'selesai' && (
+                              <button
+                                onClick={() => setFinishing(visit)}
+                                disabled={busyId !== null}
+                                className="text-green-600 hover:text-green-800 font-medium mr-3 disabled:opacity-50"
+                              >
+                                {t('queue.finish')}
+                              </button>
+                            )}
+                            {can('visit:edit') && visit.status === 'menunggu' && (
+                              <button
+                                onClick={() => changeStatus(visit, 'batal')}
+                                disabled={busyId !== null}
+                                className="text-gray-600 hover:text-gray-800 font-medium disabled:opacity-50"
+                              >
+                                {t('queue.cancelVisit')}
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,99 @@
+import { useState, useRef, useEffect } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { getPatientById, getApiErrorMessage, ApiRequestError } from '../lib/api';
+import { parsePatientNumber } from '../lib/patientCard';
+import { useI18n } from '../components/LocaleProvider';
+
+// Scanners acting as a keyboard type the code into the focused input and press Enter,
+// so the same box works for scanning a card and typing the number by hand
+export default function ScanPatientCard() {
+  const router = useRouter();
+  const { t } = useI18n();
+  const [code, setCode] = useState('');
+  const [searching, setSearching] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  // Clear and refocus after a failed lookup so the next scan starts from an empty box
+  const fail = (message: string) => {
+    setErrorMessage(message);
+    setCode('');
+    setSearching(false);
+    setTimeout(() => inputRef.current?.focus());
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const scanned = code.trim();
+    if (!scanned || searching) return;
+
+    const id = parsePatientNumber(scanned);
+    if (id === null) {
+      fail(t('scan.invalidCode', { code: scanned }));
+      return;
+    }
+
+    try {
+      setSearching(true);
+      setErrorMessage('');
+      const patient = await getPatientById(id);
+      router.push(`/patients/${patient.id}`);
+    } catch (error) {
+      fail(
+        error instanceof ApiRequestError && error.statusCode === 404
+          ? t('scan.notFound', { code: scanned })
+          : getApiErrorMessage(error, t('scan.failed'))
+      );
+    }
+  };
+
+  return (
+    <>
+      <Head>
+        <title>{t('scan.title')} - {t('app.title')}</title>
+      </Head>
+
+      <main className="min-h-screen bg-gray-100 py-8">
+        <div className="max-w-xl mx-auto px-4">
+          <Link href="/" className="inline-block text-blue-600 hover:text-blue-800 font-medium mb-4">
+            {t('scan.back')}
+          </Link>
+
+          <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-md p-6">
+            <h1 className="text-2xl font-bold text-gray-800 mb-1">{t('scan.title')}</h1>
+            <p className="text-gray-600 text-sm mb-4">{t('scan.description')}</p>
+
+            <div className="flex gap-2">
+              <input
+                ref={inputRef}
+                type="text"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className="input-field font-mono text-lg"
+                placeholder={t('scan.placeholder')}
+                aria-label={t('scan.placeholder')}
+                autoComplete="off"
+                disabled={searching}
+              />
+              <button type="submit" disabled={searching || !code.trim()} className="btn-primary whitespace-nowrap disabled:opacity-50">
+                {searching ? t('scan.searching') : t('scan.submit')}
+              </button>
+            </div>
+
+            {errorMessage && (
+              <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg mt-4">
+                ❌ {errorMessage}
+              </div>
+            )}
+          </form>
+        </div>
+      </main>
+    </>
+  );
+}
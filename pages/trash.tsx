@@ -0,0 +1,199 @@
+import { useState, useEffect, useCallback } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { Patient } from '../types/patient';
+import { getDeletedPatients, restorePatient, purgePatient, getApiErrorMessage } from '../lib/api';
+import { formatDate, formatDateTime } from '../lib/format';
+import { defaultListState } from '../lib/patientQuery';
+import Pagination from '../components/Pagination';
+import PurgeDialog from '../components/PurgeDialog';
+import { translate } from '../lib/i18n';
+import { useAuth } from '../components/AuthProvider';
+import { useI18n } from '../components/LocaleProvider';
+import { PageAuth } from '../types/auth';
+
+export default function Trash() {
+  const { can } = useAuth();
+  const { t } = useI18n();
+  const [patients, setPatients] = useState<Patient[]>([]);
+  const [total, setTotal] = useState(0);
+  const [totalPages, setTotalPages] = useState(1);
+  const [page, setPage] = useState(1);
+  const [limit, setLimit] = useState(defaultListState.limit);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [purgeTarget, setPurgeTarget] = useState<Patient | null>(null);
+  const [successMessage, setSuccessMessage] = useState('');
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const fetchTrash = useCallback(async () => {
+    try {
+      setLoading(true);
+      const result = await getDeletedPatients({ page, limit });
+      setPatients(result.data);
+      setTotal(result.total);
+      setTotalPages(Math.max(1, result.totalPages));
+    } catch (error) {
+      setErrorMessage(getApiErrorMessage(error, translate('trash.fetchFailed')));
+    } finally {
+      setLoading(false);
+    }
+  }, [page, limit]);
+
+  useEffect(() => {
+    fetchTrash();
+  }, [fetchTrash]);
+
+  // Jump back to the last page when it no longer exists (e.g. after restoring its last row)
+  useEffect(() => {
+    if (!loading && page > totalPages) {
+      setPage(totalPages);
+    }
+  }, [loading, page, totalPages]);
+
+  const handleRestore = async (patient: Patient) => {
+    setSuccessMessage('');
+    setErrorMessage('');
+    try {
+      setBusyId(patient.id);
+      await restorePatient(patient.id);
+      setSuccessMessage(t('trash.restored', { nama: patient.nama }));
+      fetchTrash();
+    } catch (error) {
+      setErrorMessage(getApiErrorMessage(error, t('trash.restoreFailed')));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = async () => {
+    if (!purgeTarget || !can('patient:purge')) return;
+    setSuccessMessage('');
+    setErrorMessage('');
+    try {
+      setBusyId(purgeTarget.id);
+      await purgePatient(purgeTarget.id);
+      setSuccessMessage(t('trash.purged', { nama: purgeTarget.nama }));
+      fetchTrash();
+    } catch (error) {
+      setErrorMessage(getApiErrorMessage(error, t('trash.purgeFailed')));
+    } finally {
+      setBusyId(null);
+      setPurgeTarget(null);
+    }
+  };
+
+  return (
+    <>
+      <Head>
+        <title>{t('trash.pageTitle')} - {t('app.title')}</title>
+      </Head>
+
+      <main className="min-h-screen bg-gray-100 py-8">
+        <div className="max-w-7xl mx-auto px-4">
+          <Link href="/" className="inline-block text-blue-600 hover:text-blue-800 font-medium mb-4">
+            ← {t('common.backToList')}
+          </Link>
+
+          {successMessage && (
+            <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded-lg mb-4">
+              ✅ {successMessage}
+            </div>
+          )}
+          {errorMessage && (
+            <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg mb-4">
+              ❌ {errorMessage}
+            </div>
+          )}
+
+          {purgeTarget && (
+            <PurgeDialog
+              patient={purgeTarget}
+              purging={busyId === purgeTarget.id}
+              onConfirm={handlePurge}
+              onCancel={() => setPurgeTarget(null)}
+            />
+          )}
+
+          <div className="bg-white rounded-lg shadow-md overflow-hidden">
+            <div className="p-4 bg-gray-50 border-b">
+              <h1 className="text-xl font-semibold">{t('trash.title', { total })}</h1>
+              <p className="text-sm text-gray-500">{t('trash.description')}</p>
+            </div>
+
+            {loading ? (
+              <div className="p-8 text-center text-gray-500">
+                <div className="animate-spin inline-block w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full mb-2"></div>
+                <p>{t('common.loading')}</p>
+              </div>
+            ) : patients.length === 0 ? (
+              <div className="p-8 text-center text-gray-500">
+                <p className="text-lg">{t('trash.empty')}</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-100">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-sm font-semibold text-gray-600">{t('home.col.nama')}</th>
+                      <th className="px-4 py-3 text-left text-sm font-semibold text-gray-600">{t('home.col.nik')}</th>
+                      <th className="px-4 py-3 text-left text-sm font-semibold text-gray-600">{t('home.col.tanggalLahir')}</th>
+                      <th className="px-4 py-3 text-left text-sm font-semibold text-gray-600">{t('trash.col.deletedAt')}</th>
+                      <th className="px-4 py-3 text-center text-sm font-semibold text-gray-600">{t('home.col.actions')}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {patients.map((patient) => (
+                      <tr key={patient.id} className="hover:bg-gray-50">
+                        <td className="px-4 py-3 text-sm font-medium text-gray-900">{patient.nama}</td>
+                        <td className="px-4 py-3 text-sm text-gray-700">{patient.nik}</td>
+                        <td className="px-4 py-3 text-sm text-gray-700">{formatDate(patient.tanggal_lahir)}</td>
+                        <td className="px-4 py-3 text-sm text-gray-700">
+                          {patient.deleted_at ? formatDateTime(patient.deleted_at) : '-'}
+                        </td>
+                        <td className="px-4 py-3 text-center whitespace-nowrap">
+                          <button
+                            onClick={() => handleRestore(patient)}
+                            disabled={busyId !== null}
+                            className="text-blue-600 hover:text-blue-800 font-medium text-sm mr-3 disabled:opacity-50"
+                          >
+                            {t('trash.restore')}
+                          </button>
+                          {can('patient:purge') && (
+                            <button
+                              onClick={() => setPurgeTarget(patient)}
+                              disabled={busyId !== null}
+                              className="text-red-600 hover:text-red-800 font-medium text-sm disabled:opacity-50"
+                            >
+                              {t('trash.purge')}
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {!loading && total > 0 && (
+              <Pagination
+                page={page}
+                limit={limit}
+                total={total}
+                totalPages={totalPages}
+                onPageChange={setPage}
+                onLimitChange={(newLimit) => {
+                  setLimit(newLimit);
+                  setPage(1);
+                }}
+              />
+            )}
+          </div>
+        </div>
+      </main>
+    </>
+  );
+}
+
+Trash.auth = { permission: 'patient:delete' } satisfies PageAuth;
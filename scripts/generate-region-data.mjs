@@ -0,0 +1,51 @@
+// Bangun lib/regionData/<kode provinsi>.json dari dataset wilayah Kemendagri (paket idn-area-data).
+// Satu file per provinsi agar klien hanya memuat provinsi yang dipakai (lihat loadRegionData di lib/regions.ts).
+// Dataset tidak memuat kode pos; kode pos yang sudah diketahui diambil dari scripts/region-postal-codes.json.
+//
+// Jalankan ulang setelah memperbarui idn-area-data: npm run regions:generate
+
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { getRegencies, getDistricts, getVillages } from 'idn-area-data';
+
+const OUTPUT_DIR = new URL('../lib/regionData/', import.meta.url);
+const POSTAL_CODES = new URL('./region-postal-codes.json', import.meta.url);
+
+// Bagian terakhir kode bertitik, contoh 31.71.01.1001 -> 1001
+const ownCode = code => code.split('.').pop();
+
+const postalCodes = JSON.parse(await readFile(POSTAL_CODES, 'utf-8'));
+const [regencies, districts, villages] = await Promise.all([getRegencies(), getDistricts(), getVillages()]);
+
+// Provinsi -> kabupaten/kota -> kecamatan -> kelurahan/desa, bentuknya sama dengan ProvinceRegionData
+const provinces = {};
+const districtsByCode = {};
+
+regencies.forEach(({ code, province_code: provinceCode, name }) => {
+  provinces[provinceCode] ??= {};
+  provinces[provinceCode][ownCode(code)] = { name, districts: {} };
+});
+
+districts.forEach(({ code, regency_code: regencyCode, name }) => {
+  const [provinceCode] = code.split('.');
+  const district = { name, villages: {} };
+  provinces[provinceCode][ownCode(regencyCode)].districts[ownCode(code)] = district;
+  districtsByCode[code] = district;
+});
+
+villages.forEach(({ code, district_code: districtCode, name }) => {
+  const postalCode = postalCodes[code];
+  districtsByCode[districtCode].villages[ownCode(code)] = postalCode ? [name, postalCode] : [name];
+});
+
+await rm(OUTPUT_DIR, { recursive: true, force: true });
+await mkdir(OUTPUT_DIR, { recursive: true });
+await Promise.all(
+  Object.entries(provinces).map(([provinceCode, data]) =>
+    writeFile(new URL(`${provinceCode}.json`, OUTPUT_DIR), `${JSON.stringify(data)}\n`)
+  )
+);
+
+console.log(
+  `${Object.keys(provinces).length} provinsi, ${regencies.length} kabupaten/kota, ` +
+    `${districts.length} kecamatan, ${villages.length} kelurahan/desa`
+);
@@ -0,0 +1,30 @@
+export type Role = 'admin' | 'front-desk';
+
+export type Permission =
+  | 'patient:create'
+  | 'patient:edit'
+  | 'patient:delete'
+  | 'patient:merge'
+  | 'patient:purge'
+  | 'visit:create'
+  | 'visit:edit'
+  | 'visit:delete';
+
+export interface User {
+  id: number;
+  username: string;
+  name: string;
+  role: Role;
+}
+
+export interface Session {
+  token: string;
+  user: User;
+  expiresAt: string;
+}
+
+// Aturan akses per halaman, dipasang sebagai properti statis `auth` pada komponen page
+export interface PageAuth {
+  public?: boolean;
+  permission?: Permission;
+}
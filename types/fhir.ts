@@ -0,0 +1,70 @@
+// Bagian resource FHIR R4 yang dipakai untuk pertukaran data demografi pasien
+// (https://hl7.org/fhir/R4/patient.html). Field lain dari sistem luar diabaikan saat impor.
+
+export interface FhirExtension {
+  url: string;
+  valueCode?: string;
+  valueString?: string;
+  valueCodeableConcept?: { coding?: { system?: string; code?: string; display?: string }[]; text?: string };
+  extension?: FhirExtension[];
+}
+
+export interface FhirIdentifier {
+  use?: 'usual' | 'official' | 'temp' | 'secondary' | 'old';
+  system?: string;
+  value?: string;
+}
+
+export interface FhirHumanName {
+  use?: string;
+  text?: string;
+  family?: string;
+  given?: string[];
+}
+
+export interface FhirContactPoint {
+  system?: 'phone' | 'fax' | 'email' | 'pager' | 'url' | 'sms' | 'other';
+  value?: string;
+  use?: string;
+}
+
+export interface FhirAddress {
+  use?: string;
+  text?: string;
+  line?: string[];
+  city?: string;
+  district?: string;
+  state?: string;
+  postalCode?: string;
+  country?: string;
+  extension?: FhirExtension[];
+}
+
+export type FhirGender = 'male' | 'female' | 'other' | 'unknown';
+
+export interface FhirPatient {
+  resourceType: 'Patient';
+  id?: string;
+  meta?: { lastUpdated?: string };
+  identifier?: FhirIdentifier[];
+  active?: boolean;
+  name?: FhirHumanName[];
+  telecom?: FhirContactPoint[];
+  gender?: FhirGender;
+  birthDate?: string;
+  address?: FhirAddress[];
+  extension?: FhirExtension[];
+}
+
+export interface FhirBundleEntry {
+  fullUrl?: string;
+  resource?: { resourceType?: string };
+}
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  type: string;
+  timestamp?: string;
+  total?: number;
+  entry?: FhirBundleEntry[];
+}
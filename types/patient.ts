@@ -1,26 +1,47 @@
-export interface Patient {
+import type { PatientFields, PatientFormValues } from '../lib/patientSchema';
+
+// Field data pasien dibangkitkan dari PATIENT_SCHEMA (lib/patientSchema.ts)
+export interface Patient extends PatientFields {
+  id: number;
+  created_at: string;
+  updated_at: string;
+  // Diisi jika pasien ada di Sampah (soft delete)
+  deleted_at?: string;
+  // Hanya di client: perubahan yang masih menunggu di antrean offline
+  pendingSync?: 'create' | 'update' | 'delete';
+}
+
+export type PatientFormData = PatientFormValues;
+
+export type VisitStatus = 'menunggu' | 'diperiksa' | 'selesai' | 'batal';
+
+// Kunjungan (rawat jalan) seorang pasien ke satu poli pada satu hari
+export interface Visit {
   id: number;
-  nama: string;
-  nik: string;
-  tanggal_lahir: string;
-  jenis_kelamin: string;
-  alamat: string;
-  no_telepon: string;
-  email?: string;
-  golongan_darah: string;
+  patient_id: number;
+  tanggal_kunjungan: string;
+  poli: string;
+  // Urutan antrean per poli per hari
+  nomor_antrean: number;
+  keluhan: string;
+  diagnosis_kode?: string; // ICD-10, contoh: J06.9
+  diagnosis_teks?: string;
+  dokter: string;
+  status: VisitStatus;
   created_at: string;
   updated_at: string;
+  // Disertakan pada daftar antrean lintas pasien
+  patient?: Pick<Patient, 'id' | 'nama' | 'nik'>;
 }
 
-export interface PatientFormData {
-  nama: string;
-  nik: string;
-  tanggal_lahir: string;
-  jenis_kelamin: string;
-  alamat: string;
-  no_telepon: string;
-  email: string;
-  golongan_darah: string;
+export interface VisitFormData {
+  tanggal_kunjungan: string;
+  poli: string;
+  keluhan: string;
+  diagnosis_kode: string;
+  diagnosis_teks: string;
+  dokter: string;
+  status: VisitStatus;
 }
 
 export interface FormErrors {